@@ -0,0 +1,116 @@
+import { Catalog } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import { createBTree } from '../database/btree.js';
+import type { CreateIndexStatement, CreateTableStatement } from '../parser/ast.js';
+import { parseCreateTable, findColumn, isSameKey } from '../parser/schema.js';
+import { openWriteTarget, findRows, indexRow, addSchemaEntry } from './write.js';
+
+/**
+ * Definition of the table that AUTOINCREMENT tables record their largest rowids in.
+ */
+const SEQUENCE_TABLE_SQL = 'CREATE TABLE sqlite_sequence(name,seq)';
+
+/**
+ * Execute a CREATE TABLE statement: give the table an empty B-tree, and one to each automatic
+ * index behind its PRIMARY KEY and UNIQUE constraints, and list them all in sqlite_schema in the
+ * order SQLite does. The first AUTOINCREMENT table also brings sqlite_sequence into being.
+ * @param pager - Pager for the SQLite database, opened for writing
+ * @param catalog - Objects of the database
+ * @param statement - Parsed CREATE TABLE statement
+ */
+export async function handleCreateTable(pager: Pager, catalog: Catalog, statement: CreateTableStatement): Promise<void> {
+    if (statement.temporary) {
+        throw new Error("Temporary tables are not supported");
+    }
+    const { name } = statement;
+    checkObjectName(name);
+    const existing = catalog.lookup('table', name) ?? catalog.lookup('view', name);
+    if (existing && statement.ifNotExists) {
+        return;
+    }
+    if (existing) {
+        throw new Error(`${existing.type} ${name} already exists`);
+    }
+    if (catalog.lookup('index', name)) {
+        throw new Error(`there is already an index named ${name}`);
+    }
+    
+    const sql = `CREATE TABLE ${statement.sqlTail}`;
+    const schema = parseCreateTable(sql);
+    const duplicate = schema.columns.find((column, i) => findColumn(schema, column.name) !== i);
+    if (duplicate) {
+        throw new Error(`duplicate column name: ${duplicate.name}`);
+    }
+    if (schema.withoutRowid && schema.primaryKey.length === 0) {
+        throw new Error(`PRIMARY KEY missing on table ${name}`);
+    }
+    
+    await addSchemaEntry(pager, { type: 'table', name, tableName: name, rootPage: await createBTree(pager, !schema.withoutRowid), sql });
+    // The primary key of a WITHOUT ROWID table is numbered like the other keys, but the table is its index
+    for (const [i, key] of schema.uniqueKeys.entries()) {
+        if (!schema.withoutRowid || !isSameKey(key, schema.primaryKey)) {
+            const rootPage = await createBTree(pager, false);
+            await addSchemaEntry(pager, { type: 'index', name: `sqlite_autoindex_${name}_${i + 1}`, tableName: name, rootPage, sql: null });
+        }
+    }
+    if (schema.autoincrement && !catalog.lookup('table', 'sqlite_sequence')) {
+        const rootPage = await createBTree(pager, true);
+        await addSchemaEntry(pager, { type: 'table', name: 'sqlite_sequence', tableName: 'sqlite_sequence', rootPage, sql: SEQUENCE_TABLE_SQL });
+    }
+}
+
+/**
+ * Execute a CREATE INDEX statement: list the index in sqlite_schema and build its B-tree from
+ * the rows already in the table. A UNIQUE index fails if two rows already share a key.
+ * @param pager - Pager for the SQLite database, opened for writing
+ * @param catalog - Objects of the database
+ * @param statement - Parsed CREATE INDEX statement
+ */
+export async function handleCreateIndex(pager: Pager, catalog: Catalog, statement: CreateIndexStatement): Promise<void> {
+    const { name } = statement;
+    if (['sqlite_schema', 'sqlite_master'].includes(statement.table.toLowerCase())) {
+        throw new Error("table sqlite_master may not be indexed");
+    }
+    const table = catalog.lookup('table', statement.table);
+    if (!table) {
+        throw new Error(catalog.lookup('view', statement.table) ? "views may not be indexed" : `no such table: main.${statement.table}`);
+    }
+    if (table.name.toLowerCase().startsWith('sqlite_')) {
+        throw new Error(`table ${table.name} may not be indexed`);
+    }
+    checkObjectName(name);
+    if (catalog.lookup('table', name) || catalog.lookup('view', name)) {
+        throw new Error(`there is already a table named ${name}`);
+    }
+    if (catalog.lookup('index', name)) {
+        if (statement.ifNotExists) {
+            return;
+        }
+        throw new Error(`index ${name} already exists`);
+    }
+    const { schema } = catalog.findTable(table.name);
+    for (const { expr } of statement.columns) {
+        if (expr.kind === 'column' && findColumn(schema, expr.name) === -1) {
+            throw new Error(`no such column: ${expr.name}`);
+        }
+    }
+    
+    const sql = `CREATE ${statement.unique ? 'UNIQUE ' : ''}INDEX ${statement.sqlTail}`;
+    await addSchemaEntry(pager, { type: 'index', name, tableName: table.name, rootPage: await createBTree(pager, false), sql });
+    // The catalog read back through the pager knows the new index and how its entries are made
+    const target = openWriteTarget(await Catalog.load(pager), { schema: null, name: table.name, alias: null });
+    const key = target.keys.find(candidate => candidate.index.name === name)!;
+    for (const row of await findRows(pager, target, null)) {
+        await indexRow(pager, target, key, row);
+    }
+}
+
+/**
+ * Reject names that SQLite keeps for the objects it creates itself.
+ * @param name - Name of a new table or index
+ */
+function checkObjectName(name: string): void {
+    if (name.toLowerCase().startsWith('sqlite_')) {
+        throw new Error(`object name reserved for internal use: ${name}`);
+    }
+}
@@ -1,17 +1,45 @@
-import type { FileHandle } from 'fs/promises';
-import { readPageHeader } from '../database/page.js';
+import type { Pager } from '../database/pager.js';
+import type { Catalog } from '../database/schema.js';
+import { parseDatabaseHeader } from '../database/header.js';
+
+const TEXT_ENCODING_NAMES: Record<number, string> = { 1: 'utf8', 2: 'utf16le', 3: 'utf16be' };
 
 /**
- * Print SQLite database metadata including page size and table count.
- * @param fileHandler - Open file handle to the SQLite database
+ * Print the database header fields and the number of each kind of schema object,
+ * in the format of the sqlite3 shell's `.dbinfo` command.
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
  */
-export async function handleDbInfo(fileHandler: FileHandle): Promise<void> {
-    const buffer: Uint8Array = new Uint8Array(100);
-    await fileHandler.read(buffer, 0, buffer.length, 0);
-
-    const pageSize = new DataView(buffer.buffer, 0, buffer.byteLength).getUint16(16);
-    console.log(`database page size: ${pageSize}`);
-
-    const numberOfTables = await readPageHeader(fileHandler, 0, true);
-    console.log(`number of tables: ${numberOfTables}`);
+export async function handleDbInfo(pager: Pager, catalog: Catalog): Promise<void> {
+    const header = parseDatabaseHeader(await pager.getPage(1));
+    const encoding = TEXT_ENCODING_NAMES[header.textEncoding];
+    // Counted in characters, as SQL's length() does
+    const schemaSize = catalog.entries.reduce((size, entry) => size + [...entry.sql ?? ''].length, 0);
+    
+    const fields: Array<[string, number | string]> = [
+        ['database page size:', header.pageSize],
+        ['write format:', header.writeVersion],
+        ['read format:', header.readVersion],
+        ['reserved bytes:', header.reservedBytes],
+        ['file change counter:', header.fileChangeCounter],
+        ['database page count:', header.pageCount],
+        ['freelist page count:', header.freelistPageCount],
+        ['schema cookie:', header.schemaCookie],
+        ['schema format:', header.schemaFormat],
+        ['default cache size:', header.defaultCacheSize],
+        ['autovacuum top root:', header.autoVacuumTopRoot],
+        ['incremental vacuum:', header.incrementalVacuum],
+        ['text encoding:', encoding ? `${header.textEncoding} (${encoding})` : header.textEncoding],
+        ['user version:', header.userVersion],
+        ['application id:', header.applicationId],
+        ['software version:', header.sqliteVersion],
+        ['number of tables:', catalog.list('table').length],
+        ['number of indexes:', catalog.list('index').length],
+        ['number of triggers:', catalog.list('trigger').length],
+        ['number of views:', catalog.list('view').length],
+        ['schema size:', schemaSize],
+    ];
+    for (const [label, value] of fields) {
+        console.log(`${label.padEnd(20)} ${value}`);
+    }
 }
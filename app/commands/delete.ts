@@ -0,0 +1,32 @@
+import type { Catalog } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import { clearBTree } from '../database/btree.js';
+import type { DeleteStatement } from '../parser/ast.js';
+import { openWriteTarget, checkTriggers, findRows, removeRow } from './write.js';
+
+/**
+ * Execute a DELETE statement: remove the rows its WHERE clause holds for from the table and
+ * from every index on it, and print how many rows were deleted; the caller commits the changes.
+ * Without a WHERE clause the table and its indexes are emptied at once, freeing all their pages
+ * but the roots.
+ * @param pager - Pager for the SQLite database, opened for writing
+ * @param catalog - Objects of the database
+ * @param statement - Parsed DELETE statement
+ */
+export async function handleDelete(pager: Pager, catalog: Catalog, statement: DeleteStatement): Promise<void> {
+    const target = openWriteTarget(catalog, statement.table);
+    checkTriggers(catalog, target);
+    let changes = 0;
+    if (statement.where === null) {
+        changes = await clearBTree(pager, target.table.rootPage);
+        for (const key of target.keys) {
+            await clearBTree(pager, key.index.rootPage);
+        }
+    } else {
+        for (const row of await findRows(pager, target, statement.where)) {
+            await removeRow(pager, target, row);
+            changes++;
+        }
+    }
+    console.log(changes);
+}
@@ -0,0 +1,69 @@
+import type { Catalog } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import { dropBTree, deleteTableRow } from '../database/btree.js';
+import { TableCursor } from '../database/table.js';
+import type { DropStatement } from '../parser/ast.js';
+import { removeSchemaEntries } from './write.js';
+
+/**
+ * Execute a DROP TABLE or DROP INDEX statement: put every page of the dropped B-trees on the
+ * freelist and delete their rows from sqlite_schema. A table takes its indexes and triggers with
+ * it, and its row of sqlite_sequence.
+ * @param pager - Pager for the SQLite database, opened for writing
+ * @param catalog - Objects of the database
+ * @param statement - Parsed DROP statement
+ */
+export async function handleDrop(pager: Pager, catalog: Catalog, statement: DropStatement): Promise<void> {
+    const { type, name } = statement;
+    if (statement.schema !== null && statement.schema.toLowerCase() !== 'main') {
+        throw new Error(`unknown database ${statement.schema}`);
+    }
+    if (type === 'table' && ['sqlite_schema', 'sqlite_master'].includes(name.toLowerCase())) {
+        throw new Error("table sqlite_master may not be dropped");
+    }
+    const entry = catalog.lookup(type, name);
+    if (!entry) {
+        if (statement.ifExists) {
+            return;
+        }
+        if (type === 'table' && catalog.lookup('view', name)) {
+            throw new Error(`use DROP VIEW to delete view ${name}`);
+        }
+        throw new Error(`no such ${type}: ${name}`);
+    }
+    
+    if (type === 'index') {
+        if (entry.sql === null) {
+            throw new Error("index associated with UNIQUE or PRIMARY KEY constraint cannot be dropped");
+        }
+        await dropBTree(pager, entry.rootPage);
+        await removeSchemaEntries(pager, [entry]);
+        return;
+    }
+    
+    const lower = entry.name.toLowerCase();
+    if (lower.startsWith('sqlite_') && !lower.startsWith('sqlite_stat')) {
+        throw new Error(`table ${entry.name} may not be dropped`);
+    }
+    const entries = catalog.entries.filter(other => other.tableName.toLowerCase() === lower);
+    // A virtual table has no B-tree, and the primary key of a WITHOUT ROWID table has no entry of its own
+    for (const other of entries) {
+        if (other.rootPage !== 0 && (other.type === 'table' || other.type === 'index')) {
+            await dropBTree(pager, other.rootPage);
+        }
+    }
+    await removeSchemaEntries(pager, entries);
+    
+    const sequence = catalog.lookup('table', 'sqlite_sequence');
+    if (sequence) {
+        const rowids: bigint[] = [];
+        for await (const row of new TableCursor(pager, sequence.rootPage)) {
+            if (row.values[0] === entry.name) {
+                rowids.push(row.rowid);
+            }
+        }
+        for (const rowid of rowids) {
+            await deleteTableRow(pager, sequence.rootPage, rowid);
+        }
+    }
+}
@@ -0,0 +1,214 @@
+import { randomBytes } from 'crypto';
+import type { Catalog } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import { insertTableRow } from '../database/btree.js';
+import { TableCursor, fetchRowByRowid } from '../database/table.js';
+import type { ColumnExpr, InsertStatement } from '../parser/ast.js';
+import { encodeRecord } from '../parser/record.js';
+import { findColumn } from '../parser/schema.js';
+import type { TableSchema } from '../parser/schema.js';
+import { evaluate } from '../query/evaluator.js';
+import type { EvalContext } from '../query/evaluator.js';
+import { columnDefault } from '../query/join.js';
+import { applyAffinity } from '../utils/affinity.js';
+import { INT64_MAX } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import { openWriteTarget, checkTriggers, isRowidName, buildRow, checkRow, storeRow, checkRowid } from './write.js';
+import type { WriteTarget } from './write.js';
+
+/**
+ * Position in a VALUES row that sets the rowid rather than a declared column.
+ */
+const ROWID_TARGET = -1;
+
+/**
+ * How many random rowids to try, as SQLite does, once the largest rowid is taken.
+ */
+const RANDOM_ROWID_ATTEMPTS = 100;
+
+/**
+ * Values of the VALUES clause cannot refer to any column.
+ */
+const CONSTANT_CONTEXT: EvalContext = {
+    resolveColumn(ref: ColumnExpr): never {
+        throw new Error(`no such column: ${ref.table !== null ? `${ref.table}.` : ''}${ref.name}`);
+    }
+};
+
+/**
+ * The row of sqlite_sequence that records the largest rowid an AUTOINCREMENT table has used.
+ */
+interface Sequence {
+    /** Rowid of the row in sqlite_sequence, null if the table has no row yet */
+    rowid: bigint | null;
+    seq: bigint;
+}
+
+/**
+ * Execute an INSERT statement: add each row of its VALUES clause to the table and to every
+ * index on it. The changes stay in the pager until the caller commits them. A row is checked
+ * against the NOT NULL, CHECK, PRIMARY KEY and UNIQUE constraints before anything of it is
+ * stored; if any row fails, the statement fails and nothing of it is committed.
+ * @param pager - Pager for the SQLite database, opened for writing
+ * @param catalog - Objects of the database
+ * @param statement - Parsed INSERT statement
+ */
+export async function handleInsert(pager: Pager, catalog: Catalog, statement: InsertStatement): Promise<void> {
+    const target = openWriteTarget(catalog, statement.table);
+    checkTriggers(catalog, target);
+    const { table } = target;
+    const { schema } = table;
+    const targets = resolveTargets(schema, statement.columns);
+    const sequence = schema.autoincrement ? await readSequence(pager, catalog, table.name) : null;
+    const initialSeq = sequence?.seq;
+    const constants: EvalContext = { ...CONSTANT_CONTEXT, textEncoding: pager.textEncoding };
+    
+    for (const exprs of statement.rows) {
+        if (exprs.length !== statement.rows[0].length) {
+            throw new Error("all VALUES must have the same number of terms");
+        }
+        if (exprs.length !== targets.length && statement.columns === null) {
+            throw new Error(`table ${table.name} has ${targets.length} columns but ${exprs.length} values were supplied`);
+        }
+        if (exprs.length !== targets.length) {
+            throw new Error(`${exprs.length} values for ${targets.length} columns`);
+        }
+        const supplied = new Map(targets.map((column, i) => [column, evaluate(exprs[i], constants)]));
+        await insertRow(pager, target, supplied, sequence);
+    }
+    
+    if (sequence && sequence.seq !== initialSeq) {
+        await writeSequence(pager, catalog, table.name, sequence);
+    }
+}
+
+/**
+ * Work out which column each value of a VALUES row is for.
+ * @param schema - Schema of the table
+ * @param columns - Column names listed by the statement, or null for every column that can be set
+ * @returns Index of each value's column, or ROWID_TARGET for the rowid
+ */
+function resolveTargets(schema: TableSchema, columns: string[] | null): number[] {
+    if (columns === null) {
+        return schema.columns.flatMap((column, i) => column.generated ? [] : [i]);
+    }
+    return columns.map(name => {
+        const index = findColumn(schema, name);
+        if (index !== -1) {
+            if (schema.columns[index].generated) {
+                throw new Error(`cannot INSERT into generated column "${schema.columns[index].name}"`);
+            }
+            return index;
+        }
+        if (isRowidName(schema, name)) {
+            return ROWID_TARGET;
+        }
+        throw new Error(`table ${schema.name} has no column named ${name}`);
+    });
+}
+
+/**
+ * Check one row against the table's constraints and store it in the table and its indexes.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param supplied - Value given for each column, keyed as resolveTargets numbers them
+ * @param sequence - The table's sqlite_sequence row if it is AUTOINCREMENT; updated to the new rowid
+ */
+async function insertRow(pager: Pager, target: WriteTarget, supplied: Map<number, SqlValue>, sequence: Sequence | null): Promise<void> {
+    const { schema } = target.table;
+    const ipk = schema.integerPrimaryKeyColumn !== null ? findColumn(schema, schema.integerPrimaryKeyColumn) : -1;
+    // Columns left out take their DEFAULT
+    const values = schema.columns.map((column, i) => supplied.has(i) ? applyAffinity(supplied.get(i)!, column.affinity) : columnDefault(column, pager.textEncoding));
+    const rowid = schema.withoutRowid ? 0n : await assignRowid(pager, target, supplied.get(ipk) ?? supplied.get(ROWID_TARGET) ?? null, sequence);
+    const { row, context } = buildRow(pager, target, values, rowid);
+    // Every constraint is checked before anything is written, so that a failing row changes nothing
+    const entries = await checkRow(pager, target, row, context);
+    await storeRow(pager, target, row, entries);
+}
+
+/**
+ * Choose the rowid of a new row. Without an explicit one, a row gets one more than the largest
+ * rowid in the table, or for an AUTOINCREMENT table one more than the largest it ever used.
+ * Once the largest possible rowid is taken, a table without AUTOINCREMENT gets an unused one at random.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param explicit - Value given for the rowid or the column that aliases it, or null
+ * @param sequence - The table's sqlite_sequence row if it is AUTOINCREMENT; updated to the new rowid
+ * @returns The rowid
+ */
+async function assignRowid(pager: Pager, target: WriteTarget, explicit: SqlValue, sequence: Sequence | null): Promise<bigint> {
+    let rowid: bigint;
+    if (explicit !== null) {
+        const value = applyAffinity(explicit, 'INTEGER');
+        if (typeof value !== 'bigint') {
+            throw new Error("datatype mismatch");
+        }
+        rowid = value;
+        await checkRowid(pager, target, rowid);
+    } else {
+        const cursor = new TableCursor(pager, target.table.rootPage);
+        const largest = await cursor.last() ? cursor.rowid : 0n;
+        const seq = sequence?.seq ?? 0n;
+        rowid = (largest > seq ? largest : seq) + 1n;
+        if (rowid > INT64_MAX) {
+            if (sequence) {
+                throw new Error("database or disk is full");
+            }
+            rowid = await randomRowid(pager, target);
+        }
+    }
+    if (sequence && rowid > sequence.seq) {
+        sequence.seq = rowid;
+    }
+    return rowid;
+}
+
+/**
+ * Pick a random rowid that no row of the table has, between 1 and 2^62 as SQLite does.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @returns The rowid
+ */
+async function randomRowid(pager: Pager, target: WriteTarget): Promise<bigint> {
+    for (let attempt = 0; attempt < RANDOM_ROWID_ATTEMPTS; attempt++) {
+        const rowid = (randomBytes(8).readBigUInt64BE() & (INT64_MAX >> 1n)) + 1n;
+        if (await fetchRowByRowid(pager, target.table.rootPage, rowid) === null) {
+            return rowid;
+        }
+    }
+    throw new Error("database or disk is full");
+}
+
+/**
+ * Find the row of sqlite_sequence for an AUTOINCREMENT table.
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
+ * @param tableName - Name of the table
+ * @returns The row, or a sequence starting from 0 if the table has none yet
+ */
+async function readSequence(pager: Pager, catalog: Catalog, tableName: string): Promise<Sequence> {
+    const { rootPage } = catalog.findTable('sqlite_sequence');
+    for await (const row of new TableCursor(pager, rootPage)) {
+        if (row.values[0] === tableName) {
+            return { rowid: row.rowid, seq: typeof row.values[1] === 'bigint' ? row.values[1] : 0n };
+        }
+    }
+    return { rowid: null, seq: 0n };
+}
+
+/**
+ * Record the largest rowid an AUTOINCREMENT table has used in sqlite_sequence.
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
+ * @param tableName - Name of the table
+ * @param sequence - The table's row, which gets a rowid if it is new
+ */
+async function writeSequence(pager: Pager, catalog: Catalog, tableName: string, sequence: Sequence): Promise<void> {
+    const { rootPage } = catalog.findTable('sqlite_sequence');
+    if (sequence.rowid === null) {
+        const cursor = new TableCursor(pager, rootPage);
+        sequence.rowid = (await cursor.last() ? cursor.rowid : 0n) + 1n;
+    }
+    const record = encodeRecord([tableName, sequence.seq], pager.textEncoding);
+    await insertTableRow(pager, rootPage, sequence.rowid, record, true);
+}
@@ -0,0 +1,331 @@
+import type { Catalog, IndexKey, TableInfo } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import { checkBTrees } from '../database/integrity.js';
+import { IndexCursor, compareIndexKey } from '../database/index.js';
+import { TableCursor } from '../database/table.js';
+import type { Expr, ColumnExpr } from '../parser/ast.js';
+import type { Row } from '../parser/record.js';
+import type { TableSchema } from '../parser/schema.js';
+import { evaluate, isTrue } from '../query/evaluator.js';
+import { scanRows, createJoinContext, rowCompleter } from '../query/join.js';
+import type { JoinSource } from '../query/join.js';
+import { applyAffinity, isNumericAffinity } from '../utils/affinity.js';
+import { compareValues } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+
+/**
+ * Number of problems reported when PRAGMA integrity_check is not given a limit.
+ */
+const DEFAULT_MAX_ERRORS = 100;
+
+/**
+ * What SQLite reports when it cannot read a row or index entry during the check.
+ */
+const MALFORMED = "database disk image is malformed";
+
+/**
+ * A cell of a table B-tree that does not hold a readable row.
+ */
+interface UnreadableCell {
+    pageNumber: number;
+    cell: number;
+    /** Why the row could not be read, null if the B-tree check already reported the cell */
+    message: string | null;
+}
+
+/**
+ * Prints result rows as they are found, until the problems counted against the limit use it up.
+ */
+class IntegrityReport {
+    private remaining: number;
+    private printed = 0;
+    
+    /**
+     * @param maxErrors - Most problems to report
+     */
+    constructor(maxErrors: number) {
+        this.remaining = maxErrors;
+    }
+    
+    /**
+     * Whether the limit has been reached, so that checking should stop.
+     */
+    get done(): boolean {
+        return this.remaining <= 0;
+    }
+    
+    /**
+     * Whether no result row has been printed.
+     */
+    get empty(): boolean {
+        return this.printed === 0;
+    }
+    
+    /**
+     * Count problems against the limit without printing them.
+     * @param count - Number of problems
+     */
+    consume(count: number): void {
+        this.remaining -= count;
+    }
+    
+    /**
+     * Print a result row, which counts as one problem.
+     * @param row - Text of the row
+     */
+    add(row: string): void {
+        console.log(row);
+        this.printed++;
+        this.remaining--;
+    }
+    
+    /**
+     * Print a last result row and stop checking, as SQLite does when it cannot read the database.
+     * @param row - Text of the row
+     */
+    abort(row: string): void {
+        this.add(row);
+        this.remaining = 0;
+    }
+}
+
+/**
+ * Check the integrity of the database as PRAGMA integrity_check does and print the problems
+ * found, or `ok`. The B-tree problems come first as a single row, then the indexes whose entry
+ * counts disagree with their tables, then the problems of each row: NULLs in NOT NULL columns,
+ * values of the wrong type, failed CHECK constraints and, unless quick, missing or duplicated index
+ * entries. A row whose cell cannot be read is reported with its cell and as missing from every
+ * index, and the check goes on; like SQLite, it ends early, reporting the database as malformed,
+ * when a table cannot be walked at all.
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
+ * @param argument - The pragma's argument: the most problems to report, or the only table to check
+ * @param quick - Skip comparing indexes with their tables, as PRAGMA quick_check does
+ */
+export async function handleIntegrityCheck(pager: Pager, catalog: Catalog, argument: string | null, quick: boolean): Promise<void> {
+    let maxErrors = DEFAULT_MAX_ERRORS;
+    let only: TableInfo | null = null;
+    if (argument !== null && /^[+-]?\d+$/.test(argument)) {
+        maxErrors = Number(argument) > 0 ? Number(argument) : DEFAULT_MAX_ERRORS;
+    } else if (argument !== null) {
+        only = catalog.findTable(argument);
+    }
+    
+    // SQLite visits the tables newest first, the schema table last, and the indexes of each table newest first
+    const tables = only ? [only] : [
+        catalog.findTable('sqlite_schema'),
+        ...catalog.list('table').filter(entry => entry.rootPage !== 0 && entry.sql !== null).map(entry => catalog.findTable(entry.name)),
+    ].reverse();
+    const indexesOf = new Map(tables.map(table => [table, catalog.findIndexes(table.schema).reverse()]));
+    // The primary key index of a WITHOUT ROWID table is the table itself
+    const roots = tables.flatMap(table => [
+        ...(table.schema.withoutRowid ? [] : [table.rootPage]),
+        ...indexesOf.get(table)!.map(index => index.rootPage),
+    ]);
+    
+    const report = new IntegrityReport(maxErrors);
+    const { errors, entryCounts, cyclic, brokenCells } = await checkBTrees(pager, roots, maxErrors, only !== null);
+    report.consume(errors.length);
+    if (errors.length > 0) {
+        report.add(['*** in database main ***', ...errors].join('\n'));
+    }
+    
+    // The walk counted the cells of every tree; a partial index holds fewer entries than its table has rows
+    for (const table of tables) {
+        for (const index of indexesOf.get(table)!) {
+            if (report.done) {
+                return;
+            }
+            if (!index.partial && entryCounts.get(index.rootPage) !== entryCounts.get(table.rootPage)) {
+                report.add(`wrong # of entries in index ${index.name}`);
+            }
+        }
+    }
+    
+    for (const table of tables) {
+        if (report.done) {
+            return;
+        }
+        const indexes = quick ? [] : indexesOf.get(table)!.filter(index => index.rootPage !== table.rootPage);
+        // SQLite's cursors notice a tree that loops back on itself and fail; ours would descend forever
+        if ([table.rootPage, ...indexes.map(index => index.rootPage)].some(root => cyclic.has(root))) {
+            report.abort(MALFORMED);
+            return;
+        }
+        await checkRows(pager, table, indexes.map(index => catalog.indexKey(table.schema, index)), quick, brokenCells, report);
+    }
+    
+    if (report.empty) {
+        console.log("ok");
+    }
+}
+
+/**
+ * Check each row of a table against the constraints of its columns and against the entries
+ * of its indexes. Rows are numbered from 1 in the order the table stores them.
+ * @param pager - Pager for the SQLite database
+ * @param table - The table
+ * @param keys - The indexes to compare with the rows
+ * @param quick - Skip the checks that need more than the row itself
+ * @param brokenCells - Cells the B-tree check found outside their page, by page number
+ * @param report - Where to print problems
+ */
+async function checkRows(pager: Pager, table: TableInfo, keys: IndexKey[], quick: boolean, brokenCells: Map<number, Set<number>>, report: IntegrityReport): Promise<void> {
+    const { schema, rootPage } = table;
+    const source: JoinSource = { table: { ...schema, alias: null }, rootPage, indexes: [], kind: 'inner', on: null, hidden: new Set() };
+    let rowNumber = 0;
+    let previousKey: SqlValue[] | null = null;
+    
+    const rows = schema.withoutRowid
+        ? scanRows(pager, source.table, rootPage, { kind: 'tableScan', reverse: false })
+        : readTableCells(pager, table, brokenCells);
+    for (let row = await readRow(rows, report); row; row = await readRow(rows, report)) {
+        rowNumber++;
+        if ('cell' in row) {
+            // Its values are unknown, so no index can have an entry for it
+            if (row.message !== null) {
+                report.add(`Tree ${rootPage} page ${row.pageNumber} cell ${row.cell}: ${row.message}`);
+            }
+            for (const key of keys) {
+                if (report.done) {
+                    return;
+                }
+                report.add(`row ${rowNumber} missing from index ${key.index.name}`);
+            }
+            continue;
+        }
+        const context = createJoinContext([source], [row], pager.textEncoding);
+        const valueOf = (expr: Expr) => evaluate(expr, context);
+        
+        if (!quick && schema.withoutRowid) {
+            const key = schema.primaryKey.map(column => valueOf(columnRef(column.name)));
+            if (previousKey && compareIndexKey(key, previousKey, schema.primaryKey, pager.textEncoding) <= 0) {
+                report.add(`row not in PRIMARY KEY order for ${schema.name}`);
+            }
+            previousKey = key;
+        }
+        
+        for (const column of schema.columns) {
+            if (report.done) {
+                return;
+            }
+            if (column.name === schema.integerPrimaryKeyColumn || (column.generated && !column.generated.stored)) {
+                continue;
+            }
+            const value = valueOf(columnRef(column.name));
+            if (column.notNull && value === null) {
+                report.add(`NULL value in ${schema.name}.${column.name}`);
+            } else if (column.affinity === 'TEXT' && (typeof value === 'bigint' || typeof value === 'number')) {
+                report.add(`NUMERIC value in ${schema.name}.${column.name}`);
+            } else if (isNumericAffinity(column.affinity) && typeof value === 'string' && typeof applyAffinity(value, 'NUMERIC') !== 'string') {
+                // Numeric affinity would have converted the text when it was stored
+                report.add(`TEXT value in ${schema.name}.${column.name}`);
+            }
+        }
+        
+        // A CHECK constraint only fails when false; NULL satisfies it
+        if (schema.checks.some(check => { const value = valueOf(check); return value !== null && !isTrue(value); })) {
+            report.add(`CHECK constraint failed in ${schema.name}`);
+        }
+        
+        for (const key of keys) {
+            if (report.done) {
+                return;
+            }
+            if (key.where && !isTrue(valueOf(key.where))) {
+                continue;
+            }
+            const entry = [
+                ...key.exprs.map(valueOf),
+                ...(schema.withoutRowid ? key.suffix.map(column => valueOf(columnRef(column.name))) : [row.rowid]),
+            ];
+            try {
+                const problem = await checkIndexEntry(pager, schema, key, entry, rowNumber);
+                if (problem) {
+                    report.add(problem);
+                }
+            } catch {
+                report.abort(MALFORMED);
+            }
+        }
+    }
+}
+
+/**
+ * Read the rows of a rowid table cell by cell, passing over the cells that cannot be read.
+ * @param pager - Pager for the SQLite database
+ * @param table - The table
+ * @param brokenCells - Cells the B-tree check found outside their page, which are not read at all
+ * @returns Each row, or the cell in its place if it cannot be read
+ */
+async function* readTableCells(pager: Pager, table: TableInfo, brokenCells: Map<number, Set<number>>): AsyncGenerator<Row | UnreadableCell> {
+    const cursor = new TableCursor(pager, table.rootPage);
+    const complete = rowCompleter(table.schema, pager.textEncoding);
+    for (let found = await cursor.first(); found; found = await cursor.next()) {
+        const { pageNumber, cell } = cursor.position;
+        if (brokenCells.get(pageNumber)?.has(cell)) {
+            yield { pageNumber, cell, message: null };
+            continue;
+        }
+        let row: Row;
+        try {
+            row = await cursor.row();
+        } catch (error) {
+            yield { pageNumber, cell, message: (error as Error).message };
+            continue;
+        }
+        yield complete(row);
+    }
+}
+
+/**
+ * Read the next row of a table. A table that cannot be walked ends the whole check.
+ * @param rows - Rows of the table
+ * @param report - Where to report the failure
+ * @returns The row, or null at the end of the table or after a failure
+ */
+async function readRow<T>(rows: AsyncGenerator<T>, report: IntegrityReport): Promise<T | null> {
+    try {
+        const next = await rows.next();
+        return next.done ? null : next.value;
+    } catch {
+        report.abort(MALFORMED);
+        return null;
+    }
+}
+
+/**
+ * Look up the index entry a row should have.
+ * @param pager - Pager for the SQLite database
+ * @param table - Schema of the indexed table
+ * @param key - The index
+ * @param entry - The values the entry should hold
+ * @param rowNumber - Position of the row in the table, for messages
+ * @returns A description of what is wrong with the entry, or null
+ */
+async function checkIndexEntry(pager: Pager, table: TableSchema, key: IndexKey, entry: SqlValue[], rowNumber: number): Promise<string | null> {
+    const { index, keyColumns } = key;
+    const cursor = new IndexCursor(pager, index.rootPage, keyColumns);
+    const found = await cursor.seek(entry) ? await cursor.record() : null;
+    if (!found || compareIndexKey(found, entry, keyColumns, pager.textEncoding) !== 0) {
+        return `row ${rowNumber} missing from index ${index.name}`;
+    }
+    if (!table.withoutRowid && compareValues(found[found.length - 1], entry[entry.length - 1]) !== 0) {
+        return `rowid not at end-of-record for row ${rowNumber} of index ${index.name}`;
+    }
+    // The lookup matched under the index's collations; the stored text must still be the table's
+    if (index.columns.some((column, i) => column.collation !== 'BINARY' && compareValues(found[i], entry[i]) !== 0)) {
+        return `row ${rowNumber} values differ from index ${index.name}`;
+    }
+    
+    // Entries with a NULL column never conflict; otherwise the next entry must have a different key
+    const indexed = entry.slice(0, index.columns.length);
+    if (index.unique && !indexed.includes(null) && await cursor.next() && compareIndexKey(await cursor.record(), indexed, keyColumns, pager.textEncoding) <= 0) {
+        return `non-unique entry in index ${index.name}`;
+    }
+    return null;
+}
+
+function columnRef(name: string): ColumnExpr {
+    return { kind: 'column', table: null, name };
+}
@@ -0,0 +1,26 @@
+import type { Catalog } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import type { PragmaStatement } from '../parser/ast.js';
+import { handleIntegrityCheck } from './integrity.js';
+
+/**
+ * Run a PRAGMA statement. Only the pragmas that check the database are supported.
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
+ * @param statement - Parsed PRAGMA statement
+ */
+export async function handlePragma(pager: Pager, catalog: Catalog, statement: PragmaStatement): Promise<void> {
+    if (statement.schema !== null && statement.schema.toLowerCase() !== 'main') {
+        throw new Error(`unknown database ${statement.schema}`);
+    }
+    switch (statement.name.toLowerCase()) {
+        case 'integrity_check':
+            await handleIntegrityCheck(pager, catalog, statement.value, false);
+            break;
+        case 'quick_check':
+            await handleIntegrityCheck(pager, catalog, statement.value, true);
+            break;
+        default:
+            throw new Error(`Unsupported pragma ${statement.name}`);
+    }
+}
@@ -1,116 +1,403 @@
-import type { FileHandle } from 'fs/promises';
-import { findTable, findIndex } from '../database/schema.js';
-import { readTableCells } from '../database/table.js';
-import { scanIndex } from '../database/index.js';
-import { fetchRowByRowid } from '../database/table.js';
-import { parseCreateTable } from '../parser/schema.js';
+import type { Catalog } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import { countRows } from '../database/table.js';
+import { findColumn } from '../parser/schema.js';
+import type { Expr, ColumnExpr, OrderingTerm, SelectStatement, TableRef, JoinClause } from '../parser/ast.js';
+import { evaluate, exprCollation } from '../query/evaluator.js';
+import type { EvalContext, ResolvedColumn } from '../query/evaluator.js';
+import { planScan, orderScan, conjoin } from '../query/planner.js';
+import type { PlanTable, SortKey } from '../query/planner.js';
+import { joinRows, createJoinContext } from '../query/join.js';
+import type { JoinSource } from '../query/join.js';
+import { aggregateRows, collectAggregateCalls } from '../query/aggregate.js';
+import { Sorter } from '../query/sorter.js';
+import { compareValues, formatValue, valueKey } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import { parseCollation } from '../utils/collation.js';
+import type { Collation } from '../utils/collation.js';
+import type { TextEncoding } from '../utils/encoding.js';
+
+/**
+ * Bytes between the values of a result row, and after the last.
+ */
+const COLUMN_SEPARATOR = new TextEncoder().encode('|');
+const LINE_END = new TextEncoder().encode('\n');
 
 /**
  * Count rows in a table and print the result.
- * @param fileHandler - Open file handle to the SQLite database
- * @param pageSize - Size of database pages in bytes
- * @param tableName - Name of the table to count
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
+ * @param table - The table to count
  */
-export async function handleSelectCount(fileHandler: FileHandle, pageSize: number, tableName: string): Promise<void> {
-    const { rootPage } = await findTable(fileHandler, tableName);
-    const rows = await readTableCells(fileHandler, pageSize, rootPage);
-    
-    console.log(rows.length);
+export async function handleSelectCount(pager: Pager, catalog: Catalog, table: TableRef): Promise<void> {
+    const { rootPage } = catalog.findTable(table.name, table.schema);
+    console.log(await countRows(pager, rootPage));
 }
 
 /**
  * Execute a SELECT query and print matching rows.
- * Supports basic SELECT, FROM, and WHERE clauses. Can utilize indexes for optimized filtering.
- * @param fileHandler - Open file handle to the SQLite database
- * @param pageSize - Size of database pages in bytes
- * @param command - Full SQL SELECT command to execute
- */
-export async function handleSelect(fileHandler: FileHandle, pageSize: number, command: string): Promise<void> {
-    const parts = command.split(/\s+/);
-    const selectIndex = parts.findIndex(p => p.toUpperCase() === "SELECT");
-    const fromIndex = parts.findIndex(p => p.toUpperCase() === "FROM");
-    const whereIndex = parts.findIndex(p => p.toUpperCase() === "WHERE");
-    
-    const columnsStr = parts.slice(selectIndex + 1, fromIndex).join(' ');
-    const columnNames = columnsStr.split(',').map(c => c.trim());
-    const tableName = parts[fromIndex + 1];
-    
-    let whereColumn: string | null = null;
-    let whereValue: string | null = null;
-    if (whereIndex !== -1) {
-        whereColumn = parts[whereIndex + 1];
-        const valueStartIndex = whereIndex + 3;
-        const rawValue = parts.slice(valueStartIndex).join(' ');
-        whereValue = rawValue.replace(/^['"]|['"]$/g, '');
+ * Supports expressions in the select list (or `*`), DISTINCT, FROM with joins, an arbitrary WHERE
+ * expression, aggregates with GROUP BY and HAVING, ORDER BY, LIMIT and OFFSET. Uses an index when
+ * one matches the WHERE clause or a join condition, and skips sorting when the scan already
+ * produces rows in ORDER BY order.
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
+ * @param statement - Parsed SELECT statement to execute
+ */
+export async function handleSelect(pager: Pager, catalog: Catalog, statement: SelectStatement): Promise<void> {
+    if (!statement.from) {
+        throw new Error("SELECT without FROM is not supported");
     }
+    const sources = openSources(catalog, statement.from, statement.joins);
+    const tables = sources.map(source => source.table);
+    const resultColumns = statement.columns.flatMap(column => column.kind === 'star' ? expandStar(column.table, sources) : [column.expr]);
     
-    const { rootPage, sql } = await findTable(fileHandler, tableName, true);
-    const { columns, integerPrimaryKeyColumn } = parseCreateTable(sql!);
-    const columnIndices = columnNames.map(name => {
-        const index = columns.indexOf(name);
-        if (index === -1) {
-            throw new Error(`Column ${name} not found in table ${tableName}`);
+    // Other clauses may name a result column by its alias when no table column has that name
+    const aliases = new Map<string, Expr>();
+    for (const column of statement.columns) {
+        if (column.kind === 'expr' && column.alias !== null && !aliases.has(column.alias.toLowerCase())) {
+            aliases.set(column.alias.toLowerCase(), column.expr);
         }
-        return index;
-    });
+    }
+    const where = statement.where && resolveAliases(statement.where, aliases, tables);
+    const having = statement.having && resolveAliases(statement.having, aliases, tables);
+    
+    if (where && collectAggregateCalls([where]).length > 0) {
+        throw new Error("misuse of aggregate function in WHERE clause");
+    }
+    const emptyRow = createJoinContext(sources, sources.map(() => null), pager.textEncoding);
+    const orderBy = resolveOrderBy(statement.orderBy, aliases, resultColumns, tables, emptyRow);
+    const calls = collectAggregateCalls([...resultColumns, ...(having ? [having] : []), ...orderBy.map(key => key.expr)]);
+    const isAggregate = calls.length > 0 || statement.groupBy.length > 0;
+    if (having && !isAggregate) {
+        throw new Error("HAVING clause on a non-aggregate query");
+    }
     
-    const useRowidForColumn = columnNames.map(name => name === integerPrimaryKeyColumn);
+    let limit = statement.limit ? evaluateLimit(statement.limit, 'LIMIT', pager.textEncoding) : -1;
+    let offset = statement.offset ? evaluateLimit(statement.offset, 'OFFSET', pager.textEncoding) : 0;
     
-    let whereColumnIndex = -1;
-    let whereUsesRowid = false;
-    if (whereColumn) {
-        whereColumnIndex = columns.indexOf(whereColumn);
-        if (whereColumnIndex === -1) {
-            throw new Error(`Column ${whereColumn} not found in table ${tableName}`);
-        }
-        whereUsesRowid = whereColumn === integerPrimaryKeyColumn;
+    // Joins preserve the order of the first table's scan; groups come out in GROUP BY order, so aggregate queries always sort
+    const [first] = sources;
+    const scanPlan = planScan(first.table, first.indexes, where);
+    const orderedPlan = isAggregate ? null : orderScan(scanPlan, first.table, first.indexes, orderBy);
+    let outputs = joinRows(pager, sources, where, orderedPlan ?? scanPlan);
+    if (isAggregate) {
+        const groupBy = resolveGroupBy(statement.groupBy, resultColumns).map(expr => resolveAliases(expr, aliases, tables));
+        outputs = aggregateRows(outputs, { groupBy, having, calls }, emptyRow);
     }
     
-    let rows: Array<{ rowid: number, values: string[] }> = [];
-    let usedIndex = false;
+    // Each row carries its result values followed by its sort keys
+    let rows = evaluateRows(outputs, [...resultColumns, ...(orderedPlan ? [] : orderBy.map(key => key.expr))]);
+    if (statement.distinct) {
+        rows = distinctRows(rows, resultColumns.map(expr => exprCollation(expr, emptyRow) ?? 'BINARY'));
+    }
+    if (!orderedPlan) {
+        rows = sortRows(rows, orderBy, resultColumns.length);
+    }
     
-    if (whereColumn === 'country' && whereValue) {
-        try {
-            const indexName = `idx_${tableName}_${whereColumn}`;
-            const indexRootPage = await findIndex(fileHandler, indexName);
-            
-            // Scan the index for matching rowids
-            const matchingRowids = await scanIndex(fileHandler, pageSize, indexRootPage, whereValue);
-            
-            // Fetch each matching row directly by rowid (much faster than table scan)
-            for (const rowid of matchingRowids) {
-                const row = await fetchRowByRowid(fileHandler, pageSize, rootPage, rowid);
-                if (row) {
-                    rows.push(row);
+    // Unsorted rows are streamed one at a time, so a LIMIT stops the scan as soon as it is reached
+    for await (const values of rows) {
+        if (limit === 0) {
+            break;
+        }
+        if (offset > 0) {
+            offset--;
+            continue;
+        }
+        
+        process.stdout.write(formatRow(values.slice(0, resultColumns.length)));
+        limit--;
+    }
+}
+
+/**
+ * Lay out a result row the way the sqlite3 shell prints it, with the values separated by '|'.
+ * BLOBs go out as raw bytes, so the row is built as bytes rather than as a string.
+ * @param values - Result values of the row
+ * @returns The line to write, including its newline
+ */
+function formatRow(values: SqlValue[]): Uint8Array {
+    const parts = values.flatMap((value, i) => i === 0 ? [formatValue(value)] : [COLUMN_SEPARATOR, formatValue(value)]);
+    return Buffer.concat([...parts, LINE_END]);
+}
+
+/**
+ * Look up the tables of a FROM clause. USING and NATURAL joins become equalities in the
+ * join condition, and the right-hand copies of the shared columns are hidden.
+ * @param catalog - Objects of the database
+ * @param from - First table of the FROM clause
+ * @param joins - Tables joined to it, in order
+ * @returns The join sources in FROM clause order
+ */
+function openSources(catalog: Catalog, from: TableRef, joins: JoinClause[]): JoinSource[] {
+    const sources: JoinSource[] = [];
+    for (const join of [null, ...joins]) {
+        const ref = join?.table ?? from;
+        const { rootPage, schema } = catalog.findTable(ref.name, ref.schema);
+        const table: PlanTable = { ...schema, alias: ref.alias };
+        const source: JoinSource = { table, rootPage, indexes: catalog.findIndexes(schema), kind: join?.kind === 'left' ? 'left' : 'inner', on: join?.on ?? null, hidden: new Set() };
+        
+        if (join) {
+            const isShared = (name: string) => sources.some(earlier => hasVisibleColumn(earlier, name));
+            const using = join.natural ? table.columns.map(column => column.name).filter(isShared) : join.using ?? [];
+            const equalities = using.map((name): Expr => {
+                const left = sources.find(earlier => hasVisibleColumn(earlier, name));
+                if (!left || !hasVisibleColumn(source, name)) {
+                    throw new Error(`cannot join using column ${name} - column not present in both tables`);
                 }
-            }
-            usedIndex = true;
-        } catch (e) {
-            // Index not found, fall back to full table scan
-            rows = await readTableCells(fileHandler, pageSize, rootPage);
+                source.hidden.add(name.toLowerCase());
+                return { kind: 'binary', op: '=', left: qualifiedColumn(left, name), right: qualifiedColumn(source, name) };
+            });
+            source.on = conjoin([...equalities, source.on]);
         }
-    } else {
-        // No index available, do full table scan
-        rows = await readTableCells(fileHandler, pageSize, rootPage);
+        sources.push(source);
+    }
+    return sources;
+}
+
+/**
+ * Expand `*` to every visible column of the joined tables, or `table.*` to every column of one table.
+ * @param qualifier - Table name or alias before the star, or null for a bare star
+ * @param sources - Tables of the FROM clause
+ * @returns References to the columns, qualified by their table
+ */
+function expandStar(qualifier: string | null, sources: JoinSource[]): Expr[] {
+    if (qualifier === null) {
+        return sources.flatMap(source => source.table.columns
+            .filter(column => !source.hidden.has(column.name.toLowerCase()))
+            .map(column => qualifiedColumn(source, column.name)));
+    }
+    const source = sources.find(candidate => (candidate.table.alias ?? candidate.table.name).toLowerCase() === qualifier.toLowerCase());
+    if (!source) {
+        throw new Error(`no such table: ${qualifier}`);
+    }
+    return source.table.columns.map(column => qualifiedColumn(source, column.name));
+}
+
+/**
+ * Check whether a column can be referred to without qualification in a table.
+ * @param source - Joined table
+ * @param name - Column name
+ * @returns True if the table has the column and no USING or NATURAL join hides it
+ */
+function hasVisibleColumn(source: JoinSource, name: string): boolean {
+    const lower = name.toLowerCase();
+    return !source.hidden.has(lower) && findColumn(source.table, name) !== -1;
+}
+
+/**
+ * Build a reference to a column qualified by its table's alias or name.
+ * @param source - Joined table
+ * @param name - Column name
+ * @returns The column reference
+ */
+function qualifiedColumn(source: JoinSource, name: string): ColumnExpr {
+    return { kind: 'column', table: source.table.alias ?? source.table.name, name };
+}
+
+/**
+ * Evaluate expressions for each output row.
+ * @param outputs - Contexts of the rows or groups to output
+ * @param exprs - Expressions to evaluate
+ * @returns The values of the expressions for each row
+ */
+async function* evaluateRows(outputs: AsyncIterable<EvalContext>, exprs: Expr[]): AsyncGenerator<SqlValue[]> {
+    for await (const context of outputs) {
+        yield exprs.map(expr => evaluate(expr, context));
+    }
+}
+
+/**
+ * Drop rows whose result values duplicate an earlier row's, comparing with each column's collation.
+ * @param rows - Rows with their result values first
+ * @param collations - Collation of each result column
+ * @returns The first row of each distinct combination of result values
+ */
+async function* distinctRows(rows: AsyncIterable<SqlValue[]>, collations: Collation[]): AsyncGenerator<SqlValue[]> {
+    const seen = new Set<string>();
+    for await (const values of rows) {
+        const key = JSON.stringify(collations.map((collation, i) => valueKey(values[i], collation)));
+        if (!seen.has(key)) {
+            seen.add(key);
+            yield values;
+        }
+    }
+}
+
+/**
+ * Sort rows by their sort keys, spilling to temporary files when they do not fit in memory.
+ * @param rows - Rows with their sort keys after the result values
+ * @param orderBy - Resolved ORDER BY terms
+ * @param keyOffset - Position of the first sort key in each row
+ * @returns The rows in ORDER BY order; rows with equal keys keep their scan order
+ */
+async function* sortRows(rows: AsyncIterable<SqlValue[]>, orderBy: SortKey[], keyOffset: number): AsyncGenerator<SqlValue[]> {
+    if (orderBy.length === 0) {
+        yield* rows;
+        return;
     }
     
-    // Filter and print the requested columns
-    rows.forEach(row => {
-        // Apply WHERE filter if present and we didn't use index scan
-        if (whereColumn && whereValue && !usedIndex) {
-            const actualValue = whereUsesRowid ? row.rowid.toString() : row.values[whereColumnIndex];
-            if (actualValue !== whereValue) {
-                return;
+    const sorter = new Sorter((a, b) => {
+        for (let i = 0; i < orderBy.length; i++) {
+            const { collation, descending, nullsFirst } = orderBy[i];
+            const left = a[keyOffset + i];
+            const right = b[keyOffset + i];
+            if (left === null || right === null) {
+                if (left !== right) {
+                    return (left === null) === nullsFirst ? -1 : 1;
+                }
+                continue;
             }
+            const cmp = compareValues(left, right, collation);
+            if (cmp !== 0) {
+                return descending ? -cmp : cmp;
+            }
+        }
+        return 0;
+    });
+    try {
+        for await (const values of rows) {
+            await sorter.add(values);
+        }
+        yield* sorter.sorted();
+    } finally {
+        await sorter.close();
+    }
+}
+
+/**
+ * Resolve ORDER BY terms. An integer constant refers to a result column by position and
+ * a bare identifier to a result column alias before a table column; other expressions
+ * may use aliases where no table column has the name.
+ * @param terms - ORDER BY terms as written
+ * @param aliases - Aliased result expressions by lower-cased alias
+ * @param resultColumns - Expressions of the select list
+ * @param tables - The tables being queried
+ * @param context - Context used to look up column collations
+ * @returns The sort keys
+ */
+function resolveOrderBy(terms: OrderingTerm[], aliases: Map<string, Expr>, resultColumns: Expr[], tables: PlanTable[], context: EvalContext): SortKey[] {
+    return terms.map((term, i) => {
+        let expr = term.expr;
+        if (expr.kind === 'literal' && typeof expr.value === 'bigint') {
+            expr = resultColumnAt(Number(expr.value), resultColumns, `${ordinal(i + 1)} ORDER BY term`);
+        } else if (expr.kind === 'column' && expr.table === null && aliases.has(expr.name.toLowerCase())) {
+            expr = aliases.get(expr.name.toLowerCase())!;
+        } else {
+            expr = resolveAliases(expr, aliases, tables);
         }
         
-        const values = columnIndices.map((idx, i) => {
-            // If this column is INTEGER PRIMARY KEY, use rowid instead of values array
-            if (useRowidForColumn[i]) {
-                return row.rowid.toString();
-            }
-            return row.values[idx];
-        });
-        console.log(values.join('|'));
+        const collation = term.collation !== null ? parseCollation(term.collation) : exprCollation(expr, context) ?? 'BINARY';
+        return { expr, collation, descending: term.descending, nullsFirst: term.nulls === null ? !term.descending : term.nulls === 'first' };
     });
 }
+
+/**
+ * Resolve GROUP BY terms, where an integer constant refers to a result column by position.
+ * @param groupBy - GROUP BY terms as written
+ * @param resultColumns - Expressions of the select list
+ * @returns The expressions to group by
+ */
+function resolveGroupBy(groupBy: Expr[], resultColumns: Expr[]): Expr[] {
+    return groupBy.map((expr, i) => {
+        if (collectAggregateCalls([expr]).length > 0) {
+            throw new Error("aggregate functions are not allowed in the GROUP BY clause");
+        }
+        if (expr.kind !== 'literal' || typeof expr.value !== 'bigint') {
+            return expr;
+        }
+        return resultColumnAt(Number(expr.value), resultColumns, `${ordinal(i + 1)} GROUP BY term`);
+    });
+}
+
+/**
+ * Look up a result column by its 1-based position.
+ * @param position - Position written in the query
+ * @param resultColumns - Expressions of the select list
+ * @param term - Description of the referring term, for the error message
+ * @returns The result column's expression
+ */
+function resultColumnAt(position: number, resultColumns: Expr[], term: string): Expr {
+    if (position < 1 || position > resultColumns.length) {
+        throw new Error(`${term} out of range - should be between 1 and ${resultColumns.length}`);
+    }
+    return resultColumns[position - 1];
+}
+
+/**
+ * Format a number as an English ordinal, e.g. 1st or 12th.
+ * @param n - Positive integer
+ * @returns The ordinal
+ */
+function ordinal(n: number): string {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+    return `${n}${suffix}`;
+}
+
+/**
+ * Replace unqualified references to result column aliases with the aliased expressions.
+ * Table columns take precedence over aliases of the same name.
+ * @param expr - Expression to resolve
+ * @param aliases - Aliased result expressions by lower-cased alias
+ * @param tables - The tables being queried
+ * @returns The expression with alias references replaced by the aliased expressions themselves
+ */
+function resolveAliases(expr: Expr, aliases: Map<string, Expr>, tables: PlanTable[]): Expr {
+    const resolve = (child: Expr) => resolveAliases(child, aliases, tables);
+    switch (expr.kind) {
+        case 'literal':
+            return expr;
+        case 'column': {
+            const name = expr.name.toLowerCase();
+            const alias = aliases.get(name);
+            const isTableColumn = tables.some(table => findColumn(table, name) !== -1)
+                || name === 'rowid' || name === 'oid' || name === '_rowid_';
+            return expr.table === null && alias && !isTableColumn ? alias : expr;
+        }
+        case 'unary':
+            return { ...expr, operand: resolve(expr.operand) };
+        case 'binary':
+            return { ...expr, left: resolve(expr.left), right: resolve(expr.right) };
+        case 'function':
+            return { ...expr, args: expr.args.map(resolve) };
+        case 'in':
+            return { ...expr, operand: resolve(expr.operand), list: expr.list.map(resolve) };
+        case 'between':
+            return { ...expr, operand: resolve(expr.operand), low: resolve(expr.low), high: resolve(expr.high) };
+        case 'like':
+            return { ...expr, operand: resolve(expr.operand), pattern: resolve(expr.pattern), escape: expr.escape && resolve(expr.escape) };
+        case 'case':
+            return {
+                ...expr,
+                operand: expr.operand && resolve(expr.operand),
+                branches: expr.branches.map(({ when, then }) => ({ when: resolve(when), then: resolve(then) })),
+                otherwise: expr.otherwise && resolve(expr.otherwise),
+            };
+        case 'cast':
+        case 'collate':
+            return { ...expr, operand: resolve(expr.operand) };
+    }
+}
+
+/**
+ * Evaluate a LIMIT or OFFSET expression.
+ * @param expr - The expression, which must not reference any columns
+ * @param clause - Name of the clause, for error messages
+ * @param textEncoding - Text encoding of the database
+ * @returns The integer value; a negative LIMIT means no limit
+ */
+function evaluateLimit(expr: Expr, clause: string, textEncoding: TextEncoding): number {
+    const value = evaluate(expr, {
+        resolveColumn(ref: ColumnExpr): ResolvedColumn {
+            throw new Error(`Column ${ref.name} is not allowed in ${clause}`);
+        },
+        textEncoding,
+    });
+    if (typeof value === 'bigint') {
+        return Number(value);
+    }
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return value;
+    }
+    throw new Error(`datatype mismatch: ${clause} must be an integer`);
+}
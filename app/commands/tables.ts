@@ -1,21 +1,35 @@
-import type { FileHandle } from 'fs/promises';
-import { parseRecord } from '../parser/record.js';
-import { readPageHeader, readCellPointers, readCell } from '../database/page.js';
+import type { Catalog } from '../database/schema.js';
 
 /**
- * Print all table names in the database.
- * @param fileHandler - Open file handle to the SQLite database
+ * Width of the output the names are laid out in, as in the sqlite3 shell.
  */
-export async function handleTables(fileHandler: FileHandle): Promise<void> {
-    const cellCount = await readPageHeader(fileHandler, 0, true);
-    const cellPointers = await readCellPointers(fileHandler, 0, true, cellCount);
-    
-    const tableNames: string[] = [];
-    for (const cellOffset of cellPointers) {
-        const cellBuffer = await readCell(fileHandler, 0, cellOffset);
-        const { values } = parseRecord(cellBuffer);
-        tableNames.push(values[2]); // tbl_name is column 2
+const LINE_WIDTH = 80;
+
+/**
+ * Print the names of the tables and views in the database the way the sqlite3 shell does:
+ * sorted, without SQLite's internal tables, in columns that are filled top to bottom.
+ * @param catalog - Objects of the database
+ */
+export function handleTables(catalog: Catalog): void {
+    // The shell filters with NOT LIKE 'sqlite_%', so the underscore matches any character
+    const names = [...catalog.list('table'), ...catalog.list('view')]
+        .map(entry => entry.name)
+        .filter(name => !/^sqlite./i.test(name))
+        .sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+    if (names.length === 0) {
+        return;
     }
     
-    console.log(tableNames.join(' '));
+    // Names are padded to a width in bytes, like the shell's printf
+    const byteLength = (name: string) => new TextEncoder().encode(name).length;
+    const width = Math.max(...names.map(byteLength));
+    const columnCount = Math.max(1, Math.floor(LINE_WIDTH / (width + 2)));
+    const rowCount = Math.ceil(names.length / columnCount);
+    for (let row = 0; row < rowCount; row++) {
+        const line: string[] = [];
+        for (let i = row; i < names.length; i += rowCount) {
+            line.push(names[i] + ' '.repeat(width - byteLength(names[i])));
+        }
+        console.log(line.join('  '));
+    }
 }
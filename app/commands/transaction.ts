@@ -0,0 +1,29 @@
+import type { Pager } from '../database/pager.js';
+import type { TransactionStatement } from '../parser/ast.js';
+
+/**
+ * Execute a BEGIN, COMMIT or ROLLBACK statement. Outside a transaction every statement is
+ * committed as soon as it has run; BEGIN holds the changes of the statements after it in the
+ * pager until COMMIT writes them to the file together or ROLLBACK discards them.
+ * @param pager - Pager for the SQLite database
+ * @param statement - Parsed transaction statement
+ * @param inTransaction - Whether a transaction is open
+ * @returns Whether a transaction is open afterwards
+ */
+export async function handleTransaction(pager: Pager, statement: TransactionStatement, inTransaction: boolean): Promise<boolean> {
+    if (statement.action === 'begin') {
+        if (inTransaction) {
+            throw new Error("cannot start a transaction within a transaction");
+        }
+        return true;
+    }
+    if (!inTransaction) {
+        throw new Error(`cannot ${statement.action} - no transaction is active`);
+    }
+    if (statement.action === 'commit') {
+        await pager.commit();
+    } else {
+        pager.rollback();
+    }
+    return false;
+}
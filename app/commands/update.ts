@@ -0,0 +1,69 @@
+import type { Catalog } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import type { UpdateStatement } from '../parser/ast.js';
+import { findColumn } from '../parser/schema.js';
+import { evaluate } from '../query/evaluator.js';
+import { createJoinContext } from '../query/join.js';
+import { applyAffinity } from '../utils/affinity.js';
+import { openWriteTarget, checkTriggers, isRowidName, findRows, buildRow, checkRow, checkRowid, storeRow, removeRow } from './write.js';
+
+/**
+ * Position of an assignment that sets the rowid rather than a declared column.
+ */
+const ROWID_TARGET = -1;
+
+/**
+ * Execute an UPDATE statement: give the rows its WHERE clause holds for their new values, keep
+ * every index on the table in step, and print how many rows were updated. The changes stay in
+ * the pager until the caller commits them. The new values are computed from each row as it was,
+ * and each changed row is checked against the table's constraints as if it were inserted, after
+ * its old version is removed; if any row fails, the statement fails and nothing of it is committed.
+ * @param pager - Pager for the SQLite database, opened for writing
+ * @param catalog - Objects of the database
+ * @param statement - Parsed UPDATE statement
+ */
+export async function handleUpdate(pager: Pager, catalog: Catalog, statement: UpdateStatement): Promise<void> {
+    const target = openWriteTarget(catalog, statement.table);
+    checkTriggers(catalog, target);
+    const { schema } = target.table;
+    const ipk = schema.integerPrimaryKeyColumn !== null ? findColumn(schema, schema.integerPrimaryKeyColumn) : -1;
+    const assignments = statement.assignments.map(({ column, value }) => {
+        const index = findColumn(schema, column);
+        if (index !== -1 && schema.columns[index].generated) {
+            throw new Error(`cannot UPDATE generated column "${schema.columns[index].name}"`);
+        }
+        if (index === -1 && !isRowidName(schema, column)) {
+            throw new Error(`no such column: ${column}`);
+        }
+        return { index: index === ipk ? ROWID_TARGET : index, value };
+    });
+    
+    const rows = await findRows(pager, target, statement.where);
+    for (const old of rows) {
+        const context = createJoinContext([target.source], [old], pager.textEncoding);
+        const values = schema.columns.map(column => evaluate({ kind: 'column', table: null, name: column.name }, context));
+        let rowid = old.rowid;
+        for (const { index, value } of assignments) {
+            const result = evaluate(value, context);
+            if (index !== ROWID_TARGET) {
+                values[index] = applyAffinity(result, schema.columns[index].affinity);
+                continue;
+            }
+            // Unlike INSERT, UPDATE cannot leave the rowid for SQLite to choose
+            const newRowid = applyAffinity(result, 'INTEGER');
+            if (typeof newRowid !== 'bigint') {
+                throw new Error("datatype mismatch");
+            }
+            rowid = newRowid;
+        }
+        
+        await removeRow(pager, target, old);
+        if (rowid !== old.rowid) {
+            await checkRowid(pager, target, rowid);
+        }
+        const { row, context: newContext } = buildRow(pager, target, values, rowid);
+        const entries = await checkRow(pager, target, row, newContext);
+        await storeRow(pager, target, row, entries);
+    }
+    console.log(rows.length);
+}
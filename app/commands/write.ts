@@ -0,0 +1,312 @@
+import type { Catalog, IndexKey, SchemaEntry, TableInfo } from '../database/schema.js';
+import type { Pager } from '../database/pager.js';
+import { insertTableRow, insertIndexEntry, deleteTableRow, deleteIndexEntry } from '../database/btree.js';
+import { IndexCursor, WithoutRowidTable, compareIndexKey } from '../database/index.js';
+import { TableCursor, fetchRowByRowid } from '../database/table.js';
+import type { Expr, TableRef } from '../parser/ast.js';
+import { encodeRecord } from '../parser/record.js';
+import type { Row } from '../parser/record.js';
+import { findColumn } from '../parser/schema.js';
+import type { TableSchema } from '../parser/schema.js';
+import { evaluate, isTrue } from '../query/evaluator.js';
+import type { EvalContext } from '../query/evaluator.js';
+import { planScan } from '../query/planner.js';
+import { createJoinContext, scanRows } from '../query/join.js';
+import type { JoinSource } from '../query/join.js';
+import { applyAffinity } from '../utils/affinity.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+
+/**
+ * A table that a statement changes, with the indexes that change along with it.
+ */
+export interface WriteTarget {
+    table: TableInfo;
+    /** The indexes on the table, other than the primary key of a WITHOUT ROWID table, which is the table itself */
+    keys: IndexKey[];
+    /** The table as the statement's expressions see it */
+    source: JoinSource;
+}
+
+/**
+ * The entry a row has in one of the indexes on its table.
+ */
+type IndexEntry = [IndexKey, SqlValue[]];
+
+/**
+ * Look up the table an INSERT, UPDATE or DELETE statement changes.
+ * @param catalog - Objects of the database
+ * @param ref - The table as the statement names it
+ * @returns The table and its indexes
+ */
+export function openWriteTarget(catalog: Catalog, ref: TableRef): WriteTarget {
+    const table = catalog.findTable(ref.name, ref.schema);
+    const { schema, rootPage } = table;
+    if (rootPage === 1) {
+        throw new Error(`table ${table.name} may not be modified`);
+    }
+    const indexes = catalog.findIndexes(schema);
+    return {
+        table,
+        keys: indexes.filter(index => index.rootPage !== rootPage).map(index => catalog.indexKey(schema, index)),
+        source: { table: { ...schema, alias: ref.alias }, rootPage, indexes, kind: 'inner', on: null, hidden: new Set() },
+    };
+}
+
+/**
+ * Refuse to change a table that has triggers, which this tool cannot run.
+ * @param catalog - Objects of the database
+ * @param target - The table
+ */
+export function checkTriggers(catalog: Catalog, target: WriteTarget): void {
+    const name = target.table.name.toLowerCase();
+    if (catalog.list('trigger').some(trigger => trigger.tableName.toLowerCase() === name)) {
+        throw new Error("cannot modify table with triggers");
+    }
+}
+
+/**
+ * Find the rows of a table that a WHERE clause holds for, planning the scan as SELECT does.
+ * They are all read before any is changed, so that changes cannot disturb the scan.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param where - Parsed WHERE expression, or null for every row
+ * @returns The matching rows
+ */
+export async function findRows(pager: Pager, target: WriteTarget, where: Expr | null): Promise<Row[]> {
+    const { table, rootPage, indexes } = target.source;
+    const rows: Row[] = [];
+    for await (const row of scanRows(pager, table, rootPage, planScan(table, indexes, where))) {
+        if (!where || isTrue(evaluate(where, createJoinContext([target.source], [row], pager.textEncoding)))) {
+            rows.push(row);
+        }
+    }
+    return rows;
+}
+
+/**
+ * Check whether a name refers to the rowid of a table rather than to one of its columns.
+ * @param schema - Schema of the table
+ * @param name - The name
+ * @returns True for rowid, oid and _rowid_ on a table that has a rowid and no column of that name
+ */
+export function isRowidName(schema: TableSchema, name: string): boolean {
+    return !schema.withoutRowid && findColumn(schema, name) === -1 && ['rowid', 'oid', '_rowid_'].includes(name.toLowerCase());
+}
+
+/**
+ * Assemble a row from the values of its columns, computing the STORED generated columns in
+ * declared order. The column that aliases the rowid is stored as NULL, and VIRTUAL columns not at all.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param values - Value of each declared column; those of generated columns and of the rowid alias are ignored
+ * @param rowid - Rowid of the row, 0 for a WITHOUT ROWID table
+ * @returns The row as it is stored, and a context for evaluating expressions against it
+ */
+export function buildRow(pager: Pager, target: WriteTarget, values: SqlValue[], rowid: bigint): { row: Row, context: EvalContext } {
+    const { schema } = target.table;
+    const row: Row = { rowid, values: [] };
+    const context = createJoinContext([target.source], [row], pager.textEncoding);
+    const stored = schema.columns.flatMap((column, i) => !column.generated || column.generated.stored ? [i] : []);
+    row.values = stored.map(i => schema.columns[i].generated || schema.columns[i].name === schema.integerPrimaryKeyColumn ? null : values[i]);
+    stored.forEach((columnIndex, i) => {
+        const { generated, affinity } = schema.columns[columnIndex];
+        if (generated) {
+            row.values[i] = applyAffinity(evaluate(generated.expr, context), affinity);
+        }
+    });
+    return { row, context };
+}
+
+/**
+ * Check that a rowid is free for a new or moved row.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param rowid - The rowid
+ */
+export async function checkRowid(pager: Pager, target: WriteTarget, rowid: bigint): Promise<void> {
+    const { schema, rootPage } = target.table;
+    if (await fetchRowByRowid(pager, rootPage, rowid)) {
+        throw new Error(`UNIQUE constraint failed: ${schema.name}.${schema.integerPrimaryKeyColumn ?? 'rowid'}`);
+    }
+}
+
+/**
+ * Check a row about to be stored against the NOT NULL, CHECK, PRIMARY KEY and UNIQUE constraints
+ * of its table, in the order SQLite checks them.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param row - The row, as built by buildRow
+ * @param context - Context for evaluating expressions against the row
+ * @returns The entries the row needs in the table's indexes
+ */
+export async function checkRow(pager: Pager, target: WriteTarget, row: Row, context: EvalContext): Promise<IndexEntry[]> {
+    const { schema, rootPage } = target.table;
+    const valueOf = (name: string) => evaluate({ kind: 'column', table: null, name }, context);
+    
+    for (const column of schema.columns) {
+        if (column.name !== schema.integerPrimaryKeyColumn && (column.notNull || (schema.withoutRowid && column.primaryKey)) && valueOf(column.name) === null) {
+            throw new Error(`NOT NULL constraint failed: ${schema.name}.${column.name}`);
+        }
+    }
+    // A CHECK constraint only fails when false; NULL satisfies it
+    if (schema.checks.some(check => { const value = evaluate(check, context); return value !== null && !isTrue(value); })) {
+        throw new Error(`CHECK constraint failed: ${schema.name}`);
+    }
+    
+    if (schema.withoutRowid && await new WithoutRowidTable(pager, rootPage, schema).fetch(schema.primaryKey.map(column => valueOf(column.name)))) {
+        throw new Error(`UNIQUE constraint failed: ${schema.primaryKey.map(column => `${schema.name}.${column.name}`).join(', ')}`);
+    }
+    const entries = indexEntries(target, row, context);
+    for (const [key, entry] of entries) {
+        if (key.index.unique) {
+            await checkUnique(pager, schema, key, entry);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Store a checked row in its table and its index entries in the indexes.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param row - The row, as built by buildRow
+ * @param entries - Its index entries, as checkRow returns them
+ */
+export async function storeRow(pager: Pager, target: WriteTarget, row: Row, entries: IndexEntry[]): Promise<void> {
+    const { schema, rootPage } = target.table;
+    if (schema.withoutRowid) {
+        await insertIndexEntry(pager, rootPage, withoutRowidEntry(schema, row), schema.primaryKey);
+    } else {
+        await insertTableRow(pager, rootPage, row.rowid, encodeRecord(row.values, pager.textEncoding));
+    }
+    for (const [key, entry] of entries) {
+        await insertIndexEntry(pager, key.index.rootPage, entry, key.keyColumns);
+    }
+}
+
+/**
+ * Delete a row from its table and its entries from the indexes.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param row - The row as read from the table
+ */
+export async function removeRow(pager: Pager, target: WriteTarget, row: Row): Promise<void> {
+    const { schema, rootPage } = target.table;
+    const context = createJoinContext([target.source], [row], pager.textEncoding);
+    for (const [key, entry] of indexEntries(target, row, context)) {
+        if (!await deleteIndexEntry(pager, key.index.rootPage, entry, key.keyColumns)) {
+            throw new Error(`Index ${key.index.name} has no entry for a row of ${schema.name}`);
+        }
+    }
+    const deleted = schema.withoutRowid
+        ? await deleteIndexEntry(pager, rootPage, withoutRowidEntry(schema, row).slice(0, schema.primaryKey.length), schema.primaryKey)
+        : await deleteTableRow(pager, rootPage, row.rowid);
+    if (!deleted) {
+        throw new Error(`Row is missing from table ${schema.name}`);
+    }
+}
+
+/**
+ * Add the entry a row needs to one of the indexes on its table, checking it against the index's
+ * UNIQUE constraint, as when an index is built for the rows already in the table.
+ * @param pager - Pager for the SQLite database
+ * @param target - The table
+ * @param key - The index
+ * @param row - The row as read from the table
+ */
+export async function indexRow(pager: Pager, target: WriteTarget, key: IndexKey, row: Row): Promise<void> {
+    const context = createJoinContext([target.source], [row], pager.textEncoding);
+    for (const [, entry] of indexEntries({ ...target, keys: [key] }, row, context)) {
+        if (key.index.unique) {
+            await checkUnique(pager, target.table.schema, key, entry);
+        }
+        await insertIndexEntry(pager, key.index.rootPage, entry, key.keyColumns);
+    }
+}
+
+/**
+ * Add a row to sqlite_schema after the last one.
+ * @param pager - Pager for the SQLite database
+ * @param entry - The object the row describes
+ */
+export async function addSchemaEntry(pager: Pager, entry: SchemaEntry): Promise<void> {
+    const cursor = new TableCursor(pager, 1);
+    const rowid = (await cursor.last() ? cursor.rowid : 0n) + 1n;
+    const record = encodeRecord([entry.type, entry.name, entry.tableName, BigInt(entry.rootPage), entry.sql], pager.textEncoding);
+    await insertTableRow(pager, 1, rowid, record);
+    pager.markSchemaChanged();
+}
+
+/**
+ * Delete the rows of sqlite_schema for some objects.
+ * @param pager - Pager for the SQLite database
+ * @param entries - The objects, as the catalog lists them
+ */
+export async function removeSchemaEntries(pager: Pager, entries: SchemaEntry[]): Promise<void> {
+    const rowids: bigint[] = [];
+    for await (const { rowid, values } of new TableCursor(pager, 1)) {
+        if (entries.some(entry => values[0] === entry.type && values[1] === entry.name)) {
+            rowids.push(rowid);
+        }
+    }
+    for (const rowid of rowids) {
+        await deleteTableRow(pager, 1, rowid);
+    }
+    pager.markSchemaChanged();
+}
+
+/**
+ * Work out the entries a row has in the indexes on its table. A partial index only has entries
+ * for the rows its WHERE clause holds for.
+ * @param target - The table
+ * @param row - The row
+ * @param context - Context for evaluating expressions against the row
+ * @returns The index entries, each ending with the rowid or the primary key columns the index lacks
+ */
+function indexEntries(target: WriteTarget, row: Row, context: EvalContext): IndexEntry[] {
+    const { schema } = target.table;
+    const valueOf = (name: string) => evaluate({ kind: 'column', table: null, name }, context);
+    return target.keys
+        .filter(key => !key.where || isTrue(evaluate(key.where, context)))
+        .map(key => [key, [
+            ...key.exprs.map(expr => evaluate(expr, context)),
+            ...(schema.withoutRowid ? key.suffix.map(column => valueOf(column.name)) : [row.rowid]),
+        ]]);
+}
+
+/**
+ * Lay out a row of a WITHOUT ROWID table as an entry of its B-tree: the primary key columns
+ * in key order, then the other stored columns in declared order.
+ * @param schema - Schema of the table
+ * @param row - The row, with its values in declared order
+ * @returns The entry's values
+ */
+function withoutRowidEntry(schema: TableSchema, row: Row): SqlValue[] {
+    const stored = schema.columns.filter(column => !column.generated || column.generated.stored);
+    const keyNames = schema.primaryKey.map(column => column.name.toLowerCase());
+    const keyValues = keyNames.map(name => row.values[stored.findIndex(column => column.name.toLowerCase() === name)]);
+    return [...keyValues, ...row.values.filter((_, i) => !keyNames.includes(stored[i].name.toLowerCase()))];
+}
+
+/**
+ * Check that no other row of the table has the same values in the columns of a UNIQUE index.
+ * Entries with a NULL column never conflict.
+ * @param pager - Pager for the SQLite database
+ * @param schema - Schema of the table
+ * @param key - The index
+ * @param entry - The entry the new row needs
+ */
+async function checkUnique(pager: Pager, schema: TableSchema, key: IndexKey, entry: SqlValue[]): Promise<void> {
+    const { index, keyColumns } = key;
+    const indexed = entry.slice(0, index.columns.length);
+    if (indexed.includes(null)) {
+        return;
+    }
+    const cursor = new IndexCursor(pager, index.rootPage, keyColumns);
+    if (await cursor.seek(indexed) && compareIndexKey(await cursor.record(), indexed, keyColumns, pager.textEncoding) === 0) {
+        const conflict = index.columns.some(column => column.name === null)
+            ? `index '${index.name}'`
+            : index.columns.map(column => `${schema.name}.${column.name}`).join(', ');
+        throw new Error(`UNIQUE constraint failed: ${conflict}`);
+    }
+}
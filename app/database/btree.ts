@@ -0,0 +1,717 @@
+import { encodeRecord, parseRecord } from '../parser/record.js';
+import { encodeVarint, readVarint, readVarintBigInt } from '../utils/varint.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import { getCell, getChildPage, getLocalPayloadSize, readLocalPayload, readTableInteriorCell } from './page.js';
+import type { BTreePage } from './page.js';
+import { compareIndexKey } from './index.js';
+import type { KeyColumn } from './index.js';
+import { lowerBound } from './table.js';
+import type { Pager } from './pager.js';
+
+/**
+ * The cells of a B-tree page, as read from the page or about to be written to it.
+ */
+interface PageContent {
+    pageNumber: number;
+    /** Page type (0x0d = table leaf, 0x05 = table interior, 0x0a = index leaf, 0x02 = index interior) */
+    type: number;
+    /** Bytes of each cell, in key order */
+    cells: Uint8Array[];
+    /** Right-most child of an interior page, 0 on a leaf */
+    rightChild: number;
+}
+
+/**
+ * One interior page on the path from the root to a leaf, with the child the path takes;
+ * cellCount means the right-most child.
+ */
+interface PathStep {
+    pageNumber: number;
+    index: number;
+}
+
+/**
+ * Insert a row into a table B-tree, splitting the pages that overflow.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the table B-tree
+ * @param rowid - Rowid of the row
+ * @param record - Encoded record of the row
+ * @param replace - Replace a row that already has the rowid instead of failing
+ */
+export async function insertTableRow(pager: Pager, rootPage: number, rowid: bigint, record: Uint8Array, replace: boolean = false): Promise<void> {
+    const { path, leaf, index, found, rightEdge } = await findTableCell(pager, rootPage, rowid);
+    const content = readContent(leaf, pager.usableSize);
+    const cell = await buildCell(pager, 0x0d, record, rowid);
+    if (found) {
+        if (!replace) {
+            throw new Error(`Rowid ${rowid} is already in the B-tree at page ${rootPage}`);
+        }
+        await freeOverflowChain(pager, leaf, index);
+        content.cells[index] = cell;
+    } else {
+        content.cells.splice(index, 0, cell);
+    }
+    await storeContent(pager, path, content, rightEdge && index === leaf.cellCount);
+}
+
+/**
+ * Delete a row from a table B-tree, freeing its overflow pages and merging pages left underfull.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the table B-tree
+ * @param rowid - Rowid of the row
+ * @returns False if the table has no row with the rowid
+ */
+export async function deleteTableRow(pager: Pager, rootPage: number, rowid: bigint): Promise<boolean> {
+    const { path, leaf, index, found } = await findTableCell(pager, rootPage, rowid);
+    if (!found) {
+        return false;
+    }
+    await freeOverflowChain(pager, leaf, index);
+    const content = readContent(leaf, pager.usableSize);
+    content.cells.splice(index, 1);
+    await storeShrunkContent(pager, path, content);
+    return true;
+}
+
+/**
+ * Insert an entry into an index B-tree, splitting the pages that overflow.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the index B-tree
+ * @param entry - Values of the entry, with the rowid or primary key last
+ * @param keyColumns - Ordering of the leading columns of the entry; others compare in ascending BINARY order
+ */
+export async function insertIndexEntry(pager: Pager, rootPage: number, entry: SqlValue[], keyColumns: KeyColumn[]): Promise<void> {
+    const { path, page, index, found } = await findIndexCell(pager, rootPage, entry, keyColumns, true);
+    if (found) {
+        throw new Error(`The entry is already in the index B-tree at page ${rootPage}`);
+    }
+    const content = readContent(page, pager.usableSize);
+    content.cells.splice(index, 0, await buildCell(pager, 0x0a, encodeRecord(entry, pager.textEncoding)));
+    await storeContent(pager, path, content, false);
+}
+
+/**
+ * Delete an entry from an index B-tree, freeing its overflow pages and merging pages left underfull.
+ * An entry on an interior page is replaced by the entry before it, which moves up from its leaf.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the index B-tree
+ * @param key - Values of the entry, or enough of its leading columns to tell it from every other entry
+ * @param keyColumns - Ordering of the leading columns of the entry; others compare in ascending BINARY order
+ * @returns False if the index has no such entry
+ */
+export async function deleteIndexEntry(pager: Pager, rootPage: number, key: SqlValue[], keyColumns: KeyColumn[]): Promise<boolean> {
+    const { path, page, index, found } = await findIndexCell(pager, rootPage, key, keyColumns, true);
+    if (!found) {
+        return false;
+    }
+    await freeOverflowChain(pager, page, index);
+    const content = readContent(page, pager.usableSize);
+    if (page.type === 0x0a) {
+        content.cells.splice(index, 1);
+        await storeShrunkContent(pager, path, content);
+        return true;
+    }
+    
+    // The largest entry of the left subtree is the last cell of its right-most leaf
+    let leaf = await pager.getBTreePage(getChildPage(page, index));
+    while (leaf.type === 0x02) {
+        leaf = await pager.getBTreePage(getChildPage(leaf, leaf.cellCount));
+    }
+    const predecessor = readContent(leaf, pager.usableSize).cells[leaf.cellCount - 1];
+    const predecessorEntry = await readEntry(pager, leaf, leaf.cellCount - 1);
+    content.cells[index] = indexInteriorCell(leftChildOf(content.cells[index]), predecessor, pager.usableSize);
+    await storeContent(pager, path, content, false);
+    
+    // Storing the interior page may have split it, so the leaf is looked up again; the copy that
+    // moved up now compares equal to the one left behind, which is reached through its left child
+    const below = await findIndexCell(pager, rootPage, predecessorEntry, keyColumns, false);
+    const leafContent = readContent(below.page, pager.usableSize);
+    leafContent.cells.splice(below.index, 1);
+    await storeShrunkContent(pager, below.path, leafContent);
+    return true;
+}
+
+/**
+ * Remove every row or entry of a B-tree, freeing all of its pages but the root, which becomes an empty leaf.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the B-tree
+ * @returns Number of rows or entries removed
+ */
+export async function clearBTree(pager: Pager, rootPage: number): Promise<number> {
+    const root = await pager.getBTreePage(rootPage);
+    const count = await freeSubtree(pager, root);
+    const isTable = root.type === 0x0d || root.type === 0x05;
+    await writeContent(pager, { pageNumber: rootPage, type: isTable ? 0x0d : 0x0a, cells: [], rightChild: 0 });
+    return count;
+}
+
+/**
+ * Create an empty B-tree, whose root is a new leaf page.
+ * @param pager - Pager for the database file
+ * @param isTable - Whether the tree is a table B-tree keyed by rowid rather than an index B-tree
+ * @returns Root page number of the B-tree
+ */
+export async function createBTree(pager: Pager, isTable: boolean): Promise<number> {
+    const rootPage = await pager.allocatePage();
+    await writeContent(pager, { pageNumber: rootPage, type: isTable ? 0x0d : 0x0a, cells: [], rightChild: 0 });
+    return rootPage;
+}
+
+/**
+ * Free every page of a B-tree, the root included.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the B-tree
+ */
+export async function dropBTree(pager: Pager, rootPage: number): Promise<void> {
+    await freeSubtree(pager, await pager.getBTreePage(rootPage));
+    await pager.freePage(rootPage);
+}
+
+/**
+ * Free the pages below a B-tree page and the overflow pages of its cells.
+ * @param pager - Pager for the database file
+ * @param page - The page, which itself is not freed
+ * @returns Number of rows or entries in the subtree
+ */
+async function freeSubtree(pager: Pager, page: BTreePage): Promise<number> {
+    let count = page.type === 0x05 ? 0 : page.cellCount;
+    for (let i = 0; i < page.cellCount; i++) {
+        if (page.type !== 0x05) {
+            await freeOverflowChain(pager, page, i);
+        }
+    }
+    if (page.type === 0x05 || page.type === 0x02) {
+        for (let i = 0; i <= page.cellCount; i++) {
+            const child = await pager.getBTreePage(getChildPage(page, i));
+            count += await freeSubtree(pager, child);
+            await pager.freePage(child.pageNumber);
+        }
+    }
+    return count;
+}
+
+/**
+ * Find where a rowid is or belongs in a table B-tree.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the table B-tree
+ * @param rowid - The rowid
+ * @returns The path to the leaf, the leaf, the cell index of the rowid or of the first larger one, whether
+ *   the rowid is there, and whether the leaf is the last of the tree
+ */
+async function findTableCell(pager: Pager, rootPage: number, rowid: bigint): Promise<{ path: PathStep[], leaf: BTreePage, index: number, found: boolean, rightEdge: boolean }> {
+    const path: PathStep[] = [];
+    // Rows are mostly appended, and a row after all the others gets a page of its own when the last leaf is full
+    let rightEdge = true;
+    let page = await pager.getBTreePage(rootPage);
+    while (page.type === 0x05) {
+        // Each interior key is the largest rowid in its left child
+        const current = page;
+        const index = lowerBound(current.cellCount, i => readTableInteriorCell(current, i).rowid, rowid);
+        path.push({ pageNumber: current.pageNumber, index });
+        rightEdge = rightEdge && index === current.cellCount;
+        page = await pager.getBTreePage(getChildPage(current, index));
+    }
+    if (page.type !== 0x0d) {
+        throw new Error(`Page ${page.pageNumber} is not a table B-tree page (type ${page.type})`);
+    }
+    
+    const leaf = page;
+    const index = lowerBound(leaf.cellCount, i => readLocalPayload(leaf, i, pager.usableSize).rowid!, rowid);
+    const found = index < leaf.cellCount && readLocalPayload(leaf, index, pager.usableSize).rowid === rowid;
+    return { path, leaf, index, found, rightEdge };
+}
+
+/**
+ * Find where an entry is or belongs in an index B-tree.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the index B-tree
+ * @param key - Values of the entry, or of its leading columns
+ * @param keyColumns - Ordering of the leading columns of the entry
+ * @param stopOnInterior - Stop at an interior cell equal to the key instead of carrying on into its left child
+ * @returns The path to the page, the page, the cell index of the entry or of the first larger one, and whether the entry is there
+ */
+async function findIndexCell(pager: Pager, rootPage: number, key: SqlValue[], keyColumns: KeyColumn[], stopOnInterior: boolean): Promise<{ path: PathStep[], page: BTreePage, index: number, found: boolean }> {
+    const path: PathStep[] = [];
+    let page = await pager.getBTreePage(rootPage);
+    for (;;) {
+        if (page.type !== 0x0a && page.type !== 0x02) {
+            throw new Error(`Page ${page.pageNumber} is not an index B-tree page (type ${page.type})`);
+        }
+        const index = await entryLowerBound(pager, page, key, keyColumns);
+        const found = index < page.cellCount && compareIndexKey(await readEntry(pager, page, index), key, keyColumns, pager.textEncoding) === 0;
+        if (page.type === 0x0a || (found && stopOnInterior)) {
+            return { path, page, index, found };
+        }
+        path.push({ pageNumber: page.pageNumber, index });
+        page = await pager.getBTreePage(getChildPage(page, index));
+    }
+}
+
+/**
+ * Write a page whose cells have changed, splitting it if they no longer fit and passing the
+ * dividers between the pieces up to its parent, which may split in turn. A root that overflows
+ * keeps its page number: its cells move to a new child, which splits like any other page.
+ * @param pager - Pager for the database file
+ * @param path - Interior pages above the page, from the root
+ * @param content - New cells of the page
+ * @param appending - The cells end with a new one that sorts after everything else in the tree
+ */
+async function storeContent(pager: Pager, path: PathStep[], content: PageContent, appending: boolean): Promise<void> {
+    let level = path.length;
+    while (!fits(content, pager.usableSize)) {
+        let parent: PageContent;
+        let slot: number;
+        if (level === 0) {
+            const child = await pager.allocatePage();
+            const isTable = content.type === 0x0d || content.type === 0x05;
+            parent = { pageNumber: content.pageNumber, type: isTable ? 0x05 : 0x02, cells: [], rightChild: child };
+            content = { ...content, pageNumber: child };
+            slot = 0;
+        } else {
+            level--;
+            parent = readContent(await pager.getBTreePage(path[level].pageNumber), pager.usableSize);
+            slot = path[level].index;
+        }
+        await splitPage(pager, content, parent, slot, appending);
+        content = parent;
+        appending = false;
+    }
+    await writeContent(pager, content);
+}
+
+/**
+ * Write a page that has lost cells. A page left less than a third full is merged with a neighbour,
+ * or the cells of both are shared out again if they do not fit on one page; either way the parent
+ * changes, and may be left underfull in turn. A root with no cells left takes over the cells of
+ * its only child, if they fit.
+ * @param pager - Pager for the database file
+ * @param path - Interior pages above the page, from the root
+ * @param content - New cells of the page
+ */
+async function storeShrunkContent(pager: Pager, path: PathStep[], content: PageContent): Promise<void> {
+    let level = path.length;
+    while (level > 0 && isUnderfull(content, pager.usableSize)) {
+        const parent = readContent(await pager.getBTreePage(path[level - 1].pageNumber), pager.usableSize);
+        // Only a root that could not take over the cells of its only child has no cells of its own
+        if (parent.cells.length === 0) {
+            break;
+        }
+        level--;
+        const slot = path[level].index;
+        // Merge with the right neighbour, or with the left one for the right-most child
+        const leftSlot = slot < parent.cells.length ? slot : slot - 1;
+        const sibling = readContent(await pager.getBTreePage(childOf(parent, leftSlot === slot ? slot + 1 : leftSlot)), pager.usableSize);
+        const [left, right] = leftSlot === slot ? [content, sibling] : [sibling, content];
+        const middle = mergedDivider(parent.cells[leftSlot], left, pager.usableSize);
+        const merged: PageContent = { pageNumber: left.pageNumber, type: left.type, cells: [...left.cells, ...middle, ...right.cells], rightChild: right.rightChild };
+        
+        // The parent's pointer to the right page now leads to the merged one
+        parent.cells.splice(leftSlot, 1);
+        if (leftSlot < parent.cells.length) {
+            parent.cells[leftSlot] = withLeftChild(parent.cells[leftSlot], left.pageNumber);
+        } else {
+            parent.rightChild = left.pageNumber;
+        }
+        await pager.freePage(right.pageNumber);
+        if (fits(merged, pager.usableSize)) {
+            await writeContent(pager, merged);
+        } else {
+            await splitPage(pager, merged, parent, leftSlot, false);
+        }
+        // New dividers can be longer than the one they replace
+        if (!fits(parent, pager.usableSize)) {
+            await storeContent(pager, path.slice(0, level), parent, false);
+            return;
+        }
+        content = parent;
+    }
+    
+    if (level === 0 && content.cells.length === 0 && content.rightChild !== 0) {
+        const child = readContent(await pager.getBTreePage(content.rightChild), pager.usableSize);
+        const promoted = { ...child, pageNumber: content.pageNumber };
+        if (fits(promoted, pager.usableSize)) {
+            await pager.freePage(child.pageNumber);
+            content = promoted;
+        }
+    }
+    await writeContent(pager, content);
+}
+
+/**
+ * Turn the divider between two pages into the cells that go between theirs when they merge.
+ * Table leaves hold every row already, so their divider disappears; an index leaf gets the
+ * divider's entry back; an interior page gets a cell pointing to the left page's right-most child.
+ * @param divider - The parent's cell for the left page
+ * @param left - Cells of the left page
+ * @param usableSize - Usable size of a page
+ * @returns The cells to put between the two pages' cells
+ */
+function mergedDivider(divider: Uint8Array, left: PageContent, usableSize: number): Uint8Array[] {
+    switch (left.type) {
+        case 0x05:
+            return [tableInteriorCell(left.rightChild, readVarintBigInt(divider, 4)[0])];
+        case 0x0a:
+            return [indexLeafCell(divider, usableSize)];
+        case 0x02:
+            return [withLeftChild(divider, left.rightChild)];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Check whether a page is less than a third full, the point at which SQLite rebalances it.
+ * @param content - The page's cells
+ * @param usableSize - Usable size of a page
+ * @returns True if the page should be merged with a neighbour
+ */
+function isUnderfull(content: PageContent, usableSize: number): boolean {
+    const headerSize = content.type === 0x0d || content.type === 0x0a ? 8 : 12;
+    const used = content.cells.reduce((sum, cell) => sum + cell.length + 2, headerSize);
+    return used < usableSize / 3;
+}
+
+/**
+ * Split the cells of an overfull page across it and new pages to its right, and add dividers
+ * for the new pages to the parent. A table leaf keeps all its cells and each divider is a new
+ * interior cell holding the largest rowid to its left; on other pages the cell between two
+ * pieces moves up to become the divider.
+ * @param pager - Pager for the database file
+ * @param content - Cells of the page, which do not fit on it
+ * @param parent - Cells of the parent page, updated in place
+ * @param slot - Which child of the parent the page is
+ * @param appending - The cells end with a new one that sorts after everything else in the tree
+ */
+async function splitPage(pager: Pager, content: PageContent, parent: PageContent, slot: number, appending: boolean): Promise<void> {
+    const isTableLeaf = content.type === 0x0d;
+    const isLeaf = isTableLeaf || content.type === 0x0a;
+    const capacity = pager.usableSize - (isLeaf ? 8 : 12);
+    const pieces = splitRanges(content.cells.map(cell => cell.length + 2), capacity, isTableLeaf, appending);
+    
+    const pageNumbers = [content.pageNumber];
+    for (let i = 1; i < pieces.length; i++) {
+        pageNumbers.push(await pager.allocatePage());
+    }
+    
+    const dividers: Uint8Array[] = [];
+    for (const [i, [start, end]] of pieces.entries()) {
+        const cells = content.cells.slice(start, end);
+        let rightChild = content.rightChild;
+        if (i < pieces.length - 1) {
+            if (isTableLeaf) {
+                dividers.push(tableInteriorCell(pageNumbers[i], leafCellRowid(cells[cells.length - 1])));
+            } else if (isLeaf) {
+                dividers.push(indexInteriorCell(pageNumbers[i], content.cells[end], pager.usableSize));
+            } else {
+                // The divider's left child becomes the right-most child of the piece before it
+                rightChild = leftChildOf(content.cells[end]);
+                dividers.push(withLeftChild(content.cells[end], pageNumbers[i]));
+            }
+        }
+        await writeContent(pager, { pageNumber: pageNumbers[i], type: content.type, cells, rightChild: isLeaf ? 0 : rightChild });
+    }
+    
+    // The parent's pointer to the page now leads to the last piece, after the dividers for the others
+    parent.cells.splice(slot, 0, ...dividers);
+    const next = slot + dividers.length;
+    const lastPage = pageNumbers[pageNumbers.length - 1];
+    if (next < parent.cells.length) {
+        parent.cells[next] = withLeftChild(parent.cells[next], lastPage);
+    } else {
+        parent.rightChild = lastPage;
+    }
+}
+
+/**
+ * Decide how the cells of an overfull page are shared out between pages. Two pages of about
+ * equal fill are preferred; an append leaves the old page full and starts a new one. Only table
+ * leaf cells can each take up most of a page, so only those may need three pages or more.
+ * @param sizes - Space each cell needs, including its cell pointer
+ * @param capacity - Space for cells on a page
+ * @param keepDividers - Whether the pieces keep every cell; otherwise the cell after each piece but the last moves up
+ * @param appending - The last cell is new and sorts after everything else in the tree
+ * @returns The first and one past the last cell of each piece
+ */
+function splitRanges(sizes: number[], capacity: number, keepDividers: boolean, appending: boolean): Array<[number, number]> {
+    const count = sizes.length;
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+    if (appending && keepDividers && total - sizes[count - 1] <= capacity) {
+        return [[0, count - 1], [count - 1, count]];
+    }
+    
+    let best: number | null = null;
+    let bestDifference = Infinity;
+    let left = 0;
+    for (let split = 1; split < count; split++) {
+        left += sizes[split - 1];
+        const rightStart = keepDividers ? split : split + 1;
+        if (rightStart >= count) {
+            break;
+        }
+        const right = total - left - (keepDividers ? 0 : sizes[split]);
+        if (left <= capacity && right <= capacity && Math.abs(left - right) < bestDifference) {
+            best = split;
+            bestDifference = Math.abs(left - right);
+        }
+    }
+    if (best !== null) {
+        return [[0, best], [keepDividers ? best : best + 1, count]];
+    }
+    if (!keepDividers) {
+        throw new Error("Cannot split a B-tree page whose cells are too large");
+    }
+    
+    const pieces: Array<[number, number]> = [];
+    let start = 0;
+    let used = 0;
+    for (let i = 0; i < count; i++) {
+        if (used + sizes[i] > capacity) {
+            pieces.push([start, i]);
+            start = i;
+            used = 0;
+        }
+        used += sizes[i];
+    }
+    pieces.push([start, count]);
+    return pieces;
+}
+
+/**
+ * Check whether cells fit on their page.
+ * @param content - The page's cells
+ * @param usableSize - Usable size of a page
+ * @returns True if the cells and their pointers fit beside the page header
+ */
+function fits(content: PageContent, usableSize: number): boolean {
+    const headerOffset = content.pageNumber === 1 ? 100 : 0;
+    const headerSize = content.type === 0x0d || content.type === 0x0a ? 8 : 12;
+    const used = content.cells.reduce((sum, cell) => sum + cell.length + 2, 0);
+    return headerOffset + headerSize + used <= usableSize;
+}
+
+/**
+ * Copy the cells out of a B-tree page.
+ * @param page - Parsed B-tree page
+ * @param usableSize - Usable size of a page
+ * @returns The page's cells
+ */
+function readContent(page: BTreePage, usableSize: number): PageContent {
+    return {
+        pageNumber: page.pageNumber,
+        type: page.type,
+        cells: page.cellPointers.map((offset, i) => page.data.slice(offset, offset + cellSize(page, i, usableSize))),
+        rightChild: page.rightmostPointer ?? 0,
+    };
+}
+
+/**
+ * Lay out cells on a page, packed at the end of the usable area with nothing free between them.
+ * The database header on page 1 and any reserved bytes at the end of the page are kept.
+ * @param pager - Pager for the database file
+ * @param content - Cells of the page, which must fit
+ */
+async function writeContent(pager: Pager, content: PageContent): Promise<void> {
+    const { pageNumber, type, cells, rightChild } = content;
+    const data = (await pager.getPage(pageNumber)).slice();
+    const view = new DataView(data.buffer);
+    const headerOffset = pageNumber === 1 ? 100 : 0;
+    const isLeaf = type === 0x0d || type === 0x0a;
+    data.fill(0, headerOffset, pager.usableSize);
+    
+    const cellArray = headerOffset + (isLeaf ? 8 : 12);
+    let contentStart = pager.usableSize;
+    cells.forEach((cell, i) => {
+        contentStart -= cell.length;
+        data.set(cell, contentStart);
+        view.setUint16(cellArray + i * 2, contentStart);
+    });
+    
+    data[headerOffset] = type;
+    view.setUint16(headerOffset + 3, cells.length);
+    // A cell content start of 65536 is stored as zero
+    view.setUint16(headerOffset + 5, contentStart & 0xffff);
+    if (!isLeaf) {
+        view.setUint32(headerOffset + 8, rightChild);
+    }
+    pager.writePage(pageNumber, data);
+}
+
+/**
+ * Build a leaf cell, writing the part of the payload that does not fit on the page to a chain of new overflow pages.
+ * @param pager - Pager for the database file
+ * @param type - Type of the leaf page, 0x0d or 0x0a
+ * @param payload - The record
+ * @param rowid - Rowid of a table row
+ * @returns The cell's bytes
+ */
+async function buildCell(pager: Pager, type: number, payload: Uint8Array, rowid: bigint = 0n): Promise<Uint8Array> {
+    const isTable = type === 0x0d;
+    const localSize = getLocalPayloadSize(payload.length, pager.usableSize, isTable);
+    const parts = [encodeVarint(payload.length), ...(isTable ? [encodeVarint(rowid)] : []), payload.subarray(0, localSize)];
+    if (localSize < payload.length) {
+        parts.push(pageNumberBytes(await writeOverflowChain(pager, payload.subarray(localSize))));
+    }
+    return concatCell(parts);
+}
+
+/**
+ * Write the end of a payload to new overflow pages, each holding the number of the next page first.
+ * @param pager - Pager for the database file
+ * @param overflow - The payload bytes that do not fit in the cell
+ * @returns The first page of the chain
+ */
+async function writeOverflowChain(pager: Pager, overflow: Uint8Array): Promise<number> {
+    const chunkSize = pager.usableSize - 4;
+    const pages: number[] = [];
+    for (let offset = 0; offset < overflow.length; offset += chunkSize) {
+        pages.push(await pager.allocatePage());
+    }
+    pages.forEach((pageNumber, i) => {
+        const data = new Uint8Array(pager.pageSize);
+        new DataView(data.buffer).setUint32(0, pages[i + 1] ?? 0);
+        data.set(overflow.subarray(i * chunkSize, (i + 1) * chunkSize), 4);
+        pager.writePage(pageNumber, data);
+    });
+    return pages[0];
+}
+
+/**
+ * Free the overflow pages of a cell, if it has any.
+ * @param pager - Pager for the database file
+ * @param page - Parsed B-tree page (table leaf, index leaf or index interior)
+ * @param cellIndex - Index into the cell pointer array
+ */
+async function freeOverflowChain(pager: Pager, page: BTreePage, cellIndex: number): Promise<void> {
+    let pageNumber = readLocalPayload(page, cellIndex, pager.usableSize).overflowPage;
+    while (pageNumber !== 0) {
+        const data = await pager.getPage(pageNumber);
+        const next = new DataView(data.buffer, data.byteOffset, 4).getUint32(0);
+        await pager.freePage(pageNumber);
+        pageNumber = next;
+    }
+}
+
+/**
+ * Find the first cell of an index page whose entry is not less than an entry.
+ * @param pager - Pager for the database file
+ * @param page - Parsed index page
+ * @param entry - Entry to compare with
+ * @param keyColumns - Ordering of the leading columns
+ * @returns The cell index, or cellCount if every entry is smaller
+ */
+async function entryLowerBound(pager: Pager, page: BTreePage, entry: SqlValue[], keyColumns: KeyColumn[]): Promise<number> {
+    let low = 0;
+    let high = page.cellCount;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (compareIndexKey(await readEntry(pager, page, mid), entry, keyColumns, pager.textEncoding) < 0) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
+
+async function readEntry(pager: Pager, page: BTreePage, cellIndex: number): Promise<SqlValue[]> {
+    const { payload } = await pager.readCellPayload(page, cellIndex);
+    return parseRecord(payload, pager.textEncoding);
+}
+
+/**
+ * Measure a cell of a page. SQLite counts a cell as at least 4 bytes, so that it can become a freeblock.
+ * @param page - Parsed B-tree page
+ * @param cellIndex - Index into the cell pointer array
+ * @param usableSize - Usable size of a page
+ * @returns Size of the cell in bytes
+ */
+function cellSize(page: BTreePage, cellIndex: number, usableSize: number): number {
+    if (page.type === 0x05) {
+        return 4 + readVarint(getCell(page, cellIndex), 4)[1];
+    }
+    const { payloadSize, local } = readLocalPayload(page, cellIndex, usableSize);
+    const end = local.byteOffset - page.data.byteOffset + local.length + (local.length < payloadSize ? 4 : 0);
+    return Math.max(4, end - page.cellPointers[cellIndex]);
+}
+
+/**
+ * Read the rowid of a table leaf cell.
+ * @param cell - The cell's bytes
+ * @returns The rowid
+ */
+function leafCellRowid(cell: Uint8Array): bigint {
+    const [, payloadSizeBytes] = readVarint(cell, 0);
+    return readVarintBigInt(cell, payloadSizeBytes)[0];
+}
+
+function tableInteriorCell(leftChild: number, rowid: bigint): Uint8Array {
+    return concatCell([pageNumberBytes(leftChild), encodeVarint(rowid)]);
+}
+
+/**
+ * Turn an index leaf cell into an interior cell, which holds the same payload after a left child pointer.
+ * @param leftChild - The left child
+ * @param cell - The leaf cell, possibly padded
+ * @param usableSize - Usable size of a page
+ * @returns The interior cell
+ */
+function indexInteriorCell(leftChild: number, cell: Uint8Array, usableSize: number): Uint8Array {
+    const [payloadSize, payloadSizeBytes] = readVarint(cell, 0);
+    const localSize = getLocalPayloadSize(payloadSize, usableSize, false);
+    const size = payloadSizeBytes + localSize + (localSize < payloadSize ? 4 : 0);
+    return concatCell([pageNumberBytes(leftChild), cell.subarray(0, size)]);
+}
+
+/**
+ * Turn an index interior cell back into a leaf cell by dropping its left child pointer.
+ * @param cell - The interior cell
+ * @param usableSize - Usable size of a page
+ * @returns The leaf cell
+ */
+function indexLeafCell(cell: Uint8Array, usableSize: number): Uint8Array {
+    const [payloadSize, payloadSizeBytes] = readVarint(cell, 4);
+    const localSize = getLocalPayloadSize(payloadSize, usableSize, false);
+    return concatCell([cell.subarray(4, 4 + payloadSizeBytes + localSize + (localSize < payloadSize ? 4 : 0))]);
+}
+
+/**
+ * Find a child of an interior page.
+ * @param content - Cells of the page
+ * @param index - Which child, cells.length meaning the right-most
+ * @returns The child's page number
+ */
+function childOf(content: PageContent, index: number): number {
+    return index < content.cells.length ? leftChildOf(content.cells[index]) : content.rightChild;
+}
+
+function leftChildOf(cell: Uint8Array): number {
+    return new DataView(cell.buffer, cell.byteOffset, 4).getUint32(0);
+}
+
+function withLeftChild(cell: Uint8Array, leftChild: number): Uint8Array {
+    const copy = cell.slice();
+    copy.set(pageNumberBytes(leftChild));
+    return copy;
+}
+
+function pageNumberBytes(pageNumber: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, pageNumber);
+    return bytes;
+}
+
+/**
+ * Join the parts of a cell, padding it to the 4 bytes SQLite counts a cell as at least.
+ * @param parts - The parts in order
+ * @returns The cell's bytes
+ */
+function concatCell(parts: Uint8Array[]): Uint8Array {
+    const length = parts.reduce((sum, part) => sum + part.length, 0);
+    const cell = new Uint8Array(Math.max(4, length));
+    let offset = 0;
+    for (const part of parts) {
+        cell.set(part, offset);
+        offset += part.length;
+    }
+    return cell;
+}
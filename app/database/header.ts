@@ -0,0 +1,135 @@
+/**
+ * Size of the database header at the start of page 1.
+ */
+export const DATABASE_HEADER_SIZE = 100;
+
+const MAGIC = 'SQLite format 3\0';
+
+/**
+ * Offset of the byte SQLite locks files on; the page holding it is never used.
+ */
+const PENDING_BYTE = 0x40000000;
+
+/**
+ * SQLITE_VERSION_NUMBER recorded in the databases this tool creates.
+ */
+const SQLITE_VERSION_NUMBER = 3046000;
+
+/**
+ * The fields of the 100-byte header at the start of every database file.
+ */
+export interface DatabaseHeader {
+    /** Page size in bytes; the stored value 1 means 65536 */
+    pageSize: number;
+    /** File format write version: 1 for rollback journal, 2 for WAL */
+    writeVersion: number;
+    /** File format read version: 1 for rollback journal, 2 for WAL */
+    readVersion: number;
+    /** Bytes reserved for extensions at the end of each page */
+    reservedBytes: number;
+    maxPayloadFraction: number;
+    minPayloadFraction: number;
+    leafPayloadFraction: number;
+    fileChangeCounter: number;
+    /** Size of the database in pages, only valid when versionValidFor equals fileChangeCounter */
+    pageCount: number;
+    /** First freelist trunk page, 0 if the freelist is empty */
+    freelistTrunkPage: number;
+    freelistPageCount: number;
+    schemaCookie: number;
+    /** Schema format number, 1 to 4 */
+    schemaFormat: number;
+    /** Suggested page cache size from PRAGMA default_cache_size */
+    defaultCacheSize: number;
+    /** Largest root page in auto-vacuum or incremental-vacuum mode, 0 otherwise */
+    autoVacuumTopRoot: number;
+    /** Text encoding: 1 for UTF-8, 2 for UTF-16le, 3 for UTF-16be */
+    textEncoding: number;
+    userVersion: number;
+    /** Non-zero in incremental-vacuum mode */
+    incrementalVacuum: number;
+    applicationId: number;
+    /** Value of the change counter when the SQLite version number was stored */
+    versionValidFor: number;
+    /** SQLITE_VERSION_NUMBER of the library that last wrote the file */
+    sqliteVersion: number;
+}
+
+/**
+ * Parse and validate the database header.
+ * @param data - The first bytes of the database file, at least 100 of them
+ * @returns The header fields
+ */
+export function parseDatabaseHeader(data: Uint8Array): DatabaseHeader {
+    if (data.length < DATABASE_HEADER_SIZE || new TextDecoder('latin1').decode(data.subarray(0, MAGIC.length)) !== MAGIC) {
+        throw new Error("file is not a database");
+    }
+    const view = new DataView(data.buffer, data.byteOffset, DATABASE_HEADER_SIZE);
+    
+    // A page size of 1 encodes 65536, which does not fit in two bytes
+    const rawPageSize = view.getUint16(16);
+    const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+    if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0) {
+        throw new Error(`Invalid page size ${rawPageSize} in the database header`);
+    }
+    
+    const header: DatabaseHeader = {
+        pageSize,
+        writeVersion: data[18],
+        readVersion: data[19],
+        reservedBytes: data[20],
+        maxPayloadFraction: data[21],
+        minPayloadFraction: data[22],
+        leafPayloadFraction: data[23],
+        fileChangeCounter: view.getUint32(24),
+        pageCount: view.getUint32(28),
+        freelistTrunkPage: view.getUint32(32),
+        freelistPageCount: view.getUint32(36),
+        schemaCookie: view.getUint32(40),
+        schemaFormat: view.getUint32(44),
+        defaultCacheSize: view.getUint32(48),
+        autoVacuumTopRoot: view.getUint32(52),
+        textEncoding: view.getUint32(56),
+        userVersion: view.getUint32(60),
+        incrementalVacuum: view.getUint32(64),
+        applicationId: view.getUint32(68),
+        versionValidFor: view.getUint32(92),
+        sqliteVersion: view.getUint32(96),
+    };
+    if (pageSize - header.reservedBytes < 480) {
+        throw new Error(`Invalid reserved space of ${header.reservedBytes} bytes in the database header`);
+    }
+    return header;
+}
+
+/**
+ * Build the header of a new database in the format SQLite creates by default: rollback journal
+ * mode, schema format 4, UTF-8 text, no reserved bytes and no auto-vacuum.
+ * @param pageSize - Size of database pages in bytes
+ * @returns The header; the change counter, page count and schema cookie are left at 0 for the first commit to set
+ */
+export function createDatabaseHeader(pageSize: number): Uint8Array {
+    const data = new Uint8Array(DATABASE_HEADER_SIZE);
+    const view = new DataView(data.buffer);
+    data.set(new TextEncoder().encode(MAGIC));
+    view.setUint16(16, pageSize === 65536 ? 1 : pageSize);
+    data[18] = 1;
+    data[19] = 1;
+    // Payload fractions are fixed by the file format
+    data[21] = 64;
+    data[22] = 32;
+    data[23] = 32;
+    view.setUint32(44, 4);
+    view.setUint32(56, 1);
+    view.setUint32(96, SQLITE_VERSION_NUMBER);
+    return data;
+}
+
+/**
+ * Find the page that holds the byte SQLite locks files on, which is never used for data.
+ * @param pageSize - Size of database pages in bytes
+ * @returns The page number
+ */
+export function pendingBytePage(pageSize: number): number {
+    return Math.floor(PENDING_BYTE / pageSize) + 1;
+}
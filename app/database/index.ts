@@ -1,206 +1,440 @@
-import type { FileHandle } from 'fs/promises';
-import { readVarint } from '../utils/varint.js';
-import { getSerialTypeSize } from '../utils/serialTypes.js';
-import { readPageType, readPageHeader, readCellPointers, readCell, readRightmostPointer } from './page.js';
+import { parseRecord } from '../parser/record.js';
+import type { Row } from '../parser/record.js';
+import type { TableSchema, ConstraintColumn } from '../parser/schema.js';
+import { compareValues } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import type { Collation } from '../utils/collation.js';
+import type { TextEncoding } from '../utils/encoding.js';
+import { getChildPage } from './page.js';
+import type { BTreePage } from './page.js';
+import type { Pager } from './pager.js';
+import type { IndexColumn } from './schema.js';
+import type { CursorFrame } from './table.js';
 
 /**
- * Scan an index tree and collect all rowids where the indexed column matches the search value.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
- * @param rootPage - Root page number of the index
- * @param searchValue - Value to search for in the indexed column
- * @returns Array of rowids matching the search value
+ * How one column of an index is ordered.
  */
-export async function scanIndex(fileHandler: FileHandle, pageSize: number, rootPage: number, searchValue: string): Promise<number[]> {
-    const rowids: number[] = [];
-    await scanIndexRecursive(fileHandler, pageSize, rootPage, searchValue, rowids);
-    return rowids;
+export interface KeyColumn {
+    collation: Collation;
+    descending: boolean;
 }
 
 /**
- * Recursively traverse an index B-tree to find all matching entries.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
- * @param pageNum - Current page number in the B-tree
- * @param searchValue - Value to search for in the indexed column
- * @param rowids - Accumulated array of matching rowids
+ * Cursor over the entries of an index B-tree in key order. Interior pages of an index
+ * hold entries of their own, so the cursor can rest on an interior cell as well as on a leaf.
+ * The top frame of the stack is the current entry; the frames below it are the children being visited.
  */
-async function scanIndexRecursive(fileHandler: FileHandle, pageSize: number, pageNum: number, searchValue: string, rowids: number[]): Promise<void> {
-    const pageOffset = (pageNum - 1) * pageSize;
-    const isPage1 = pageNum === 1;
+export class IndexCursor implements AsyncIterable<SqlValue[]> {
+    private readonly pager: Pager;
+    private readonly rootPage: number;
+    private readonly keyColumns: KeyColumn[];
+    private stack: CursorFrame[] = [];
     
-    const pageType = await readPageType(fileHandler, pageOffset, isPage1);
+    /**
+     * @param pager - Pager for the database file
+     * @param rootPage - Root page number of the index B-tree
+     * @param keyColumns - Ordering of the leading index columns; others compare in ascending BINARY order
+     */
+    constructor(pager: Pager, rootPage: number, keyColumns: KeyColumn[] = []) {
+        this.pager = pager;
+        this.rootPage = rootPage;
+        this.keyColumns = keyColumns;
+    }
     
-    if (pageType === 0x0a) {
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, false);
-        
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = await readCell(fileHandler, pageOffset, cellOffset);
-            const { indexedValue, rowid } = parseIndexEntry(cellBuffer);
-            
-            if (indexedValue === searchValue && rowid !== null) {
-                rowids.push(rowid);
-            }
+    /**
+     * Whether the cursor is positioned on an entry.
+     */
+    get valid(): boolean {
+        const top = this.stack[this.stack.length - 1];
+        return top !== undefined && top.index >= 0 && top.index < top.page.cellCount;
+    }
+    
+    /**
+     * Move to the first entry of the index.
+     * @returns True if the index has at least one entry
+     */
+    async first(): Promise<boolean> {
+        this.stack = [];
+        await this.descendToLeftmost(this.rootPage);
+        return this.valid || this.ascend();
+    }
+    
+    /**
+     * Move to the last entry of the index.
+     * @returns True if the index has at least one entry
+     */
+    async last(): Promise<boolean> {
+        this.stack = [];
+        await this.descendToRightmost(this.rootPage);
+        return this.valid || this.ascendBackward();
+    }
+    
+    /**
+     * Move to the next entry in key order.
+     * @returns True if the cursor is positioned on an entry, false at the end of the index
+     */
+    async next(): Promise<boolean> {
+        const top = this.stack[this.stack.length - 1];
+        if (!top) {
+            return false;
+        }
+        top.index++;
+        if (top.page.type === 0x02) {
+            // After an interior cell come the entries of the child to its right
+            await this.descendToLeftmost(getChildPage(top.page, top.index));
         }
-    } else if (pageType === 0x02) {
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, true);
+        return this.valid || this.ascend();
+    }
+    
+    /**
+     * Move to the previous entry in key order.
+     * @returns True if the cursor is positioned on an entry, false at the start of the index
+     */
+    async previous(): Promise<boolean> {
+        const top = this.stack[this.stack.length - 1];
+        if (!top) {
+            return false;
+        }
+        if (top.page.type === 0x02) {
+            // Before an interior cell come the entries of its left child, which the frame now visits
+            await this.descendToRightmost(getChildPage(top.page, top.index));
+        } else {
+            top.index--;
+        }
+        return this.valid || this.ascendBackward();
+    }
+    
+    /**
+     * Move to the first entry that is greater than or equal to a key. The key may be
+     * a prefix of the entries, e.g. only the indexed columns without the rowid.
+     * @param key - Values to compare against the leading columns of each entry
+     * @param after - Skip the entries whose leading columns equal the key as well
+     * @returns True if such an entry exists
+     */
+    async seek(key: SqlValue[], after: boolean = false): Promise<boolean> {
+        this.stack = [];
+        let page = await this.pager.getBTreePage(this.rootPage);
         
-        let foundGreaterKey = false;
+        while (page.type === 0x02) {
+            const index = await this.lowerBound(page, key, after);
+            this.stack.push({ page, index });
+            page = await this.pager.getBTreePage(getChildPage(page, index));
+        }
+        assertIndexLeaf(page);
         
-        // Read each cell and check the key to decide which children to traverse
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = new Uint8Array(1000);
-            await fileHandler.read(cellBuffer, 0, cellBuffer.length, pageOffset + cellOffset);
-            
-            const leftChildPage = new DataView(cellBuffer.buffer).getUint32(0, false);
-            
-            // Parse the key (first indexed value) from this interior cell
-            const { indexedValue: keyValue } = parseIndexEntry(cellBuffer, 4); // Skip 4-byte left child pointer
-            
-            // Compare key with search value
-            // The left child contains all entries < keyValue
-            // If searchValue <= keyValue, we need to check left child
-            if (searchValue <= keyValue) {
-                await scanIndexRecursive(fileHandler, pageSize, leftChildPage, searchValue, rowids);
-            }
-            
-            // If we've seen a key greater than searchValue, we can stop
-            if (searchValue < keyValue) {
-                foundGreaterKey = true;
+        this.stack.push({ page, index: await this.lowerBound(page, key, after) });
+        return this.valid || this.ascend();
+    }
+    
+    /**
+     * Decode the current entry.
+     * @returns The values of the index record, with the rowid last
+     */
+    async record(): Promise<SqlValue[]> {
+        if (!this.valid) {
+            throw new Error("Cursor is not positioned on an index entry");
+        }
+        const top = this.stack[this.stack.length - 1];
+        return this.readRecord(top.page, top.index);
+    }
+    
+    /**
+     * Iterate over all entries of the index from the first, decoding each one.
+     */
+    async *[Symbol.asyncIterator](): AsyncIterator<SqlValue[]> {
+        for (let found = await this.first(); found; found = await this.next()) {
+            yield await this.record();
+        }
+    }
+    
+    private async readRecord(page: BTreePage, cellIndex: number): Promise<SqlValue[]> {
+        const { payload } = await this.pager.readCellPayload(page, cellIndex);
+        return parseRecord(payload, this.pager.textEncoding);
+    }
+    
+    /**
+     * Find the first cell of a page whose entry is greater than or equal to a key.
+     * @param page - Parsed index page
+     * @param key - Key to compare against
+     * @param after - Find the first entry greater than the key instead
+     * @returns The cell index, or cellCount if every entry is smaller
+     */
+    private async lowerBound(page: BTreePage, key: SqlValue[], after: boolean): Promise<number> {
+        let index = 0;
+        while (index < page.cellCount) {
+            const cmp = compareIndexKey(await this.readRecord(page, index), key, this.keyColumns, this.pager.textEncoding);
+            if (cmp > 0 || (cmp === 0 && !after)) {
                 break;
             }
+            index++;
         }
-        
-        // Only traverse rightmost child if we haven't found a greater key
-        if (!foundGreaterKey) {
-            const rightmostChild = await readRightmostPointer(fileHandler, pageOffset, isPage1);
-            await scanIndexRecursive(fileHandler, pageSize, rightmostChild, searchValue, rowids);
+        return index;
+    }
+    
+    /**
+     * Push frames for the path from a page down to the leftmost leaf beneath it.
+     * @param pageNumber - Page to start from
+     */
+    private async descendToLeftmost(pageNumber: number): Promise<void> {
+        let page = await this.pager.getBTreePage(pageNumber);
+        while (page.type === 0x02) {
+            this.stack.push({ page, index: 0 });
+            page = await this.pager.getBTreePage(getChildPage(page, 0));
+        }
+        assertIndexLeaf(page);
+        this.stack.push({ page, index: 0 });
+    }
+    
+    /**
+     * Push frames for the path from a page down to the rightmost leaf beneath it,
+     * positioned on the leaf's last entry.
+     * @param pageNumber - Page to start from
+     */
+    private async descendToRightmost(pageNumber: number): Promise<void> {
+        let page = await this.pager.getBTreePage(pageNumber);
+        while (page.type === 0x02) {
+            this.stack.push({ page, index: page.cellCount });
+            page = await this.pager.getBTreePage(getChildPage(page, page.cellCount));
         }
+        assertIndexLeaf(page);
+        this.stack.push({ page, index: page.cellCount - 1 });
+    }
+    
+    /**
+     * Pop exhausted pages until the cursor rests on the interior cell that follows them.
+     * @returns True if an entry was found, false at the end of the index
+     */
+    private ascend(): boolean {
+        while (!this.valid) {
+            this.stack.pop();
+            if (this.stack.length === 0) {
+                return false;
+            }
+        }
+        return true;
+    }
+    
+    /**
+     * Pop exhausted pages until the cursor rests on the interior cell that precedes them.
+     * @returns True if an entry was found, false at the start of the index
+     */
+    private ascendBackward(): boolean {
+        while (!this.valid) {
+            this.stack.pop();
+            const parent = this.stack[this.stack.length - 1];
+            if (!parent) {
+                return false;
+            }
+            // Before the child at index i comes interior cell i - 1
+            parent.index--;
+        }
+        return true;
     }
 }
 
 /**
- * Parse an index entry to extract the indexed column value and its rowid.
- * @param cellBuffer - Buffer containing the index cell data
- * @param startOffset - Byte offset to start parsing from
- * @returns The indexed column value and associated rowid
+ * One end of a range of index keys.
  */
-function parseIndexEntry(cellBuffer: Uint8Array, startOffset: number = 0): { indexedValue: string, rowid: number | null } {
-    let offset = startOffset;
-    
-    const [payloadSize, payloadSizeBytes] = readVarint(cellBuffer, offset);
-    offset += payloadSizeBytes;
-    
-    const [headerSize, headerSizeBytes] = readVarint(cellBuffer, offset);
-    offset += headerSizeBytes;
-    
-    const serialTypes: number[] = [];
-    const headerStart = offset - headerSizeBytes;
-    while (offset - headerStart < headerSize) {
-        const [serialType, serialTypeBytes] = readVarint(cellBuffer, offset);
-        serialTypes.push(serialType);
-        offset += serialTypeBytes;
+export interface IndexBound {
+    value: SqlValue;
+    inclusive: boolean;
+}
+
+/**
+ * The entries of an index to visit: those whose leading columns equal `equal`, further
+ * restricted by bounds on the column that follows them. Bounds are in value order, so
+ * on a descending column the scan starts from the upper bound.
+ */
+export interface IndexRange {
+    equal: SqlValue[];
+    lower: IndexBound | null;
+    upper: IndexBound | null;
+}
+
+/**
+ * Scan a range of an index tree and yield the rowid of each entry in it.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the index
+ * @param keyColumns - Collation and sort order of each index column
+ * @param range - Key range to scan
+ * @param reverse - Visit the entries from the end of the range backwards
+ * @returns Rowids of the matching entries, in index order or its reverse
+ */
+export async function* scanIndex(pager: Pager, rootPage: number, keyColumns: KeyColumn[], range: IndexRange, reverse: boolean = false): AsyncGenerator<bigint> {
+    for await (const entry of scanIndexEntries(pager, rootPage, keyColumns, range, reverse)) {
+        // The rowid is the last value of the record
+        const rowid = entry[entry.length - 1];
+        if (typeof rowid === 'bigint') {
+            yield rowid;
+        }
     }
+}
+
+/**
+ * Scan a range of an index tree and yield each entry in it.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the index
+ * @param keyColumns - Collation and sort order of each index column
+ * @param range - Key range to scan
+ * @param reverse - Visit the entries from the end of the range backwards
+ * @returns Values of the matching entries, in index order or its reverse
+ */
+export async function* scanIndexEntries(pager: Pager, rootPage: number, keyColumns: KeyColumn[], range: IndexRange, reverse: boolean = false): AsyncGenerator<SqlValue[]> {
+    const { equal } = range;
+    const rangeColumn = keyColumns[equal.length] ?? { collation: 'BINARY', descending: false };
     
-    let indexedValue = '';
-    if (serialTypes.length >= 1) {
-        const firstSerialType = serialTypes[0];
-        indexedValue = parseIndexValue(cellBuffer, offset, firstSerialType);
-        offset += getSerialTypeSize(firstSerialType);
+    // Translate the value bounds into where the scan starts and stops in index order
+    const [first, last] = rangeColumn.descending ? [range.upper, range.lower] : [range.lower, range.upper];
+    const direction = rangeColumn.descending ? -1 : 1;
+    const compareToBound = (value: SqlValue, bound: IndexBound) => direction * compareValues(value, bound.value, rangeColumn.collation, pager.textEncoding);
+    
+    const cursor = new IndexCursor(pager, rootPage, keyColumns);
+    let found: boolean;
+    if (!reverse) {
+        found = await cursor.seek(first ? [...equal, first.value] : equal);
+    } else {
+        // Step back from the first entry past the end of the range
+        const end = last ? [...equal, last.value] : equal;
+        found = await cursor.seek(end, !last || last.inclusive) ? await cursor.previous() : await cursor.last();
     }
     
-    let rowid: number | null = null;
-    if (serialTypes.length >= 2) {
-        // Skip intermediate values
-        for (let i = 1; i < serialTypes.length - 1; i++) {
-            offset += getSerialTypeSize(serialTypes[i]);
+    for (; found; found = reverse ? await cursor.previous() : await cursor.next()) {
+        const entry = await cursor.record();
+        if (compareIndexKey(entry, equal, keyColumns, pager.textEncoding) !== 0) {
+            break;
         }
         
-        // Read rowid (last value)
-        const rowidSerialType = serialTypes[serialTypes.length - 1];
-        const rowidSize = getSerialTypeSize(rowidSerialType);
-        
-        if (rowidSerialType >= 1 && rowidSerialType <= 6 && rowidSize > 0) {
-            const view = new DataView(cellBuffer.buffer, cellBuffer.byteOffset + offset, rowidSize);
-            
-            if (rowidSize === 1) {
-                rowid = view.getInt8(0);
-            } else if (rowidSize === 2) {
-                rowid = view.getInt16(0, false);
-            } else if (rowidSize === 3) {
-                const byte0 = cellBuffer[offset];
-                const byte1 = cellBuffer[offset + 1];
-                const byte2 = cellBuffer[offset + 2];
-                rowid = (byte0 << 16) | (byte1 << 8) | byte2;
-                if (rowid & 0x800000) {
-                    rowid |= 0xFF000000;
+        const value = entry[equal.length] ?? null;
+        if (first || last) {
+            // NULL never satisfies a range comparison; it sorts below every value, so it lies on one side of the range
+            if (value === null) {
+                if (rangeColumn.descending !== reverse) {
+                    break;
                 }
-            } else if (rowidSize === 4) {
-                rowid = view.getInt32(0, false);
-            } else if (rowidSize === 6) {
-                const high = view.getInt16(0, false);
-                const low = view.getUint32(2, false);
-                rowid = (high * 0x100000000) + low;
-            } else if (rowidSize === 8) {
-                rowid = Number(view.getBigInt64(0, false));
+                continue;
             }
+            if (first) {
+                const cmp = compareToBound(value, first);
+                if (cmp < 0 || (cmp === 0 && !first.inclusive)) {
+                    if (reverse) {
+                        break;
+                    }
+                    continue;
+                }
+            }
+            if (last) {
+                const cmp = compareToBound(value, last);
+                if (cmp > 0 || (cmp === 0 && !last.inclusive)) {
+                    if (!reverse) {
+                        break;
+                    }
+                    continue;
+                }
+            }
+        }
+        
+        yield entry;
+    }
+}
+
+/**
+ * Compare the leading columns of an index entry with a key, using each column's collation and sort order.
+ * @param entry - Values of the index record
+ * @param key - Key values, possibly fewer than the entry has
+ * @param keyColumns - Ordering of the leading index columns; others compare in ascending BINARY order
+ * @param encoding - Text encoding of the database
+ * @returns Negative, zero or positive as the entry sorts before, equal to or after the key in the index
+ */
+export function compareIndexKey(entry: SqlValue[], key: SqlValue[], keyColumns: KeyColumn[] = [], encoding: TextEncoding = 'utf-8'): number {
+    for (let i = 0; i < key.length; i++) {
+        const column = keyColumns[i];
+        const cmp = compareValues(entry[i] ?? null, key[i], column?.collation, encoding);
+        if (cmp !== 0) {
+            return column?.descending ? -cmp : cmp;
         }
     }
-    
-    return { indexedValue, rowid };
+    return 0;
 }
 
 /**
- * Parse a single value from an index cell based on its serial type.
- * @param cellBuffer - Buffer containing the index cell data
- * @param offset - Byte offset to the value
- * @param serialType - SQLite serial type of the value
- * @returns The parsed value as a string
+ * A WITHOUT ROWID table, stored as an index B-tree whose entries hold the primary key columns
+ * in key order followed by the other stored columns in declared order. Rows are read back with
+ * their values in declared order, as a rowid table stores them.
  */
-function parseIndexValue(cellBuffer: Uint8Array, offset: number, serialType: number): string {
-    const size = getSerialTypeSize(serialType);
-    
-    if (serialType === 0) {
-        return '';
-    } else if (serialType === 8) {
-        return '0';
-    } else if (serialType === 9) {
-        return '1';
-    } else if (serialType >= 1 && serialType <= 6) {
-        const view = new DataView(cellBuffer.buffer, cellBuffer.byteOffset + offset, size);
-        let intValue = 0;
+export class WithoutRowidTable {
+    private readonly pager: Pager;
+    private readonly rootPage: number;
+    /** Ordering of the primary key columns */
+    private readonly keyColumns: ConstraintColumn[];
+    /** Position within an entry of each stored column, in declared order */
+    private readonly layout: number[];
+    
+    /**
+     * @param pager - Pager for the database file
+     * @param rootPage - Root page number of the table B-tree
+     * @param table - Schema of the table
+     */
+    constructor(pager: Pager, rootPage: number, table: TableSchema) {
+        this.pager = pager;
+        this.rootPage = rootPage;
+        this.keyColumns = table.primaryKey;
         
-        if (size === 1) {
-            intValue = view.getInt8(0);
-        } else if (size === 2) {
-            intValue = view.getInt16(0, false);
-        } else if (size === 3) {
-            const byte0 = cellBuffer[offset];
-            const byte1 = cellBuffer[offset + 1];
-            const byte2 = cellBuffer[offset + 2];
-            intValue = (byte0 << 16) | (byte1 << 8) | byte2;
-            if (intValue & 0x800000) {
-                intValue |= 0xFF000000;
-            }
-        } else if (size === 4) {
-            intValue = view.getInt32(0, false);
-        } else if (size === 6) {
-            const high = view.getInt16(0, false);
-            const low = view.getUint32(2, false);
-            intValue = (high * 0x100000000) + low;
-        } else if (size === 8) {
-            intValue = Number(view.getBigInt64(0, false));
+        const keyNames = table.primaryKey.map(column => column.name.toLowerCase());
+        let position = keyNames.length;
+        this.layout = table.columns
+            .filter(column => !column.generated || column.generated.stored)
+            .map(column => keyNames.includes(column.name.toLowerCase()) ? keyNames.indexOf(column.name.toLowerCase()) : position++);
+    }
+    
+    /**
+     * Scan the rows whose primary keys fall in a range.
+     * @param range - Range of primary key values to scan
+     * @param reverse - Visit the rows from the end of the range backwards
+     * @returns The rows in primary key order or its reverse; their rowid is always 0
+     */
+    async *scan(range: IndexRange, reverse: boolean = false): AsyncGenerator<Row> {
+        for await (const entry of scanIndexEntries(this.pager, this.rootPage, this.keyColumns, range, reverse)) {
+            yield this.toRow(entry);
         }
-        
-        return intValue.toString();
-    } else if (serialType === 7) {
-        const view = new DataView(cellBuffer.buffer, cellBuffer.byteOffset + offset, 8);
-        const floatValue = view.getFloat64(0, false);
-        return floatValue.toString();
-    } else {
-        // TEXT or BLOB
-        return new TextDecoder().decode(cellBuffer.slice(offset, offset + size));
+    }
+    
+    /**
+     * Look up a row by its primary key.
+     * @param key - Values of the primary key columns, in key order
+     * @returns The row, or null if the table has no row with that key
+     */
+    async fetch(key: SqlValue[]): Promise<Row | null> {
+        const cursor = new IndexCursor(this.pager, this.rootPage, this.keyColumns);
+        if (!await cursor.seek(key)) {
+            return null;
+        }
+        const entry = await cursor.record();
+        return compareIndexKey(entry, key, this.keyColumns, this.pager.textEncoding) === 0 ? this.toRow(entry) : null;
+    }
+    
+    /**
+     * Extract the primary key from an entry of another index on the table. Such entries hold
+     * the indexed columns followed by the primary key columns that the index does not already hold.
+     * @param columns - Columns of the index
+     * @param entry - Values of the index entry
+     * @returns Values of the primary key columns, in key order
+     */
+    keyOf(columns: IndexColumn[], entry: SqlValue[]): SqlValue[] {
+        let position = columns.length;
+        return this.keyColumns.map(keyColumn => {
+            const index = columns.findIndex(column => column.name?.toLowerCase() === keyColumn.name.toLowerCase() && column.collation === keyColumn.collation);
+            return entry[index !== -1 ? index : position++] ?? null;
+        });
+    }
+    
+    private toRow(entry: SqlValue[]): Row {
+        // Columns added by ALTER TABLE after the entry was written come last and are missing from it
+        return { rowid: 0n, values: this.layout.filter(position => position < entry.length).map(position => entry[position]) };
+    }
+}
+
+function assertIndexLeaf(page: BTreePage): void {
+    if (page.type !== 0x0a) {
+        throw new Error(`Page ${page.pageNumber} is not an index B-tree page (type ${page.type})`);
     }
 }
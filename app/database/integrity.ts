@@ -0,0 +1,492 @@
+import { readVarint, readVarintBigInt } from '../utils/varint.js';
+import { INT64_MAX } from '../utils/sqlValue.js';
+import { parseDatabaseHeader, pendingBytePage, DATABASE_HEADER_SIZE } from './header.js';
+import type { DatabaseHeader } from './header.js';
+import { getLocalPayloadSize } from './page.js';
+import type { Pager } from './pager.js';
+
+/**
+ * Result code of SQLITE_CORRUPT, which SQLite reports for pages it cannot parse.
+ */
+const SQLITE_CORRUPT = 11;
+
+/**
+ * What checking the B-trees of a database found.
+ */
+export interface BTreeCheck {
+    /** Problems in SQLite's wording and order */
+    errors: string[];
+    /** Cells counted in each B-tree by its root page: the rows of a table, the entries of an index */
+    entryCounts: Map<number, number>;
+    /** Root pages of B-trees with a page that refers back to one above it, which cursors would descend forever */
+    cyclic: Set<number>;
+    /** Cells reported as lying outside their page, by page number */
+    brokenCells: Map<number, Set<number>>;
+}
+
+/**
+ * Layout of one cell, as far as checking it requires.
+ */
+interface CellInfo {
+    /** Bytes the cell occupies on the page */
+    size: number;
+    payloadSize: number;
+    localSize: number;
+    /** Rowid of a table cell, 0 for index cells */
+    key: bigint;
+}
+
+/**
+ * Check the structure of B-trees and of the freelist as SQLite's PRAGMA integrity_check does:
+ * page headers and free space, cell bounds and overlaps, rowid order within and across pages,
+ * overflow chain lengths, and that every page of the file is used exactly once.
+ * Pointer-map pages of auto-vacuum databases are accounted for but their entries are not verified.
+ * @param pager - Pager for the database file
+ * @param roots - Root pages of the B-trees to check, in the order to check them
+ * @param maxErrors - Stop after finding this many problems
+ * @param partial - Only some B-trees are checked, so skip the freelist and pages nothing references
+ * @returns The problems found and what the walk learned about each B-tree
+ */
+export async function checkBTrees(pager: Pager, roots: number[], maxErrors: number, partial: boolean): Promise<BTreeCheck> {
+    const header = parseDatabaseHeader(await pager.getPage(1));
+    const checker = new BTreeChecker(pager, header, await pager.pageCount(), maxErrors);
+    return checker.run(roots, partial);
+}
+
+/**
+ * Walks B-trees page by page, marking every page it reaches. Problems are prefixed with where
+ * they were found, as SQLite words them: the tree and page for page problems, the cell too for
+ * cell problems, and nothing for problems found after a page's cells.
+ */
+class BTreeChecker {
+    private readonly pager: Pager;
+    private readonly header: DatabaseHeader;
+    private readonly pageCount: number;
+    /** Non-zero for each page reached so far, indexed by page number */
+    private readonly referenced: Uint8Array;
+    private readonly errors: string[] = [];
+    private readonly brokenCells = new Map<number, Set<number>>();
+    /** How many more problems to report */
+    private remaining: number;
+    
+    private prefix: 'none' | 'freelist' | 'page' | 'cell' = 'none';
+    /** Root page of the tree being checked */
+    private root = 0;
+    /** Page and cell being checked, for message prefixes */
+    private page = 0;
+    private cell = 0;
+    
+    /** Cells counted in the tree being checked */
+    private entries = 0;
+    private cyclic = false;
+    /** Pages from the root of the tree being checked down to the current page */
+    private readonly path = new Set<number>();
+    
+    /**
+     * @param pager - Pager for the database file
+     * @param header - The database header
+     * @param pageCount - Size of the database in pages
+     * @param maxErrors - Stop after finding this many problems
+     */
+    constructor(pager: Pager, header: DatabaseHeader, pageCount: number, maxErrors: number) {
+        this.pager = pager;
+        this.header = header;
+        this.pageCount = pageCount;
+        this.referenced = new Uint8Array(pageCount + 1);
+        this.remaining = maxErrors;
+    }
+    
+    /**
+     * Check the freelist and the given B-trees, then look for pages neither of them reached.
+     * @param roots - Root pages of the B-trees to check
+     * @param partial - Check only the B-trees
+     * @returns The problems found and what the walk learned about each B-tree
+     */
+    async run(roots: number[], partial: boolean): Promise<BTreeCheck> {
+        const pendingPage = pendingBytePage(this.pager.pageSize);
+        if (pendingPage <= this.pageCount) {
+            this.referenced[pendingPage] = 1;
+        }
+        
+        const autoVacuum = this.header.autoVacuumTopRoot !== 0;
+        if (!partial) {
+            this.prefix = 'freelist';
+            await this.checkList(true, this.header.freelistTrunkPage, this.header.freelistPageCount);
+            this.prefix = 'none';
+            
+            const maxRoot = roots.reduce((max, root) => Math.max(max, root), 0);
+            if (autoVacuum && maxRoot !== this.header.autoVacuumTopRoot) {
+                this.report(`max rootpage (${maxRoot}) disagrees with header (${this.header.autoVacuumTopRoot})`);
+            } else if (!autoVacuum && this.header.incrementalVacuum !== 0) {
+                this.report("incremental_vacuum enabled with a max rootpage of zero");
+            }
+        }
+        
+        const entryCounts = new Map<number, number>();
+        const cyclic = new Set<number>();
+        for (const root of roots) {
+            if (this.remaining === 0) {
+                break;
+            }
+            this.root = root;
+            this.entries = 0;
+            this.cyclic = false;
+            await this.checkTreePage(root, INT64_MAX);
+            entryCounts.set(root, this.entries);
+            if (this.cyclic) {
+                cyclic.add(root);
+            }
+        }
+        
+        if (!partial) {
+            for (let page = 1; page <= this.pageCount && this.remaining > 0; page++) {
+                const isPointerMap = autoVacuum && this.pointerMapPageOf(page) === page;
+                if (!this.referenced[page] && !isPointerMap) {
+                    this.report(`Page ${page}: never used`);
+                }
+                if (this.referenced[page] && isPointerMap) {
+                    this.report(`Page ${page}: pointer map referenced`);
+                }
+            }
+        }
+        return { errors: this.errors, entryCounts, cyclic, brokenCells: this.brokenCells };
+    }
+    
+    /**
+     * Check a page and the subtree beneath it. Cells are visited from last to first, so that each
+     * rowid must be smaller than the one checked before it, starting from the bound the parent sets.
+     * @param pageNumber - Page to check
+     * @param maxKey - Largest rowid the subtree may hold
+     * @returns The depth of the subtree, and its smallest rowid if its cells could be checked
+     */
+    private async checkTreePage(pageNumber: number, maxKey: bigint): Promise<{ depth: number, minKey: bigint | null }> {
+        if (this.remaining === 0 || pageNumber === 0 || this.checkRef(pageNumber)) {
+            return { depth: 0, minKey: null };
+        }
+        const saved = { prefix: this.prefix, page: this.page, cell: this.cell };
+        this.prefix = 'page';
+        this.page = pageNumber;
+        
+        const result = await this.checkCells(pageNumber, maxKey);
+        this.path.delete(pageNumber);
+        this.prefix = saved.prefix;
+        this.page = saved.page;
+        this.cell = saved.cell;
+        return result;
+    }
+    
+    /**
+     * Check the header, cells and children of a page that has just been marked as used.
+     * @param pageNumber - Page to check
+     * @param maxKey - Largest rowid the subtree may hold
+     * @returns The depth of the subtree, and its smallest rowid if its cells could be checked
+     */
+    private async checkCells(pageNumber: number, maxKey: bigint): Promise<{ depth: number, minKey: bigint | null }> {
+        const { usableSize } = this.pager;
+        const data = await this.pager.getPage(pageNumber);
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const header = pageNumber === 1 ? DATABASE_HEADER_SIZE : 0;
+        const type = data[header];
+        const isLeaf = type === 0x0d || type === 0x0a;
+        const isTable = type === 0x0d || type === 0x05;
+        const cellCount = view.getUint16(header + 3);
+        
+        if ((type !== 0x0d && type !== 0x05 && type !== 0x0a && type !== 0x02) || cellCount > Math.floor((this.pager.pageSize - 8) / 6)) {
+            this.report(`btreeInitPage() returns error code ${SQLITE_CORRUPT}`);
+            return { depth: 0, minKey: null };
+        }
+        if (!this.hasValidFreeSpace(data, header, isLeaf, cellCount)) {
+            this.report("free space corruption");
+            return { depth: 0, minKey: null };
+        }
+        this.path.add(pageNumber);
+        
+        this.prefix = 'cell';
+        const contentStart = view.getUint16(header + 5) || 65536;
+        if (isLeaf || !isTable) {
+            this.entries += cellCount;
+        }
+        const cellArray = header + (isLeaf ? 8 : 12);
+        
+        let depth = -1;
+        // Only the first rowid checked on a page may equal the bound from the parent
+        let keyCanBeEqual = true;
+        let checkCoverage = true;
+        /** First and last byte of each cell and freeblock */
+        const extents: Array<[number, number]> = [];
+        
+        if (!isLeaf) {
+            const child = await this.checkTreePage(view.getUint32(header + 8), maxKey);
+            depth = child.depth;
+            maxKey = child.minKey ?? maxKey;
+            keyCanBeEqual = false;
+        }
+        
+        for (let i = cellCount - 1; i >= 0 && this.remaining > 0; i--) {
+            this.cell = i;
+            const offset = view.getUint16(cellArray + i * 2);
+            if (offset < contentStart || offset > usableSize - 4) {
+                this.report(`Offset ${offset} out of range ${contentStart}..${usableSize - 4}`);
+                this.markBroken(pageNumber, i);
+                checkCoverage = false;
+                continue;
+            }
+            const cell = this.parseCell(data, offset, type);
+            if (offset + cell.size > usableSize) {
+                this.report("Extends off end of page");
+                this.markBroken(pageNumber, i);
+                checkCoverage = false;
+                continue;
+            }
+            
+            if (isTable) {
+                if (keyCanBeEqual ? cell.key > maxKey : cell.key >= maxKey) {
+                    this.report(`Rowid ${cell.key} out of order`);
+                }
+                maxKey = cell.key;
+                keyCanBeEqual = false;
+            }
+            
+            if (cell.payloadSize > cell.localSize) {
+                const expected = Math.floor((cell.payloadSize - cell.localSize + usableSize - 5) / (usableSize - 4));
+                await this.checkList(false, view.getUint32(offset + cell.size - 4), expected);
+            }
+            
+            if (!isLeaf) {
+                const child = await this.checkTreePage(view.getUint32(offset), maxKey);
+                maxKey = child.minKey ?? maxKey;
+                keyCanBeEqual = false;
+                if (child.depth !== depth) {
+                    this.report("Child page depth differs");
+                    depth = child.depth;
+                }
+            } else {
+                extents.push([offset, offset + cell.size - 1]);
+            }
+        }
+        const minKey = maxKey;
+        
+        this.prefix = 'none';
+        if (checkCoverage && this.remaining > 0) {
+            if (!isLeaf) {
+                for (let i = cellCount - 1; i >= 0; i--) {
+                    const offset = view.getUint16(cellArray + i * 2);
+                    extents.push([offset, offset + this.parseCell(data, offset, type).size - 1]);
+                }
+            }
+            for (let freeblock = view.getUint16(header + 1); freeblock > 0; freeblock = view.getUint16(freeblock)) {
+                extents.push([freeblock, freeblock + view.getUint16(freeblock + 2) - 1]);
+            }
+            this.checkCoverage(pageNumber, extents, contentStart, data[header + 7]);
+        }
+        return { depth: depth + 1, minKey };
+    }
+    
+    /**
+     * Remember a cell that lies outside its page, which the rows check cannot read.
+     * @param pageNumber - The page
+     * @param cell - Number of the cell on the page
+     */
+    private markBroken(pageNumber: number, cell: number): void {
+        const cells = this.brokenCells.get(pageNumber) ?? new Set<number>();
+        cells.add(cell);
+        this.brokenCells.set(pageNumber, cells);
+    }
+    
+    /**
+     * Check that the cells and freeblocks of a page do not overlap, and that the gaps between
+     * them add up to the fragmented byte count in the page header.
+     * @param pageNumber - The page
+     * @param extents - First and last byte of each cell and freeblock
+     * @param contentStart - Start of the cell content area
+     * @param fragmentedBytes - Fragmented byte count from the page header
+     */
+    private checkCoverage(pageNumber: number, extents: Array<[number, number]>, contentStart: number, fragmentedBytes: number): void {
+        extents.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+        let fragmented = 0;
+        let previousEnd = contentStart - 1;
+        let checked = 0;
+        for (const [start, end] of extents) {
+            checked++;
+            if (previousEnd >= start) {
+                this.report(`Multiple uses for byte ${start} of page ${pageNumber}`);
+                break;
+            }
+            fragmented += start - previousEnd - 1;
+            previousEnd = end;
+        }
+        fragmented += this.pager.usableSize - previousEnd - 1;
+        // The count is only meaningful once every extent has been seen
+        if (checked === extents.length && fragmented !== fragmentedBytes) {
+            this.report(`Fragmentation of ${fragmented} bytes reported as ${fragmentedBytes} on page ${pageNumber}`);
+        }
+    }
+    
+    /**
+     * Check the pages of an overflow chain or of the freelist. Freelist trunk pages list leaf pages,
+     * which count towards the length too.
+     * @param isFreelist - True for the freelist, false for an overflow chain
+     * @param firstPage - First page of the list, 0 if it is empty
+     * @param expected - Number of pages the list should have
+     */
+    private async checkList(isFreelist: boolean, firstPage: number, expected: number): Promise<void> {
+        const errorsAtStart = this.errors.length;
+        let missing = expected;
+        let page = firstPage;
+        while (page !== 0 && this.remaining > 0) {
+            if (this.checkRef(page)) {
+                break;
+            }
+            missing--;
+            const data = await this.pager.getPage(page);
+            const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+            if (isFreelist) {
+                const leafCount = view.getUint32(4);
+                if (leafCount > Math.floor(this.pager.usableSize / 4) - 2) {
+                    this.report(`freelist leaf count too big on page ${page}`);
+                    missing--;
+                } else {
+                    for (let i = 0; i < leafCount; i++) {
+                        this.checkRef(view.getUint32(8 + i * 4));
+                    }
+                    missing -= leafCount;
+                }
+            }
+            page = view.getUint32(0);
+        }
+        if (missing !== 0 && this.errors.length === errorsAtStart) {
+            this.report(`${isFreelist ? 'size' : 'overflow list length'} is ${expected - missing} but should be ${expected}`);
+        }
+    }
+    
+    /**
+     * Mark a page as used, reporting it if it does not exist or was used before.
+     * @param page - Page number
+     * @returns True if the page must not be read
+     */
+    private checkRef(page: number): boolean {
+        if (page > this.pageCount || page === 0) {
+            this.report(`invalid page number ${page}`);
+            return true;
+        }
+        if (this.referenced[page]) {
+            this.report(`2nd reference to page ${page}`);
+            if (this.path.has(page)) {
+                this.cyclic = true;
+            }
+            return true;
+        }
+        this.referenced[page] = 1;
+        return false;
+    }
+    
+    /**
+     * Validate the free space bookkeeping of a page header: the freeblock chain must ascend
+     * within the cell content area, and the free bytes must fit between the cell pointers and the page end.
+     * @param data - Page contents
+     * @param header - Offset of the B-tree page header
+     * @param isLeaf - Whether the page is a leaf
+     * @param cellCount - Number of cells on the page
+     * @returns True if the free space is consistent
+     */
+    private hasValidFreeSpace(data: Uint8Array, header: number, isLeaf: boolean, cellCount: number): boolean {
+        const { usableSize } = this.pager;
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const firstCell = header + (isLeaf ? 8 : 12) + 2 * cellCount;
+        const contentStart = view.getUint16(header + 5) || 65536;
+        let free = data[header + 7] + contentStart;
+        
+        let freeblock = view.getUint16(header + 1);
+        if (freeblock > 0) {
+            if (freeblock < contentStart) {
+                return false;
+            }
+            let next: number;
+            let size: number;
+            while (true) {
+                if (freeblock > usableSize - 4) {
+                    return false;
+                }
+                next = view.getUint16(freeblock);
+                size = view.getUint16(freeblock + 2);
+                free += size;
+                if (next <= freeblock + size + 3) {
+                    break;
+                }
+                freeblock = next;
+            }
+            if (next > 0 || freeblock + size > usableSize) {
+                return false;
+            }
+        }
+        return free <= usableSize && free >= firstCell;
+    }
+    
+    /**
+     * Measure a cell from its header fields.
+     * @param data - Page contents
+     * @param offset - Offset of the cell
+     * @param type - Page type
+     * @returns The cell's size, payload and key
+     */
+    private parseCell(data: Uint8Array, offset: number, type: number): CellInfo {
+        if (type === 0x05) {
+            const [key, keyBytes] = readVarintBigInt(data, offset + 4);
+            return { size: 4 + keyBytes, payloadSize: 0, localSize: 0, key };
+        }
+        
+        let position = offset + (type === 0x02 ? 4 : 0);
+        const [payloadSize, payloadSizeBytes] = readVarint(data, position);
+        position += payloadSizeBytes;
+        let key = 0n;
+        if (type === 0x0d) {
+            const [rowid, rowidBytes] = readVarintBigInt(data, position);
+            key = rowid;
+            position += rowidBytes;
+        }
+        
+        const localSize = getLocalPayloadSize(payloadSize, this.pager.usableSize, type === 0x0d);
+        const headerSize = position - offset;
+        const size = localSize < payloadSize ? headerSize + localSize + 4 : Math.max(4, headerSize + payloadSize);
+        return { size, payloadSize, localSize, key };
+    }
+    
+    /**
+     * Find the pointer-map page that covers a page in an auto-vacuum database.
+     * @param page - Page number, at least 2
+     * @returns The pointer-map page, which covers itself
+     */
+    private pointerMapPageOf(page: number): number {
+        if (page < 2) {
+            return 0;
+        }
+        const pagesPerMap = Math.floor(this.pager.usableSize / 5) + 1;
+        const mapPage = Math.floor((page - 2) / pagesPerMap) * pagesPerMap + 2;
+        return mapPage === pendingBytePage(this.pager.pageSize) ? mapPage + 1 : mapPage;
+    }
+    
+    /**
+     * Record a problem, unless enough have been found already.
+     * @param message - Description of the problem, without its location
+     */
+    private report(message: string): void {
+        if (this.remaining === 0) {
+            return;
+        }
+        this.remaining--;
+        this.errors.push(this.location() + message);
+    }
+    
+    private location(): string {
+        switch (this.prefix) {
+            case 'none':
+                return '';
+            case 'freelist':
+                return 'Freelist: ';
+            case 'page':
+                return `Tree ${this.root} page ${this.page}: `;
+            case 'cell':
+                return `Tree ${this.root} page ${this.page} cell ${this.cell}: `;
+        }
+    }
+}
@@ -0,0 +1,271 @@
+import { access, open, unlink } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { constants } from 'fs';
+import { randomInt } from 'crypto';
+import { dirname } from 'path';
+import { DEFAULT_BUSY_TIMEOUT, RETRY_INTERVAL, isGone } from './lock.js';
+
+/**
+ * Bytes every journal header starts with.
+ */
+const JOURNAL_MAGIC = [0xd9, 0xd5, 0x05, 0xf9, 0x20, 0xa1, 0x63, 0xd7];
+
+/**
+ * Size of the fields of a journal header; the header takes up a whole sector.
+ */
+const JOURNAL_HEADER_FIELDS_SIZE = 28;
+
+/**
+ * Sector size recorded in the journals this tool writes, SQLite's default.
+ */
+const SECTOR_SIZE = 512;
+
+/**
+ * A page count of all ones means the records run to the end of the journal.
+ */
+const RECORDS_TO_END = 0xffffffff;
+
+/**
+ * Marks the writer this tool records in the unused rest of the first journal header, which
+ * SQLite leaves zeroed and never reads.
+ */
+const OWNER_MARK = 'owner:';
+
+/**
+ * A rollback journal in SQLite's format: before a transaction changes the database file, the
+ * original contents of every page it changes are written to the journal and synced to disk.
+ * Deleting the journal commits the transaction. A journal still there when the database is
+ * opened is hot: a writer died before committing, and playing the journal back restores the
+ * database as it was. The journal holds one or more segments, each a sector-sized header with
+ * the page size, the number of pages recorded and the database size before the transaction,
+ * followed by the records, each a page number, the original page and a checksum.
+ * The journals this tool writes also name the process that wrote them, so that only a journal
+ * known to be left by a writer of this tool that died is ever played back.
+ */
+export class Journal {
+    readonly path: string;
+    /** Identity of the process that writes the journal, as its lock records it */
+    private readonly owner: string | null;
+    
+    /**
+     * @param path - Path to the journal, the database's path with `-journal` appended
+     * @param owner - Identity of this process if it holds the write lock
+     */
+    constructor(path: string, owner: string | null = null) {
+        this.path = path;
+        this.owner = owner;
+    }
+    
+    /**
+     * Write the original contents of the pages a transaction is about to change and wait until
+     * they are on disk. As SQLite does, the header's page count is filled in only after the
+     * records are synced, so that a journal torn by a crash never claims pages it lacks.
+     * @param pageSize - Size of database pages in bytes
+     * @param databaseSize - Size of the database in pages before the transaction
+     * @param pages - Number and original contents of each page
+     */
+    async write(pageSize: number, databaseSize: number, pages: AsyncIterable<[number, Uint8Array]>): Promise<void> {
+        const fileHandler = await open(this.path, constants.O_RDWR | constants.O_CREAT | constants.O_TRUNC);
+        try {
+            const nonce = randomInt(0x100000000);
+            const header = new Uint8Array(SECTOR_SIZE);
+            const view = new DataView(header.buffer);
+            header.set(JOURNAL_MAGIC);
+            view.setUint32(12, nonce);
+            view.setUint32(16, databaseSize);
+            view.setUint32(20, SECTOR_SIZE);
+            view.setUint32(24, pageSize);
+            if (this.owner !== null) {
+                header.set(new TextEncoder().encode(`${OWNER_MARK}${this.owner}\n`), JOURNAL_HEADER_FIELDS_SIZE);
+            }
+            await fileHandler.write(header, 0, header.length, 0);
+            
+            let offset = SECTOR_SIZE;
+            let count = 0;
+            const record = new Uint8Array(pageSize + 8);
+            const recordView = new DataView(record.buffer);
+            for await (const [pageNumber, data] of pages) {
+                recordView.setUint32(0, pageNumber);
+                record.set(data, 4);
+                recordView.setUint32(4 + pageSize, pageChecksum(data, nonce));
+                await fileHandler.write(record, 0, record.length, offset);
+                offset += record.length;
+                count++;
+            }
+            await fileHandler.sync();
+            
+            view.setUint32(8, count);
+            await fileHandler.write(header, 0, JOURNAL_HEADER_FIELDS_SIZE, 0);
+            await fileHandler.sync();
+        } finally {
+            await fileHandler.close();
+        }
+        // The journal's directory entry must be durable too, or a crash could lose the whole journal
+        const directory = await open(dirname(this.path), constants.O_RDONLY);
+        try {
+            await directory.sync();
+        } finally {
+            await directory.close();
+        }
+    }
+    
+    /**
+     * Wait until no journal is left beside the database. A journal is either being committed,
+     * which is waited out, or hot, left by a writer that died. A hot journal of this tool is
+     * played back, but only by a process holding the write lock, and only once the writer it
+     * names is known to be gone. Any other journal may belong to a writer still at work, such as
+     * sqlite3, whose locks cannot be seen from here, so it is never touched.
+     * @param database - Open file handle to the database, writable if this process holds the lock
+     * @param holdsLock - Whether this process holds the write lock
+     * @param timeout - Milliseconds to wait before giving up
+     */
+    async settle(database: FileHandle, holdsLock: boolean, timeout: number = DEFAULT_BUSY_TIMEOUT): Promise<void> {
+        const deadline = Date.now() + timeout;
+        while (await this.exists()) {
+            const owner = await this.readOwner();
+            if (holdsLock && owner !== null && await isGone(owner)) {
+                await this.rollback(database);
+                return;
+            }
+            if (Date.now() >= deadline) {
+                throw new Error("database is locked");
+            }
+            await new Promise(resolve => setTimeout(resolve, RETRY_INTERVAL));
+        }
+    }
+    
+    /**
+     * Check whether the journal exists, left by a writer that is committing or that died.
+     * @returns True if the file exists
+     */
+    async exists(): Promise<boolean> {
+        try {
+            await access(this.path);
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return false;
+            }
+            throw error;
+        }
+    }
+    
+    /**
+     * Read which process of this tool wrote the journal.
+     * @returns Its identity, or null if there is no journal or another program wrote it
+     */
+    private async readOwner(): Promise<string | null> {
+        let fileHandler: FileHandle;
+        try {
+            fileHandler = await open(this.path, constants.O_RDONLY);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+        try {
+            const padding = new Uint8Array(SECTOR_SIZE - JOURNAL_HEADER_FIELDS_SIZE);
+            await fileHandler.read(padding, 0, padding.length, JOURNAL_HEADER_FIELDS_SIZE);
+            const text = new TextDecoder().decode(padding);
+            const end = text.indexOf('\n');
+            return text.startsWith(OWNER_MARK) && end !== -1 ? text.slice(OWNER_MARK.length, end) : null;
+        } finally {
+            await fileHandler.close();
+        }
+    }
+    
+    /**
+     * Delete the journal, which commits the transaction it belongs to.
+     */
+    async remove(): Promise<void> {
+        await unlink(this.path);
+    }
+    
+    /**
+     * Roll back the transaction of a hot journal: copy the original pages back into the database,
+     * truncate the database to its size before the transaction, and delete the journal. Playback
+     * stops at the first record that is incomplete or fails its checksum; the crash happened while
+     * the journal was being written, before the database itself was touched.
+     * @param database - Open file handle to the database, writable
+     * @returns False if there was no journal
+     */
+    async rollback(database: FileHandle): Promise<boolean> {
+        let fileHandler: FileHandle;
+        try {
+            fileHandler = await open(this.path, constants.O_RDONLY);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return false;
+            }
+            throw error;
+        }
+        
+        try {
+            const { size } = await fileHandler.stat();
+            let originalSize: number | null = null;
+            let offset = 0;
+            segments: while (offset + JOURNAL_HEADER_FIELDS_SIZE <= size) {
+                const header = new Uint8Array(JOURNAL_HEADER_FIELDS_SIZE);
+                await fileHandler.read(header, 0, header.length, offset);
+                const view = new DataView(header.buffer);
+                const sectorSize = view.getUint32(20);
+                const pageSize = view.getUint32(24);
+                if (JOURNAL_MAGIC.some((byte, i) => header[i] !== byte) || !isPowerOfTwo(sectorSize, 32, 65536) || !isPowerOfTwo(pageSize, 512, 65536)) {
+                    break;
+                }
+                let count = view.getUint32(8);
+                const nonce = view.getUint32(12);
+                // The first header's size is the one from before the transaction
+                originalSize ??= view.getUint32(16) * pageSize;
+                offset += sectorSize;
+                if (count === RECORDS_TO_END) {
+                    count = Math.floor((size - offset) / (pageSize + 8));
+                }
+                
+                const record = new Uint8Array(pageSize + 8);
+                const recordView = new DataView(record.buffer);
+                for (let i = 0; i < count; i++) {
+                    const { bytesRead } = await fileHandler.read(record, 0, record.length, offset);
+                    const pageNumber = recordView.getUint32(0);
+                    const data = record.subarray(4, 4 + pageSize);
+                    if (bytesRead < record.length || pageNumber === 0 || recordView.getUint32(4 + pageSize) !== pageChecksum(data, nonce)) {
+                        break segments;
+                    }
+                    await database.write(data, 0, pageSize, (pageNumber - 1) * pageSize);
+                    offset += record.length;
+                }
+                // The next segment's header starts on a sector boundary
+                offset = Math.ceil(offset / sectorSize) * sectorSize;
+            }
+            
+            if (originalSize !== null) {
+                await database.truncate(originalSize);
+                await database.sync();
+            }
+        } finally {
+            await fileHandler.close();
+        }
+        await this.remove();
+        return true;
+    }
+}
+
+/**
+ * Compute the checksum of a journal record, which samples every 200th byte of the page, from the
+ * end, on top of the journal's random nonce. It is meant to catch torn writes, not corruption.
+ * @param data - The page
+ * @param nonce - The nonce from the journal header
+ * @returns The checksum
+ */
+function pageChecksum(data: Uint8Array, nonce: number): number {
+    let checksum = nonce;
+    for (let i = data.length - 200; i > 0; i -= 200) {
+        checksum = (checksum + data[i]) >>> 0;
+    }
+    return checksum;
+}
+
+function isPowerOfTwo(value: number, min: number, max: number): boolean {
+    return value >= min && value <= max && (value & (value - 1)) === 0;
+}
@@ -0,0 +1,216 @@
+import { link, open, readFile, unlink } from 'fs/promises';
+import { constants } from 'fs';
+import { randomInt } from 'crypto';
+
+/**
+ * How long to wait for another process to release a lock, like SQLite's busy timeout.
+ */
+export const DEFAULT_BUSY_TIMEOUT = 5000;
+
+/**
+ * Delay between attempts to take a lock that is held.
+ */
+export const RETRY_INTERVAL = 20;
+
+/**
+ * A lock file as one process saw it. A file created later at the same path has another inode
+ * or another holder, so a process that judged a lock stale can tell whether it is still the same.
+ */
+interface LockFile {
+    ino: number;
+    /** The holder's process ID and start time, as written to the file */
+    content: string;
+}
+
+/**
+ * An exclusive advisory lock on a database, held by creating a lock file beside it. Every
+ * process of this tool that writes to the database, or rolls back a hot journal, holds the lock
+ * while it does, so no two of them interleave their writes. The file records the holder's
+ * process ID and start time, so that a lock left behind by a process that died can be taken
+ * over, even once the ID belongs to another process. Node has no flock() or fcntl() locks,
+ * so taking over a stale lock is serialised by a takeover marker, itself a lock file, that
+ * only one process can create for a given lock file.
+ */
+export class FileLock {
+    private readonly path: string;
+    /** The holder's process ID and start time, as recorded in the lock file */
+    readonly holder: string;
+    
+    /**
+     * @param path - Path to the lock file
+     * @param holder - The identity of this process
+     */
+    private constructor(path: string, holder: string) {
+        this.path = path;
+        this.holder = holder;
+    }
+    
+    /**
+     * Take the lock, waiting while another process holds it.
+     * @param path - Path to the lock file
+     * @param timeout - Milliseconds to wait before giving up
+     * @returns The lock, held until released
+     */
+    static async acquire(path: string, timeout: number = DEFAULT_BUSY_TIMEOUT): Promise<FileLock> {
+        const deadline = Date.now() + timeout;
+        const content = `${await processIdentity(process.pid)}\n`;
+        for (;;) {
+            if (await createLockFile(path, content)) {
+                return new FileLock(path, content.trimEnd());
+            }
+            const holder = await readLockFile(path);
+            if (holder === null) {
+                // Released since the last attempt
+                continue;
+            }
+            if (await isStale(holder)) {
+                await breakLock(path, holder, content);
+                continue;
+            }
+            if (Date.now() >= deadline) {
+                throw new Error("database is locked");
+            }
+            await new Promise(resolve => setTimeout(resolve, RETRY_INTERVAL));
+        }
+    }
+    
+    /**
+     * Give up the lock.
+     */
+    async release(): Promise<void> {
+        // Only a stale lock is ever removed by another process, so the file is still this one
+        await unlink(this.path);
+    }
+}
+
+/**
+ * Create a lock file unless one exists. The content is written to a file of its own first and
+ * then linked into place, so that no process ever sees a lock file without its holder.
+ * @param path - Path to the lock file
+ * @param content - The holder's identity
+ * @returns The new lock file, or null if the lock is held
+ */
+async function createLockFile(path: string, content: string): Promise<LockFile | null> {
+    const temporary = uniquePath(path);
+    const fileHandler = await open(temporary, constants.O_WRONLY | constants.O_CREAT | constants.O_EXCL);
+    try {
+        await fileHandler.write(content);
+        const { ino } = await fileHandler.stat();
+        await link(temporary, path);
+        return { ino, content };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+            return null;
+        }
+        throw error;
+    } finally {
+        await fileHandler.close();
+        await unlink(temporary);
+    }
+}
+
+/**
+ * Read the lock file as it is now.
+ * @param path - Path to the lock file
+ * @returns The file, or null if there is none
+ */
+async function readLockFile(path: string): Promise<LockFile | null> {
+    try {
+        const fileHandler = await open(path, constants.O_RDONLY);
+        try {
+            const { ino } = await fileHandler.stat();
+            return { ino, content: await fileHandler.readFile('utf-8') };
+        } finally {
+            await fileHandler.close();
+        }
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Delete a stale lock file, provided it is still the one judged stale. Deleting it is claimed
+ * by creating a takeover marker named after its inode, so only one process at a time can check
+ * and delete that file, and no process can delete a lock taken after it. A marker left by a
+ * process that died while taking over is itself broken the same way. A process that cannot
+ * claim the marker leaves the lock alone and tries again later.
+ * @param path - Path to the lock file
+ * @param stale - The lock file as it was seen
+ * @param content - The identity of this process
+ */
+async function breakLock(path: string, stale: LockFile, content: string): Promise<void> {
+    const marker = `${path}.${stale.ino}.break`;
+    if (!await createLockFile(marker, content)) {
+        const claimant = await readLockFile(marker);
+        if (claimant !== null && await isStale(claimant)) {
+            await breakLock(marker, claimant, content);
+        }
+        return;
+    }
+    try {
+        const current = await readLockFile(path);
+        if (current !== null && current.ino === stale.ino && current.content === stale.content) {
+            await unlink(path);
+        }
+    } finally {
+        await unlink(marker);
+    }
+}
+
+/**
+ * Check whether a lock file was left behind by a process that no longer runs.
+ * @param file - The lock file
+ * @returns True if the holder has died, or its process ID now belongs to another process
+ */
+async function isStale(file: LockFile): Promise<boolean> {
+    return file.content.endsWith('\n') && await isGone(file.content.trimEnd());
+}
+
+/**
+ * Check whether the process a lock file or journal names no longer runs.
+ * @param identity - The process ID and start time, as written by this tool
+ * @returns True if the process has died, or its process ID now belongs to another process
+ */
+export async function isGone(identity: string): Promise<boolean> {
+    const [pid, startTime] = identity.split(' ');
+    if (!/^\d+$/.test(pid)) {
+        return false;
+    }
+    try {
+        // Signal 0 only checks that the process exists
+        process.kill(Number(pid), 0);
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+    const [, currentStartTime] = (await processIdentity(Number(pid))).split(' ');
+    return startTime !== undefined && currentStartTime !== undefined && startTime !== currentStartTime;
+}
+
+/**
+ * Identify a process by its ID and, where /proc tells it, the time it started, which tells it
+ * apart from a later process that is given the same ID.
+ * @param pid - Process ID
+ * @returns The ID, followed by the start time if known
+ */
+async function processIdentity(pid: number): Promise<string> {
+    try {
+        const text = await readFile(`/proc/${pid}/stat`, 'utf-8');
+        // The command name in parentheses may contain spaces; the start time is the 20th field after it
+        const startTime = text.slice(text.lastIndexOf(')') + 2).split(' ')[19];
+        return startTime === undefined ? `${pid}` : `${pid} ${startTime}`;
+    } catch {
+        return `${pid}`;
+    }
+}
+
+/**
+ * Make up a path beside the lock file that no other process uses.
+ * @param path - Path to the lock file
+ * @returns The path
+ */
+function uniquePath(path: string): string {
+    return `${path}.${process.pid}.${randomInt(0x100000000).toString(16)}`;
+}
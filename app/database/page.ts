@@ -1,80 +1,181 @@
-import type { FileHandle } from 'fs/promises';
+import { readVarint, readVarintBigInt } from '../utils/varint.js';
 
 /**
- * Read the cell count from a page header.
- * @param fileHandler - Open file handle to the database
- * @param pageOffset - Byte offset of the page in the file
- * @param isPage1 - Whether this is page 1 (has 100-byte header offset)
- * @returns The number of cells on the page
+ * A B-tree page with its header fields parsed.
  */
-export async function readPageHeader(fileHandler: FileHandle, pageOffset: number, isPage1: boolean): Promise<number> {
-    const headerOffset = isPage1 ? 100 : 0;
-    const buffer = new Uint8Array(12);
-    await fileHandler.read(buffer, 0, 12, pageOffset + headerOffset);
-    return new DataView(buffer.buffer).getUint16(3);
+export interface BTreePage {
+    pageNumber: number;
+    /** Raw page contents, including the 100-byte database header on page 1 */
+    data: Uint8Array;
+    /** Offset of the B-tree page header within the page (100 on page 1, otherwise 0) */
+    headerOffset: number;
+    /** Page type (0x0d = table leaf, 0x05 = table interior, 0x0a = index leaf, 0x02 = index interior) */
+    type: number;
+    firstFreeblock: number;
+    cellCount: number;
+    cellContentStart: number;
+    fragmentedFreeBytes: number;
+    /** Right-most child page of an interior page, null on leaf pages */
+    rightmostPointer: number | null;
+    /** Byte offset of each cell within the page */
+    cellPointers: number[];
 }
 
 /**
- * Read the type byte from a page header.
- * @param fileHandler - Open file handle to the database
- * @param pageOffset - Byte offset of the page in the file
- * @param isPage1 - Whether this is page 1 (has 100-byte header offset)
- * @returns The page type (0x0d = table leaf, 0x05 = table interior, 0x0a = index leaf, 0x02 = index interior)
+ * Payload of a B-tree cell together with the header fields that precede it.
  */
-export async function readPageType(fileHandler: FileHandle, pageOffset: number, isPage1: boolean): Promise<number> {
-    const headerOffset = isPage1 ? 100 : 0;
-    const buffer = new Uint8Array(1);
-    await fileHandler.read(buffer, 0, 1, pageOffset + headerOffset);
-    return buffer[0];
+export interface CellPayload {
+    /** Complete payload, reassembled from overflow pages if necessary */
+    payload: Uint8Array;
+    /** Integer key of a table leaf cell */
+    rowid?: bigint;
+    /** Left child page of an interior cell */
+    leftChildPage?: number;
 }
 
 /**
- * Read the rightmost child page pointer from an interior page header.
- * @param fileHandler - Open file handle to the database
- * @param pageOffset - Byte offset of the page in the file
- * @param isPage1 - Whether this is page 1 (has 100-byte header offset)
- * @returns The page number of the rightmost child
+ * Locally stored part of a cell payload, before any overflow pages are read.
  */
-export async function readRightmostPointer(fileHandler: FileHandle, pageOffset: number, isPage1: boolean): Promise<number> {
-    const headerOffset = isPage1 ? 100 : 0;
-    const buffer = new Uint8Array(12);
-    await fileHandler.read(buffer, 0, 12, pageOffset + headerOffset);
-    return new DataView(buffer.buffer).getUint32(8);
+export interface LocalPayload {
+    payloadSize: number;
+    /** Payload bytes stored on the page itself */
+    local: Uint8Array;
+    /** First overflow page, or 0 if the payload is stored entirely on the page */
+    overflowPage: number;
+    rowid?: bigint;
+    leftChildPage?: number;
 }
 
 /**
- * Read the cell pointer array from a page header.
- * @param fileHandler - Open file handle to the database
- * @param pageOffset - Byte offset of the page in the file
- * @param isPage1 - Whether this is page 1 (has 100-byte header offset)
- * @param cellCount - Number of cells on the page
- * @param isInterior - Whether this is an interior page (affects pointer array offset)
- * @returns Array of byte offsets for each cell on the page
+ * Parse the B-tree page header and cell pointer array of a page.
+ * @param pageNumber - Page number (1-based)
+ * @param data - Raw page contents
+ * @returns The parsed page
  */
-export async function readCellPointers(fileHandler: FileHandle, pageOffset: number, isPage1: boolean, cellCount: number, isInterior: boolean = false): Promise<number[]> {
-    const headerOffset = isPage1 ? 100 : 0;
-    const cellArrayOffset = isInterior ? 12 : 8;
-    const arraySize = cellCount * 2;
-    const buffer = new Uint8Array(arraySize);
-    await fileHandler.read(buffer, 0, arraySize, pageOffset + headerOffset + cellArrayOffset);
+export function parseBTreePage(pageNumber: number, data: Uint8Array): BTreePage {
+    const headerOffset = pageNumber === 1 ? 100 : 0;
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
     
-    const view = new DataView(buffer.buffer);
-    const pointers: number[] = [];
+    const type = data[headerOffset];
+    if (type !== 0x0d && type !== 0x05 && type !== 0x0a && type !== 0x02) {
+        throw new Error(`Page ${pageNumber} is not a B-tree page (type ${type})`);
+    }
+    
+    const isInterior = type === 0x05 || type === 0x02;
+    const cellCount = view.getUint16(headerOffset + 3);
+    
+    // A cell content start of zero means 65536
+    const cellContentStart = view.getUint16(headerOffset + 5) || 65536;
+    
+    const cellArrayOffset = headerOffset + (isInterior ? 12 : 8);
+    const cellPointers: number[] = [];
     for (let i = 0; i < cellCount; i++) {
-        pointers.push(view.getUint16(i * 2));
+        cellPointers.push(view.getUint16(cellArrayOffset + i * 2));
+    }
+    
+    return {
+        pageNumber,
+        data,
+        headerOffset,
+        type,
+        firstFreeblock: view.getUint16(headerOffset + 1),
+        cellCount,
+        cellContentStart,
+        fragmentedFreeBytes: data[headerOffset + 7],
+        rightmostPointer: isInterior ? view.getUint32(headerOffset + 8) : null,
+        cellPointers,
+    };
+}
+
+/**
+ * Get the bytes of a cell, from its first byte to the end of the page.
+ * @param page - Parsed B-tree page
+ * @param cellIndex - Index into the cell pointer array
+ * @returns View of the page data starting at the cell
+ */
+export function getCell(page: BTreePage, cellIndex: number): Uint8Array {
+    return page.data.subarray(page.cellPointers[cellIndex]);
+}
+
+/**
+ * Get the page number of a child of an interior page. Every interior cell, of a table or an
+ * index, starts with the page number of its left child.
+ * @param page - Parsed interior page
+ * @param index - Cell index, or cellCount for the right-most child
+ * @returns The child page number
+ */
+export function getChildPage(page: BTreePage, index: number): number {
+    if (index >= page.cellCount) {
+        return page.rightmostPointer!;
     }
-    return pointers;
+    const cell = getCell(page, index);
+    return new DataView(cell.buffer, cell.byteOffset, 4).getUint32(0);
 }
 
 /**
- * Read a cell from a page into a buffer.
- * @param fileHandler - Open file handle to the database
- * @param pageOffset - Byte offset of the page in the file
- * @param cellOffset - Byte offset of the cell within the page
- * @returns Buffer containing the cell data
+ * Read the left child pointer and integer key of a table interior cell.
+ * @param page - Parsed table interior page
+ * @param cellIndex - Index into the cell pointer array
+ * @returns The left child page and the largest rowid stored in that subtree
  */
-export async function readCell(fileHandler: FileHandle, pageOffset: number, cellOffset: number): Promise<Uint8Array> {
-    const buffer = new Uint8Array(2000);
-    await fileHandler.read(buffer, 0, buffer.length, pageOffset + cellOffset);
-    return buffer;
+export function readTableInteriorCell(page: BTreePage, cellIndex: number): { leftChildPage: number, rowid: bigint } {
+    const cell = getCell(page, cellIndex);
+    const leftChildPage = new DataView(cell.buffer, cell.byteOffset, 4).getUint32(0);
+    const [rowid] = readVarintBigInt(cell, 4);
+    return { leftChildPage, rowid };
+}
+
+/**
+ * Parse the header fields of a leaf or index cell and locate its local payload.
+ * @param page - Parsed B-tree page (table leaf, index leaf or index interior)
+ * @param cellIndex - Index into the cell pointer array
+ * @param usableSize - Usable size of a page
+ * @returns The local part of the payload and where its overflow chain starts
+ */
+export function readLocalPayload(page: BTreePage, cellIndex: number, usableSize: number): LocalPayload {
+    const cell = getCell(page, cellIndex);
+    const view = new DataView(cell.buffer, cell.byteOffset, cell.byteLength);
+    
+    const result: LocalPayload = { payloadSize: 0, local: cell, overflowPage: 0 };
+    let offset = 0;
+    if (page.type === 0x02) {
+        result.leftChildPage = view.getUint32(0);
+        offset = 4;
+    }
+    
+    const [payloadSize, payloadSizeBytes] = readVarint(cell, offset);
+    result.payloadSize = payloadSize;
+    offset += payloadSizeBytes;
+    
+    if (page.type === 0x0d) {
+        const [rowid, rowidBytes] = readVarintBigInt(cell, offset);
+        result.rowid = rowid;
+        offset += rowidBytes;
+    }
+    
+    const localSize = getLocalPayloadSize(payloadSize, usableSize, page.type === 0x0d);
+    result.local = cell.subarray(offset, offset + localSize);
+    if (localSize < payloadSize) {
+        result.overflowPage = view.getUint32(offset + localSize);
+    }
+    return result;
+}
+
+/**
+ * Compute how many bytes of a payload are stored on the B-tree page itself, following
+ * the overflow rules in section 1.6 of https://www.sqlite.org/fileformat.html.
+ * @param payloadSize - Total payload size in bytes
+ * @param usableSize - Usable size of a page
+ * @param isTableLeaf - True for table leaf cells, false for index cells
+ * @returns Number of payload bytes stored locally
+ */
+export function getLocalPayloadSize(payloadSize: number, usableSize: number, isTableLeaf: boolean): number {
+    const maxLocal = isTableLeaf ? usableSize - 35 : Math.floor((usableSize - 12) * 64 / 255) - 23;
+    if (payloadSize <= maxLocal) {
+        return payloadSize;
+    }
+    
+    const minLocal = Math.floor((usableSize - 12) * 32 / 255) - 23;
+    const local = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+    return local <= maxLocal ? local : minLocal;
 }
@@ -0,0 +1,396 @@
+import type { FileHandle } from 'fs/promises';
+import { parseBTreePage, readLocalPayload } from './page.js';
+import { parseDatabaseHeader, createDatabaseHeader, pendingBytePage, DATABASE_HEADER_SIZE } from './header.js';
+import { textEncodingFromHeader } from '../utils/encoding.js';
+import type { TextEncoding } from '../utils/encoding.js';
+import type { BTreePage, CellPayload } from './page.js';
+import type { Wal } from './wal.js';
+import type { Journal } from './journal.js';
+
+/**
+ * Default cache budget in bytes, matching SQLite's default cache_size of -2000 (2000 KiB).
+ */
+export const DEFAULT_CACHE_BUDGET = 2000 * 1024;
+
+/**
+ * Page size of new databases, SQLite's default.
+ */
+export const DEFAULT_PAGE_SIZE = 4096;
+
+/**
+ * Reads database pages from disk and keeps recently used pages in an LRU cache,
+ * so that B-tree traversals issue one read per page instead of one per header field.
+ * In WAL mode a page's latest committed image in the WAL takes precedence over the main file.
+ * Changed pages are held in memory, where reads see them, until commit writes them all to the file,
+ * after saving their original contents in the rollback journal so that a crash cannot leave the file
+ * half written.
+ */
+export class Pager {
+    readonly pageSize: number;
+    readonly usableSize: number;
+    /** Encoding of all text in the database */
+    readonly textEncoding: TextEncoding;
+    
+    private readonly fileHandler: FileHandle;
+    private readonly wal: Wal | null;
+    private readonly journal: Journal | null;
+    private readonly maxCachedPages: number;
+    /** Map iteration order is insertion order, so the first entry is the least recently used */
+    private readonly cache = new Map<number, { data: Uint8Array, btree?: BTreePage }>();
+    /** New contents of the pages changed since the last commit; these are never evicted */
+    private readonly dirty = new Map<number, Uint8Array>();
+    /** Size of the database in pages, including pages allocated since the last commit; read on first use */
+    private size: number | null = null;
+    /** Whether the changes since the last commit include the schema, which bumps the schema cookie */
+    private schemaChanged = false;
+    /** Whether the file is empty, so that page 1 only exists in memory until the first commit */
+    private isNew = false;
+    
+    /**
+     * @param fileHandler - Open file handle to the database
+     * @param pageSize - Size of database pages in bytes
+     * @param usableSize - Page size minus the reserved bytes at the end of each page
+     * @param textEncoding - Encoding of all text in the database
+     * @param wal - Committed contents of the database's WAL, or null if it has none
+     * @param journal - Rollback journal of the database, or null if it is only read
+     * @param cacheBudget - Maximum number of bytes of page data to keep cached
+     */
+    constructor(fileHandler: FileHandle, pageSize: number, usableSize: number, textEncoding: TextEncoding, wal: Wal | null = null, journal: Journal | null = null, cacheBudget: number = DEFAULT_CACHE_BUDGET) {
+        this.fileHandler = fileHandler;
+        this.wal = wal;
+        this.journal = journal;
+        this.pageSize = pageSize;
+        this.usableSize = usableSize;
+        this.textEncoding = textEncoding;
+        this.maxCachedPages = Math.max(1, Math.floor(cacheBudget / pageSize));
+    }
+    
+    /**
+     * Create a pager for a database file, reading the page size, reserved bytes and text encoding from its header.
+     * An empty file opened for writing is a new database, which gets its header on the first commit.
+     * @param fileHandler - Open file handle to the database
+     * @param wal - Committed contents of the database's WAL, or null if it has none
+     * @param journal - Rollback journal of the database, or null if it is only read
+     * @param cacheBudget - Maximum number of bytes of page data to keep cached
+     * @returns The pager
+     */
+    static async open(fileHandler: FileHandle, wal: Wal | null = null, journal: Journal | null = null, cacheBudget: number = DEFAULT_CACHE_BUDGET): Promise<Pager> {
+        if (journal && !wal && (await fileHandler.stat()).size === 0) {
+            const pager = new Pager(fileHandler, DEFAULT_PAGE_SIZE, DEFAULT_PAGE_SIZE, 'utf-8', null, journal, cacheBudget);
+            pager.isNew = true;
+            pager.startDatabase();
+            return pager;
+        }
+        
+        const data = new Uint8Array(DATABASE_HEADER_SIZE);
+        if (!await wal?.readPage(1, data)) {
+            await fileHandler.read(data, 0, DATABASE_HEADER_SIZE, 0);
+        }
+        const { pageSize, reservedBytes, textEncoding } = parseDatabaseHeader(data);
+        if (wal && wal.pageSize !== pageSize) {
+            throw new Error(`WAL page size ${wal.pageSize} does not match the database page size ${pageSize}`);
+        }
+        return new Pager(fileHandler, pageSize, pageSize - reservedBytes, textEncodingFromHeader(textEncoding), wal, journal, cacheBudget);
+    }
+    
+    /**
+     * Get the raw contents of a page, reading it from disk if it is not cached.
+     * @param pageNumber - Page number (1-based)
+     * @returns The page data; callers must not modify it
+     */
+    async getPage(pageNumber: number): Promise<Uint8Array> {
+        return (await this.getEntry(pageNumber)).data;
+    }
+    
+    /**
+     * Get the size of the database in pages. The header records it, but writers older than
+     * SQLite 3.7.0 leave it stale, which shows as a change counter it was not valid for;
+     * the file size counts the pages then. In WAL mode the last committed transaction records it.
+     * @returns Number of pages in the database
+     */
+    async pageCount(): Promise<number> {
+        if (this.size === null) {
+            this.size = await this.readPageCount();
+        }
+        return this.size;
+    }
+    
+    /**
+     * Replace the contents of a page. The file is not touched until commit.
+     * @param pageNumber - Page number (1-based)
+     * @param data - The new contents, a whole page; the pager keeps it, so callers must not modify it afterwards
+     */
+    writePage(pageNumber: number, data: Uint8Array): void {
+        if (data.length !== this.pageSize) {
+            throw new Error(`Page ${pageNumber} written with ${data.length} bytes instead of ${this.pageSize}`);
+        }
+        this.dirty.set(pageNumber, data);
+        this.cache.delete(pageNumber);
+    }
+    
+    /**
+     * Get a page for new content, taking it from the freelist if it has one and otherwise adding it
+     * to the end of the database. Its contents are all zero until it is written.
+     * @returns The page's number
+     */
+    async allocatePage(): Promise<number> {
+        const header = (await this.getPage(1)).slice();
+        const view = new DataView(header.buffer);
+        const trunk = view.getUint32(32);
+        if (trunk !== 0) {
+            // A trunk's leaves are handed out last first; once it has none, the trunk itself is used
+            const data = (await this.getPage(trunk)).slice();
+            const trunkView = new DataView(data.buffer);
+            const leafCount = trunkView.getUint32(4);
+            let pageNumber = trunk;
+            if (leafCount > 0) {
+                pageNumber = trunkView.getUint32(8 + (leafCount - 1) * 4);
+                trunkView.setUint32(4, leafCount - 1);
+                this.writePage(trunk, data);
+            } else {
+                view.setUint32(32, trunkView.getUint32(0));
+            }
+            view.setUint32(36, view.getUint32(36) - 1);
+            this.writePage(1, header);
+            this.writePage(pageNumber, new Uint8Array(this.pageSize));
+            return pageNumber;
+        }
+        
+        let pageNumber = await this.pageCount() + 1;
+        if (pageNumber === pendingBytePage(this.pageSize)) {
+            pageNumber++;
+        }
+        this.size = pageNumber;
+        this.writePage(pageNumber, new Uint8Array(this.pageSize));
+        return pageNumber;
+    }
+    
+    /**
+     * Put a page that is no longer used on the freelist. It becomes a leaf of the first trunk page
+     * while that has room, and otherwise the new first trunk page.
+     * @param pageNumber - Page number (1-based)
+     */
+    async freePage(pageNumber: number): Promise<void> {
+        if (pageNumber <= 1 || pageNumber > await this.pageCount()) {
+            throw new Error(`Cannot free page ${pageNumber}`);
+        }
+        const header = (await this.getPage(1)).slice();
+        const view = new DataView(header.buffer);
+        const trunk = view.getUint32(32);
+        view.setUint32(36, view.getUint32(36) + 1);
+        this.writePage(1, header);
+        
+        if (trunk !== 0) {
+            const data = (await this.getPage(trunk)).slice();
+            const trunkView = new DataView(data.buffer);
+            const leafCount = trunkView.getUint32(4);
+            // SQLite leaves some room unused on trunk pages, since older versions miscounted it
+            if (leafCount < Math.floor(this.usableSize / 4) - 8) {
+                trunkView.setUint32(8 + leafCount * 4, pageNumber);
+                trunkView.setUint32(4, leafCount + 1);
+                this.writePage(trunk, data);
+                return;
+            }
+        }
+        const data = new Uint8Array(this.pageSize);
+        new DataView(data.buffer).setUint32(0, trunk);
+        view.setUint32(32, pageNumber);
+        this.writePage(1, header);
+        this.writePage(pageNumber, data);
+    }
+    
+    /**
+     * Note that the changes since the last commit include the schema, so that commit bumps the
+     * schema cookie and other connections know to read the schema again.
+     */
+    markSchemaChanged(): void {
+        this.schemaChanged = true;
+    }
+    
+    /**
+     * Write every changed page to the file, after bumping the file change counter and recording
+     * the new database size in the header, and wait until the data is on disk. The original
+     * contents of the pages are journaled and synced first; deleting the journal once the file is
+     * synced is what commits the changes.
+     */
+    async commit(): Promise<void> {
+        if (this.dirty.size === 0) {
+            return;
+        }
+        if (!this.journal) {
+            throw new Error("The database was not opened for writing");
+        }
+        const header = (await this.getPage(1)).slice();
+        const { autoVacuumTopRoot } = parseDatabaseHeader(header);
+        // Pointer maps would have to follow every page that moves, and the WAL would shadow what is written here
+        if (autoVacuumTopRoot !== 0) {
+            throw new Error("Writing to an auto-vacuum database is not supported");
+        }
+        if (this.wal) {
+            throw new Error("Writing to a database with un-checkpointed WAL frames is not supported");
+        }
+        
+        const view = new DataView(header.buffer);
+        const changeCounter = (view.getUint32(24) + 1) >>> 0;
+        view.setUint32(24, changeCounter);
+        view.setUint32(28, await this.pageCount());
+        // The page count is only trusted when written together with the change counter
+        view.setUint32(92, changeCounter);
+        if (this.schemaChanged) {
+            view.setUint32(40, (view.getUint32(40) + 1) >>> 0);
+        }
+        this.writePage(1, header);
+        
+        const pageNumbers = [...this.dirty.keys()].sort((a, b) => a - b);
+        const originalSize = Math.floor((await this.fileHandler.stat()).size / this.pageSize);
+        // Pages beyond the original end of the file have nothing to restore; truncating removes them
+        await this.journal.write(this.pageSize, originalSize, this.readOriginals(pageNumbers.filter(pageNumber => pageNumber <= originalSize)));
+        for (const pageNumber of pageNumbers) {
+            await this.fileHandler.write(this.dirty.get(pageNumber)!, 0, this.pageSize, (pageNumber - 1) * this.pageSize);
+        }
+        await this.fileHandler.sync();
+        await this.journal.remove();
+        this.dirty.clear();
+        this.schemaChanged = false;
+        this.isNew = false;
+    }
+    
+    /**
+     * Discard every change since the last commit.
+     */
+    rollback(): void {
+        this.dirty.clear();
+        // The cache holds changed pages too, once they have been read back
+        this.cache.clear();
+        this.size = null;
+        this.schemaChanged = false;
+        if (this.isNew) {
+            this.startDatabase();
+        }
+    }
+    
+    /**
+     * Give an empty file the first page of a database without any tables, in memory.
+     */
+    private startDatabase(): void {
+        const data = new Uint8Array(this.pageSize);
+        data.set(createDatabaseHeader(this.pageSize));
+        // Page 1 is also the root of sqlite_schema, an empty table leaf
+        data[DATABASE_HEADER_SIZE] = 0x0d;
+        new DataView(data.buffer).setUint16(DATABASE_HEADER_SIZE + 5, this.usableSize & 0xffff);
+        this.size = 1;
+        this.writePage(1, data);
+    }
+    
+    /**
+     * Read pages as the file holds them, without the changes since the last commit.
+     * @param pageNumbers - Page numbers (1-based)
+     * @returns Each page's number and contents, in the order given
+     */
+    private async *readOriginals(pageNumbers: number[]): AsyncGenerator<[number, Uint8Array]> {
+        for (const pageNumber of pageNumbers) {
+            const data = new Uint8Array(this.pageSize);
+            await this.fileHandler.read(data, 0, this.pageSize, (pageNumber - 1) * this.pageSize);
+            yield [pageNumber, data];
+        }
+    }
+    
+    /**
+     * Read the size of the database from the header, or from the file size when the header's is stale.
+     * @returns Number of pages in the database
+     */
+    private async readPageCount(): Promise<number> {
+        if (this.wal) {
+            return this.wal.pageCount;
+        }
+        const { pageCount, fileChangeCounter, versionValidFor } = parseDatabaseHeader(await this.getPage(1));
+        if (pageCount > 0 && versionValidFor === fileChangeCounter) {
+            return pageCount;
+        }
+        const { size } = await this.fileHandler.stat();
+        return Math.floor(size / this.pageSize);
+    }
+    
+    /**
+     * Get a page parsed as a B-tree page.
+     * @param pageNumber - Page number (1-based)
+     * @returns The parsed page
+     */
+    async getBTreePage(pageNumber: number): Promise<BTreePage> {
+        const entry = await this.getEntry(pageNumber);
+        if (!entry.btree) {
+            entry.btree = parseBTreePage(pageNumber, entry.data);
+        }
+        return entry.btree;
+    }
+    
+    /**
+     * Read the complete payload of a cell, following its overflow page chain if necessary.
+     * @param page - Parsed B-tree page (table leaf, index leaf or index interior)
+     * @param cellIndex - Index into the cell pointer array
+     * @returns The payload and the rowid or left child pointer stored with it
+     */
+    async readCellPayload(page: BTreePage, cellIndex: number): Promise<CellPayload> {
+        const { payloadSize, local, overflowPage, rowid, leftChildPage } = readLocalPayload(page, cellIndex, this.usableSize);
+        const cell: CellPayload = { payload: local, rowid, leftChildPage };
+        if (overflowPage === 0) {
+            return cell;
+        }
+        
+        const payload = new Uint8Array(payloadSize);
+        payload.set(local);
+        
+        // Each overflow page starts with the next page number (0 ends the chain) followed by content
+        let nextPage = overflowPage;
+        let written = local.length;
+        while (written < payloadSize) {
+            if (nextPage === 0) {
+                throw new Error(`Overflow chain ended early: ${written} of ${payloadSize} payload bytes read`);
+            }
+            const data = await this.getPage(nextPage);
+            const chunkSize = Math.min(this.usableSize - 4, payloadSize - written);
+            payload.set(data.subarray(4, 4 + chunkSize), written);
+            written += chunkSize;
+            nextPage = new DataView(data.buffer, data.byteOffset, 4).getUint32(0);
+        }
+        
+        cell.payload = payload;
+        return cell;
+    }
+    
+    /**
+     * Look up a page in the cache, loading it and evicting the least recently used page if needed.
+     * @param pageNumber - Page number (1-based)
+     * @returns The cache entry for the page
+     */
+    private async getEntry(pageNumber: number): Promise<{ data: Uint8Array, btree?: BTreePage }> {
+        const cached = this.cache.get(pageNumber);
+        if (cached) {
+            // Move to the most recently used position
+            this.cache.delete(pageNumber);
+            this.cache.set(pageNumber, cached);
+            return cached;
+        }
+        
+        if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+            throw new Error(`Invalid page number ${pageNumber}`);
+        }
+        let data = this.dirty.get(pageNumber);
+        if (!data) {
+            data = new Uint8Array(this.pageSize);
+            if (!await this.wal?.readPage(pageNumber, data)) {
+                const { bytesRead } = await this.fileHandler.read(data, 0, this.pageSize, (pageNumber - 1) * this.pageSize);
+                if (bytesRead < this.pageSize) {
+                    throw new Error(`Page ${pageNumber} is beyond the end of the database file`);
+                }
+            }
+        }
+        
+        const entry = { data };
+        this.cache.set(pageNumber, entry);
+        if (this.cache.size > this.maxCachedPages) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+        return entry;
+    }
+}
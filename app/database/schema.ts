@@ -1,57 +1,352 @@
-import type { FileHandle } from 'fs/promises';
-import { parseRecord } from '../parser/record.js';
-import { readCell, readCellPointers } from './page.js';
+import { parseSql } from '../parser/sql.js';
+import { parseCreateTable, findColumn, isSameKey } from '../parser/schema.js';
+import type { ConstraintColumn, TableSchema } from '../parser/schema.js';
+import type { Expr } from '../parser/ast.js';
+import { parseCollation } from '../utils/collation.js';
+import type { Collation } from '../utils/collation.js';
+import { TableCursor } from './table.js';
+import type { KeyColumn } from './index.js';
+import type { Pager } from './pager.js';
 
 /**
- * Find a table in the sqlite_schema and return its root page number.
- * @param fileHandler - Open file handle to the database
- * @param tableName - Name of the table to find
- * @param includeSql - If true, also return the CREATE TABLE SQL statement
- * @returns Root page number and optionally the CREATE TABLE SQL
+ * A column of an index, in index order.
  */
-export async function findTable(fileHandler: FileHandle, tableName: string, includeSql: boolean = false): Promise<{ rootPage: number, sql?: string }> {
-    const cellCount = await readPageHeader(fileHandler, 0, true);
-    const cellPointers = await readCellPointers(fileHandler, 0, true, cellCount);
+export interface IndexColumn {
+    /** Table column name, or null for an indexed expression */
+    name: string | null;
+    /** Collation from the index definition, or else the column's declared collation */
+    collation: Collation;
+    descending: boolean;
+}
+
+/**
+ * An index on a table, described by its entry in sqlite_schema.
+ */
+export interface IndexInfo {
+    name: string;
+    tableName: string;
+    rootPage: number;
+    columns: IndexColumn[];
+    unique: boolean;
+    /** True for partial indexes, which only contain rows matching a WHERE clause */
+    partial: boolean;
+}
+
+/**
+ * How the entries of an index are derived from the rows of its table.
+ */
+export interface IndexKey {
+    index: IndexInfo;
+    /** Expression of each indexed column */
+    exprs: Expr[];
+    /** Condition of a partial index */
+    where: Expr | null;
+    /** Primary key columns of a WITHOUT ROWID table that follow the indexed columns in each entry */
+    suffix: ConstraintColumn[];
+    /** Ordering of every column of an entry but the rowid */
+    keyColumns: KeyColumn[];
+}
+
+/**
+ * The kinds of object sqlite_schema lists.
+ */
+export type SchemaObjectType = 'table' | 'index' | 'view' | 'trigger';
+
+/**
+ * One row of sqlite_schema.
+ */
+export interface SchemaEntry {
+    type: SchemaObjectType;
+    name: string;
+    /** Table the object belongs to; for a table or view, its own name */
+    tableName: string;
+    /** Root page of a table or index B-tree, 0 for views, triggers and virtual tables */
+    rootPage: number;
+    /** The CREATE statement, null for automatic indexes */
+    sql: string | null;
+}
+
+/**
+ * A table with the root page of its B-tree and its parsed schema.
+ */
+export interface TableInfo {
+    name: string;
+    rootPage: number;
+    schema: TableSchema;
+}
+
+/**
+ * A view or trigger, known only by its CREATE statement.
+ */
+export interface ViewInfo {
+    name: string;
+    sql: string;
+}
+
+export interface TriggerInfo {
+    name: string;
+    /** Table whose changes fire the trigger */
+    tableName: string;
+    sql: string;
+}
+
+/**
+ * The schema table itself, which has no entry of its own.
+ */
+const SCHEMA_TABLE_SQL = 'CREATE TABLE sqlite_schema(type text, name text, tbl_name text, rootpage int, sql text)';
+const SCHEMA_TABLE_NAMES = ['sqlite_schema', 'sqlite_master'];
+
+/**
+ * The objects of a database, read from every page of the sqlite_schema B-tree in one pass.
+ * Names are looked up ignoring case and may be qualified with the schema name `main`.
+ * CREATE TABLE statements are parsed on first use, so that a table this reader cannot parse
+ * only fails the queries that use it.
+ */
+export class Catalog {
+    /** Every row of sqlite_schema, in schema order */
+    readonly entries: SchemaEntry[];
+    private readonly tableSchemas = new Map<string, TableSchema>();
+    
+    /**
+     * @param entries - Rows of sqlite_schema
+     */
+    constructor(entries: SchemaEntry[]) {
+        this.entries = entries;
+    }
+    
+    /**
+     * Read the sqlite_schema table of a database.
+     * @param pager - Pager for the database file
+     * @returns The catalog of the database's objects
+     */
+    static async load(pager: Pager): Promise<Catalog> {
+        const entries: SchemaEntry[] = [];
+        for await (const { values } of new TableCursor(pager, 1)) {
+            const [type, name, tableName, rootPage, sql] = values;
+            if (type !== 'table' && type !== 'index' && type !== 'view' && type !== 'trigger') {
+                throw new Error(`Unknown object type in sqlite_schema: ${type}`);
+            }
+            entries.push({
+                type,
+                name: String(name),
+                tableName: String(tableName),
+                rootPage: Number(rootPage ?? 0),
+                sql: typeof sql === 'string' ? sql : null,
+            });
+        }
+        return new Catalog(entries);
+    }
     
-    for (const cellOffset of cellPointers) {
-        const cellBuffer = await readCell(fileHandler, 0, cellOffset);
-        const { values } = parseRecord(cellBuffer);
+    /**
+     * List the objects of one kind.
+     * @param type - Kind of object
+     * @returns The objects in schema order
+     */
+    list(type: SchemaObjectType): SchemaEntry[] {
+        return this.entries.filter(entry => entry.type === type);
+    }
+    
+    /**
+     * Find a table and parse its CREATE TABLE statement.
+     * @param name - Name of the table, in any case
+     * @param schemaName - Schema the name is qualified with, if any
+     * @returns Root page number and schema of the table
+     */
+    findTable(name: string, schemaName: string | null = null): TableInfo {
+        checkSchemaName(schemaName);
+        if (SCHEMA_TABLE_NAMES.includes(name.toLowerCase())) {
+            return { name, rootPage: 1, schema: { ...parseCreateTable(SCHEMA_TABLE_SQL), name } };
+        }
         
-        if (values[2] === tableName) {
-            const result: { rootPage: number, sql?: string } = {
-                rootPage: parseInt(values[3])
-            };
-            if (includeSql) {
-                result.sql = values[4];
+        const entry = this.lookup('table', name);
+        if (!entry) {
+            if (this.lookup('view', name)) {
+                throw new Error(`Reading from view ${name} is not supported`);
             }
-            return result;
+            throw new Error(`Table ${name} not found`);
+        }
+        if (entry.rootPage === 0 || entry.sql === null) {
+            throw new Error(`Virtual table ${entry.name} is not supported`);
+        }
+        
+        let schema = this.tableSchemas.get(entry.name.toLowerCase());
+        if (!schema) {
+            schema = parseCreateTable(entry.sql);
+            this.tableSchemas.set(entry.name.toLowerCase(), schema);
         }
+        return { name: entry.name, rootPage: entry.rootPage, schema };
     }
     
-    throw new Error(`Table ${tableName} not found`);
-}
-
-/**
- * Find an index in the sqlite_schema and return its root page number.
- * @param fileHandler - Open file handle to the database
- * @param indexName - Name of the index to find
- * @returns Root page number of the index
- */
-export async function findIndex(fileHandler: FileHandle, indexName: string): Promise<number> {
-    const cellCount = await readPageHeader(fileHandler, 0, true);
-    const cellPointers = await readCellPointers(fileHandler, 0, true, cellCount);
+    /**
+     * Find an index by name.
+     * @param name - Name of the index, in any case
+     * @param schemaName - Schema the name is qualified with, if any
+     * @returns The index
+     */
+    findIndex(name: string, schemaName: string | null = null): IndexInfo {
+        checkSchemaName(schemaName);
+        const entry = this.lookup('index', name);
+        if (!entry) {
+            throw new Error(`Index ${name} not found`);
+        }
+        return this.indexInfo(entry, this.findTable(entry.tableName).schema);
+    }
     
-    for (const cellOffset of cellPointers) {
-        const cellBuffer = await readCell(fileHandler, 0, cellOffset);
-        const { values } = parseRecord(cellBuffer);
+    /**
+     * Find all indexes on a table, including the automatic indexes behind PRIMARY KEY and UNIQUE constraints.
+     * The primary key of a WITHOUT ROWID table has no entry in sqlite_schema; it is listed first,
+     * with the table's own root page.
+     * @param table - Schema of the indexed table
+     * @returns The indexes in sqlite_schema order
+     */
+    findIndexes(table: TableSchema): IndexInfo[] {
+        const tableName = table.name.toLowerCase();
+        const indexes = this.list('index')
+            .filter(entry => entry.tableName.toLowerCase() === tableName)
+            .map(entry => this.indexInfo(entry, table));
         
-        if (values[0] === 'index' && values[1] === indexName) {
-            return parseInt(values[3]);
+        if (table.withoutRowid) {
+            // A UNIQUE constraint declared earlier on the same columns lends the primary key its index
+            const number = table.uniqueKeys.findIndex(key => isSameKey(key, table.primaryKey)) + 1;
+            indexes.unshift(autoindex(table, number, this.lookup('table', table.name)?.rootPage ?? 0));
+        }
+        return indexes;
+    }
+    
+    /**
+     * Work out how the entries of an index are built from the rows of its table.
+     * @param table - Schema of the indexed table
+     * @param index - The index
+     * @returns The expressions and columns that make up its entries
+     */
+    indexKey(table: TableSchema, index: IndexInfo): IndexKey {
+        // Automatic indexes have no SQL, and only ever cover columns
+        const sql = this.entries.find(entry => entry.type === 'index' && entry.name === index.name)?.sql ?? null;
+        const statement = sql !== null ? parseSql(sql) : null;
+        if (statement !== null && statement.kind !== 'createIndex') {
+            throw new Error(`Index ${index.name} has unexpected SQL: ${sql}`);
+        }
+        
+        const suffix = table.withoutRowid
+            ? table.primaryKey.filter(key => !index.columns.some(column => column.name?.toLowerCase() === key.name.toLowerCase() && column.collation === key.collation))
+            : [];
+        return {
+            index,
+            exprs: statement ? statement.columns.map(column => column.expr) : index.columns.map(column => ({ kind: 'column', table: null, name: column.name! })),
+            where: statement?.where ?? null,
+            suffix,
+            keyColumns: [...index.columns, ...suffix],
+        };
+    }
+    
+    /**
+     * Find a view by name.
+     * @param name - Name of the view, in any case
+     * @param schemaName - Schema the name is qualified with, if any
+     * @returns The view
+     */
+    findView(name: string, schemaName: string | null = null): ViewInfo {
+        checkSchemaName(schemaName);
+        const entry = this.lookup('view', name);
+        if (!entry) {
+            throw new Error(`View ${name} not found`);
         }
+        return { name: entry.name, sql: entry.sql ?? '' };
     }
     
-    throw new Error(`Index ${indexName} not found`);
+    /**
+     * Find a trigger by name.
+     * @param name - Name of the trigger, in any case
+     * @param schemaName - Schema the name is qualified with, if any
+     * @returns The trigger
+     */
+    findTrigger(name: string, schemaName: string | null = null): TriggerInfo {
+        checkSchemaName(schemaName);
+        const entry = this.lookup('trigger', name);
+        if (!entry) {
+            throw new Error(`Trigger ${name} not found`);
+        }
+        return { name: entry.name, tableName: entry.tableName, sql: entry.sql ?? '' };
+    }
+    
+    /**
+     * Find an object of one kind by name.
+     * @param type - Kind of object
+     * @param name - Name of the object, in any case
+     * @returns Its row of sqlite_schema, or undefined if there is none
+     */
+    lookup(type: SchemaObjectType, name: string): SchemaEntry | undefined {
+        const lower = name.toLowerCase();
+        return this.entries.find(entry => entry.type === type && entry.name.toLowerCase() === lower);
+    }
+    
+    /**
+     * Describe an index from its sqlite_schema entry.
+     * @param entry - The index's entry
+     * @param table - Schema of the indexed table
+     * @returns The index
+     */
+    private indexInfo(entry: SchemaEntry, table: TableSchema): IndexInfo {
+        const { name, tableName, rootPage, sql } = entry;
+        if (sql === null) {
+            // Automatic indexes have no SQL; their columns come from the N-th key constraint of the table
+            const match = name.match(/^sqlite_autoindex_.+_(\d+)$/);
+            if (!match) {
+                throw new Error(`Cannot determine the columns of index ${name}`);
+            }
+            return { ...autoindex(table, Number(match[1]), rootPage), name };
+        }
+        
+        const statement = parseSql(sql);
+        if (statement.kind !== 'createIndex') {
+            throw new Error(`Index ${name} has unexpected SQL: ${sql}`);
+        }
+        const columnCollation = (column: string | null): Collation => {
+            const index = column !== null ? findColumn(table, column) : -1;
+            return index === -1 ? 'BINARY' : table.columns[index].collation;
+        };
+        return {
+            name,
+            tableName,
+            rootPage,
+            columns: statement.columns.map(({ expr, collation, descending }) => {
+                const name = expr.kind === 'column' ? expr.name : null;
+                return { name, collation: collation ? parseCollation(collation) : columnCollation(name), descending };
+            }),
+            unique: statement.unique,
+            partial: statement.where !== null,
+        };
+    }
 }
 
-// Import this at the end to avoid circular dependency
-import { readPageHeader } from './page.js';
+/**
+ * Describe the automatic index behind a PRIMARY KEY or UNIQUE constraint.
+ * @param table - Schema of the table
+ * @param number - The N of sqlite_autoindex_<table>_<N>
+ * @param rootPage - Root page of the index
+ * @returns The index
+ */
+function autoindex(table: TableSchema, number: number, rootPage: number): IndexInfo {
+    const key = table.uniqueKeys[number - 1];
+    if (!key) {
+        throw new Error(`Cannot determine the columns of index sqlite_autoindex_${table.name}_${number}`);
+    }
+    return {
+        name: `sqlite_autoindex_${table.name}_${number}`,
+        tableName: table.name,
+        rootPage,
+        columns: key.map(({ name, collation, descending }) => ({ name, collation, descending })),
+        unique: true,
+        partial: false,
+    };
+}
+
+/**
+ * Reject names qualified with a schema other than the main database, the only one a file holds.
+ * @param schemaName - Schema the name is qualified with, if any
+ */
+function checkSchemaName(schemaName: string | null): void {
+    if (schemaName !== null && schemaName.toLowerCase() !== 'main') {
+        throw new Error(`unknown database ${schemaName}`);
+    }
+}
@@ -1,177 +1,297 @@
-import type { FileHandle } from 'fs/promises';
 import { parseRecord } from '../parser/record.js';
-import { readVarint } from '../utils/varint.js';
-import { readPageType, readPageHeader, readCellPointers, readCell, readRightmostPointer } from './page.js';
+import type { Row } from '../parser/record.js';
+import { readTableInteriorCell, readLocalPayload, getChildPage } from './page.js';
+import type { BTreePage } from './page.js';
+import type { Pager } from './pager.js';
 
 /**
- * Read all rows from a table B-tree starting at the root page.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
- * @param rootPage - Root page number of the table B-tree
- * @returns Array of all rows with their rowids and column values
+ * One step on the path from the root of a B-tree to the cursor's current cell.
+ * On interior pages `index` is the child being visited, where cellCount means the right-most child.
  */
-export async function readTableCells(fileHandler: FileHandle, pageSize: number, rootPage: number): Promise<Array<{ rowid: number, values: string[] }>> {
-    const rows: Array<{ rowid: number, values: string[] }> = [];
-    await readTableCellsRecursive(fileHandler, pageSize, rootPage, rows);
-    return rows;
+export interface CursorFrame {
+    page: BTreePage;
+    index: number;
 }
 
 /**
- * Read rows from a table B-tree, returning only those with rowids in the provided set.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
- * @param rootPage - Root page number of the table B-tree
- * @param rowidSet - Set of rowids to include
- * @param rows - Output array to accumulate matching rows
+ * Cursor over the rows of a table B-tree in rowid order. Only the pages on the path
+ * from the root to the current row are held, so scans run in constant memory.
  */
-export async function readTableCellsFiltered(fileHandler: FileHandle, pageSize: number, rootPage: number, rowidSet: Set<number>, rows: Array<{ rowid: number, values: string[] }>): Promise<void> {
-    await readTableCellsFilteredRecursive(fileHandler, pageSize, rootPage, rowidSet, rows);
+export class TableCursor implements AsyncIterable<Row> {
+    private readonly pager: Pager;
+    private readonly rootPage: number;
+    private stack: CursorFrame[] = [];
+    
+    /**
+     * @param pager - Pager for the database file
+     * @param rootPage - Root page number of the table B-tree
+     */
+    constructor(pager: Pager, rootPage: number) {
+        this.pager = pager;
+        this.rootPage = rootPage;
+    }
+    
+    /**
+     * Whether the cursor is positioned on a row.
+     */
+    get valid(): boolean {
+        const leaf = this.stack[this.stack.length - 1];
+        return leaf !== undefined && leaf.index >= 0 && leaf.index < leaf.page.cellCount;
+    }
+    
+    /**
+     * Rowid of the current row, read without decoding the record.
+     */
+    get rowid(): bigint {
+        const leaf = this.current();
+        return readLocalPayload(leaf.page, leaf.index, this.pager.usableSize).rowid!;
+    }
+    
+    /**
+     * Page and cell of the current row, as integrity check messages number them.
+     */
+    get position(): { pageNumber: number, cell: number } {
+        const leaf = this.current();
+        return { pageNumber: leaf.page.pageNumber, cell: leaf.index };
+    }
+    
+    /**
+     * Move to the first row of the table.
+     * @returns True if the table has at least one row
+     */
+    async first(): Promise<boolean> {
+        this.stack = [];
+        await this.descendToLeftmost(this.rootPage);
+        return this.valid || await this.advanceToNextLeaf();
+    }
+    
+    /**
+     * Move to the last row of the table.
+     * @returns True if the table has at least one row
+     */
+    async last(): Promise<boolean> {
+        this.stack = [];
+        await this.descendToRightmost(this.rootPage);
+        return this.valid || await this.retreatToPreviousLeaf();
+    }
+    
+    /**
+     * Move to the next row.
+     * @returns True if the cursor is positioned on a row, false at the end of the table
+     */
+    async next(): Promise<boolean> {
+        const leaf = this.stack[this.stack.length - 1];
+        if (!leaf) {
+            return false;
+        }
+        leaf.index++;
+        return this.valid || await this.advanceToNextLeaf();
+    }
+    
+    /**
+     * Move to the previous row.
+     * @returns True if the cursor is positioned on a row, false at the start of the table
+     */
+    async previous(): Promise<boolean> {
+        const leaf = this.stack[this.stack.length - 1];
+        if (!leaf) {
+            return false;
+        }
+        leaf.index--;
+        return this.valid || await this.retreatToPreviousLeaf();
+    }
+    
+    /**
+     * Move to the first row whose rowid is greater than or equal to the target.
+     * @param targetRowid - Rowid to search for
+     * @returns True if such a row exists; compare `rowid` to check for an exact match
+     */
+    async seek(targetRowid: bigint): Promise<boolean> {
+        this.stack = [];
+        let page = await this.pager.getBTreePage(this.rootPage);
+        
+        while (page.type === 0x05) {
+            // Each interior key is the largest rowid in its left child
+            const index = lowerBound(page.cellCount, i => readTableInteriorCell(page, i).rowid, targetRowid);
+            this.stack.push({ page, index });
+            page = await this.pager.getBTreePage(childPage(page, index));
+        }
+        assertTableLeaf(page);
+        
+        const index = lowerBound(page.cellCount, i => readLocalPayload(page, i, this.pager.usableSize).rowid!, targetRowid);
+        this.stack.push({ page, index });
+        return this.valid || await this.advanceToNextLeaf();
+    }
+    
+    /**
+     * Decode the current row.
+     * @returns The rowid and column values of the current row
+     */
+    async row(): Promise<Row> {
+        const leaf = this.current();
+        const { payload, rowid } = await this.pager.readCellPayload(leaf.page, leaf.index);
+        return { rowid: rowid!, values: parseRecord(payload, this.pager.textEncoding) };
+    }
+    
+    /**
+     * Iterate over all rows of the table from the first, decoding each one.
+     */
+    async *[Symbol.asyncIterator](): AsyncIterator<Row> {
+        for (let found = await this.first(); found; found = await this.next()) {
+            yield await this.row();
+        }
+    }
+    
+    private current(): CursorFrame {
+        if (!this.valid) {
+            throw new Error("Cursor is not positioned on a row");
+        }
+        return this.stack[this.stack.length - 1];
+    }
+    
+    /**
+     * Push frames for the path from a page down to the leftmost leaf beneath it.
+     * @param pageNumber - Page to start from
+     */
+    private async descendToLeftmost(pageNumber: number): Promise<void> {
+        let page = await this.pager.getBTreePage(pageNumber);
+        while (page.type === 0x05) {
+            this.stack.push({ page, index: 0 });
+            page = await this.pager.getBTreePage(childPage(page, 0));
+        }
+        assertTableLeaf(page);
+        this.stack.push({ page, index: 0 });
+    }
+    
+    /**
+     * Push frames for the path from a page down to the rightmost leaf beneath it,
+     * positioned on the leaf's last cell.
+     * @param pageNumber - Page to start from
+     */
+    private async descendToRightmost(pageNumber: number): Promise<void> {
+        let page = await this.pager.getBTreePage(pageNumber);
+        while (page.type === 0x05) {
+            this.stack.push({ page, index: page.cellCount });
+            page = await this.pager.getBTreePage(childPage(page, page.cellCount));
+        }
+        assertTableLeaf(page);
+        this.stack.push({ page, index: page.cellCount - 1 });
+    }
+    
+    /**
+     * Move from an exhausted leaf to the first row of the next non-empty leaf.
+     * @returns True if a row was found, false at the end of the table
+     */
+    private async advanceToNextLeaf(): Promise<boolean> {
+        while (!this.valid) {
+            this.stack.pop();
+            const parent = this.stack[this.stack.length - 1];
+            if (!parent) {
+                return false;
+            }
+            parent.index++;
+            if (parent.index <= parent.page.cellCount) {
+                await this.descendToLeftmost(childPage(parent.page, parent.index));
+            }
+        }
+        return true;
+    }
+    
+    /**
+     * Move from an exhausted leaf to the last row of the previous non-empty leaf.
+     * @returns True if a row was found, false at the start of the table
+     */
+    private async retreatToPreviousLeaf(): Promise<boolean> {
+        while (!this.valid) {
+            this.stack.pop();
+            const parent = this.stack[this.stack.length - 1];
+            if (!parent) {
+                return false;
+            }
+            parent.index--;
+            if (parent.index >= 0) {
+                await this.descendToRightmost(childPage(parent.page, parent.index));
+            }
+        }
+        return true;
+    }
 }
 
 /**
  * Fetch a single row from a table B-tree by its rowid.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
+ * @param pager - Pager for the database file
  * @param rootPage - Root page number of the table B-tree
  * @param targetRowid - The rowid to search for
  * @returns The row if found, null otherwise
  */
-export async function fetchRowByRowid(fileHandler: FileHandle, pageSize: number, rootPage: number, targetRowid: number): Promise<{ rowid: number, values: string[] } | null> {
-    return await fetchRowByRowidRecursive(fileHandler, pageSize, rootPage, targetRowid);
+export async function fetchRowByRowid(pager: Pager, rootPage: number, targetRowid: bigint): Promise<Row | null> {
+    const cursor = new TableCursor(pager, rootPage);
+    if (await cursor.seek(targetRowid) && cursor.rowid === targetRowid) {
+        return await cursor.row();
+    }
+    return null;
 }
 
 /**
- * Recursively traverse a table B-tree to collect rows matching a rowid set.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
- * @param pageNum - Current page number in the B-tree
- * @param rowidSet - Set of rowids to include
- * @param rows - Output array to accumulate matching rows
+ * Count the rows of a table B-tree by adding up the cell counts in the leaf page headers,
+ * without reading any cell contents. A WITHOUT ROWID table is an index B-tree, whose
+ * interior cells are rows as well.
+ * @param pager - Pager for the database file
+ * @param rootPage - Root page number of the table B-tree
+ * @returns Number of rows in the table
  */
-async function readTableCellsFilteredRecursive(fileHandler: FileHandle, pageSize: number, pageNum: number, rowidSet: Set<number>, rows: Array<{ rowid: number, values: string[] }>): Promise<void> {
-    const pageOffset = (pageNum - 1) * pageSize;
-    const isPage1 = pageNum === 1;
-    
-    const pageType = await readPageType(fileHandler, pageOffset, isPage1);
-    
-    if (pageType === 0x0d) {
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, false);
-        
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = await readCell(fileHandler, pageOffset, cellOffset);
-            const record = parseRecord(cellBuffer);
-            
-            if (rowidSet.has(record.rowid)) {
-                rows.push(record);
-            }
+export async function countRows(pager: Pager, rootPage: number): Promise<number> {
+    let count = 0;
+    const pending = [rootPage];
+    while (pending.length > 0) {
+        const page = await pager.getBTreePage(pending.pop()!);
+        if (page.type === 0x0d || page.type === 0x0a) {
+            count += page.cellCount;
+            continue;
         }
-    } else if (pageType === 0x05) {
-        // Interior page - traverse children
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, true);
-        
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = new Uint8Array(16);
-            await fileHandler.read(cellBuffer, 0, 16, pageOffset + cellOffset);
-            
-            const leftChildPage = new DataView(cellBuffer.buffer).getUint32(0, false);
-            await readTableCellsFilteredRecursive(fileHandler, pageSize, leftChildPage, rowidSet, rows);
+        if (page.type === 0x02) {
+            count += page.cellCount;
+        }
+        for (let i = 0; i <= page.cellCount; i++) {
+            pending.push(getChildPage(page, i));
         }
-        
-        const rightmostChild = await readRightmostPointer(fileHandler, pageOffset, isPage1);
-        await readTableCellsFilteredRecursive(fileHandler, pageSize, rightmostChild, rowidSet, rows);
     }
+    return count;
 }
 
 /**
- * Recursively traverse a table B-tree to collect all rows.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
- * @param pageNum - Current page number in the B-tree
- * @param rows - Output array to accumulate all rows
+ * Get the page number of a child of a table interior page.
+ * @param page - Parsed table interior page
+ * @param index - Cell index, or cellCount for the right-most child
+ * @returns The child page number
  */
-async function readTableCellsRecursive(fileHandler: FileHandle, pageSize: number, pageNum: number, rows: Array<{ rowid: number, values: string[] }>): Promise<void> {
-    const pageOffset = (pageNum - 1) * pageSize;
-    const isPage1 = pageNum === 1;
-    
-    const pageType = await readPageType(fileHandler, pageOffset, isPage1);
-    
-    if (pageType === 0x0d) {
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, false);
-        
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = await readCell(fileHandler, pageOffset, cellOffset);
-            const record = parseRecord(cellBuffer);
-            rows.push(record);
-        }
-    } else if (pageType === 0x05) {
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, true);
-        
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = new Uint8Array(16);
-            await fileHandler.read(cellBuffer, 0, 16, pageOffset + cellOffset);
-            
-            const leftChildPage = new DataView(cellBuffer.buffer).getUint32(0, false);
-            await readTableCellsRecursive(fileHandler, pageSize, leftChildPage, rows);
-        }
-        
-        const rightmostChild = await readRightmostPointer(fileHandler, pageOffset, isPage1);
-        await readTableCellsRecursive(fileHandler, pageSize, rightmostChild, rows);
-    }
+function childPage(page: BTreePage, index: number): number {
+    return index < page.cellCount ? readTableInteriorCell(page, index).leftChildPage : page.rightmostPointer!;
 }
 
 /**
- * Recursively search a table B-tree for a specific rowid.
- * @param fileHandler - Open file handle to the database
- * @param pageSize - Size of database pages in bytes
- * @param pageNum - Current page number in the B-tree
- * @param targetRowid - The rowid to search for
- * @returns The row if found, null otherwise
+ * Binary search for the first of a sorted sequence of keys that is not less than a target.
+ * @param count - Number of keys
+ * @param keyAt - Reads the key at an index
+ * @param target - Key to search for
+ * @returns Index of the first key >= target, or count if there is none
  */
-async function fetchRowByRowidRecursive(fileHandler: FileHandle, pageSize: number, pageNum: number, targetRowid: number): Promise<{ rowid: number, values: string[] } | null> {
-    const pageOffset = (pageNum - 1) * pageSize;
-    const isPage1 = pageNum === 1;
-    
-    const pageType = await readPageType(fileHandler, pageOffset, isPage1);
-    
-    if (pageType === 0x0d) {
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, false);
-        
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = await readCell(fileHandler, pageOffset, cellOffset);
-            const record = parseRecord(cellBuffer);
-            
-            if (record.rowid === targetRowid) {
-                return record;
-            }
+export function lowerBound(count: number, keyAt: (index: number) => bigint, target: bigint): number {
+    let low = 0;
+    let high = count;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (keyAt(mid) < target) {
+            low = mid + 1;
+        } else {
+            high = mid;
         }
-        
-        return null;
-    } else if (pageType === 0x05) {
-        const cellCount = await readPageHeader(fileHandler, pageOffset, isPage1);
-        const cellPointers = await readCellPointers(fileHandler, pageOffset, isPage1, cellCount, true);
-        
-        for (const cellOffset of cellPointers) {
-            const cellBuffer = new Uint8Array(16);
-            await fileHandler.read(cellBuffer, 0, 16, pageOffset + cellOffset);
-            
-            const leftChildPage = new DataView(cellBuffer.buffer).getUint32(0, false);
-            
-            let offset = 4;
-            const [key, keyBytes] = readVarint(cellBuffer, offset);
-            
-            if (targetRowid <= key) {
-                return await fetchRowByRowidRecursive(fileHandler, pageSize, leftChildPage, targetRowid);
-            }
-        }
-        
-        const rightmostChild = await readRightmostPointer(fileHandler, pageOffset, isPage1);
-        return await fetchRowByRowidRecursive(fileHandler, pageSize, rightmostChild, targetRowid);
     }
-    
-    return null;
+    return low;
+}
+
+function assertTableLeaf(page: BTreePage): void {
+    if (page.type !== 0x0d) {
+        throw new Error(`Page ${page.pageNumber} is not a table B-tree page (type ${page.type})`);
+    }
 }
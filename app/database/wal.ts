@@ -0,0 +1,143 @@
+import type { FileHandle } from 'fs/promises';
+
+/**
+ * Size of the header at the start of a WAL file.
+ */
+const WAL_HEADER_SIZE = 32;
+
+/**
+ * Size of the header in front of each page image in a WAL file.
+ */
+const FRAME_HEADER_SIZE = 24;
+
+/** Magic number of a WAL whose checksums are computed over little-endian words */
+const MAGIC_LITTLE_ENDIAN = 0x377f0682;
+/** Magic number of a WAL whose checksums are computed over big-endian words */
+const MAGIC_BIG_ENDIAN = 0x377f0683;
+const WAL_VERSION = 3007000;
+
+/**
+ * The committed contents of a database's write-ahead log. A frame only counts once the
+ * transaction it belongs to has committed, and only if it carries the salts of the WAL
+ * header and an unbroken running checksum; the first frame that does not ends the log,
+ * which is how SQLite recovers a WAL after a crash.
+ */
+export class Wal {
+    readonly pageSize: number;
+    /** Size of the database in pages after the last committed transaction */
+    readonly pageCount: number;
+    
+    private readonly fileHandler: FileHandle;
+    /** File offset of the page image in the latest committed frame for each page */
+    private readonly frames: Map<number, number>;
+    
+    /**
+     * @param fileHandler - Open file handle to the WAL
+     * @param pageSize - Size of the page images in the WAL
+     * @param pageCount - Size of the database in pages after the last committed transaction
+     * @param frames - File offset of the latest committed page image for each page
+     */
+    private constructor(fileHandler: FileHandle, pageSize: number, pageCount: number, frames: Map<number, number>) {
+        this.fileHandler = fileHandler;
+        this.pageSize = pageSize;
+        this.pageCount = pageCount;
+        this.frames = frames;
+    }
+    
+    /**
+     * Read a WAL file and index the frames of its committed transactions.
+     * @param fileHandler - Open file handle to the WAL
+     * @returns The WAL, or null if it holds no valid header or no committed transaction
+     */
+    static async open(fileHandler: FileHandle): Promise<Wal | null> {
+        const header = new Uint8Array(WAL_HEADER_SIZE);
+        const { bytesRead } = await fileHandler.read(header, 0, WAL_HEADER_SIZE, 0);
+        if (bytesRead < WAL_HEADER_SIZE) {
+            return null;
+        }
+        const view = new DataView(header.buffer);
+        const magic = view.getUint32(0);
+        const pageSize = view.getUint32(8);
+        if ((magic !== MAGIC_LITTLE_ENDIAN && magic !== MAGIC_BIG_ENDIAN) || view.getUint32(4) !== WAL_VERSION
+            || pageSize < 512 || pageSize > 65536 || (pageSize & (pageSize - 1)) !== 0) {
+            return null;
+        }
+        const bigEndian = magic === MAGIC_BIG_ENDIAN;
+        let checksum = walChecksum(header.subarray(0, 24), bigEndian, [0, 0]);
+        if (checksum[0] !== view.getUint32(24) || checksum[1] !== view.getUint32(28)) {
+            return null;
+        }
+        const salt1 = view.getUint32(16);
+        const salt2 = view.getUint32(20);
+        
+        // Frames of a transaction are held back until its commit frame, which records the new database size
+        const frames = new Map<number, number>();
+        const pending: Array<[number, number]> = [];
+        let pageCount = 0;
+        const frame = new Uint8Array(FRAME_HEADER_SIZE + pageSize);
+        const frameView = new DataView(frame.buffer);
+        for (let offset = WAL_HEADER_SIZE; ; offset += frame.length) {
+            const { bytesRead } = await fileHandler.read(frame, 0, frame.length, offset);
+            if (bytesRead < frame.length) {
+                break;
+            }
+            const pageNumber = frameView.getUint32(0);
+            const databaseSize = frameView.getUint32(4);
+            if (pageNumber === 0 || frameView.getUint32(8) !== salt1 || frameView.getUint32(12) !== salt2) {
+                break;
+            }
+            checksum = walChecksum(frame.subarray(0, 8), bigEndian, checksum);
+            checksum = walChecksum(frame.subarray(FRAME_HEADER_SIZE), bigEndian, checksum);
+            if (checksum[0] !== frameView.getUint32(16) || checksum[1] !== frameView.getUint32(20)) {
+                break;
+            }
+            
+            pending.push([pageNumber, offset + FRAME_HEADER_SIZE]);
+            if (databaseSize !== 0) {
+                for (const [page, imageOffset] of pending) {
+                    frames.set(page, imageOffset);
+                }
+                pending.length = 0;
+                pageCount = databaseSize;
+            }
+        }
+        
+        return pageCount === 0 ? null : new Wal(fileHandler, pageSize, pageCount, frames);
+    }
+    
+    /**
+     * Read the start of a page from its latest committed frame.
+     * @param pageNumber - Page number (1-based)
+     * @param data - Buffer to fill, no longer than a page
+     * @returns False if the WAL holds no committed image of the page, leaving data untouched
+     */
+    async readPage(pageNumber: number, data: Uint8Array): Promise<boolean> {
+        const offset = this.frames.get(pageNumber);
+        // Pages past the committed size were truncated away, whatever frames they left behind
+        if (offset === undefined || pageNumber > this.pageCount) {
+            return false;
+        }
+        const { bytesRead } = await this.fileHandler.read(data, 0, data.length, offset);
+        if (bytesRead < data.length) {
+            throw new Error(`Frame for page ${pageNumber} is beyond the end of the WAL file`);
+        }
+        return true;
+    }
+}
+
+/**
+ * Extend the running checksum of a WAL over a block of data.
+ * @param data - The data, a multiple of 8 bytes long
+ * @param bigEndian - Whether the words are read big-endian, as the WAL's magic number says
+ * @param checksum - Checksum of everything before the data
+ * @returns Checksum including the data
+ */
+function walChecksum(data: Uint8Array, bigEndian: boolean, checksum: [number, number]): [number, number] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let [s1, s2] = checksum;
+    for (let i = 0; i < data.length; i += 8) {
+        s1 = (s1 + view.getUint32(i, !bigEndian) + s2) >>> 0;
+        s2 = (s2 + view.getUint32(i + 4, !bigEndian) + s1) >>> 0;
+    }
+    return [s1, s2];
+}
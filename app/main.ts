@@ -5,40 +5,144 @@
  */
 
 import { open } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
 import { constants } from 'fs';
 import { handleDbInfo } from './commands/dbinfo.js';
 import { handleTables } from './commands/tables.js';
 import { handleSelectCount, handleSelect } from './commands/select.js';
+import { handleIntegrityCheck } from './commands/integrity.js';
+import { handlePragma } from './commands/pragma.js';
+import { handleInsert } from './commands/insert.js';
+import { handleUpdate } from './commands/update.js';
+import { handleDelete } from './commands/delete.js';
+import { handleTransaction } from './commands/transaction.js';
+import { handleCreateTable, handleCreateIndex } from './commands/create.js';
+import { handleDrop } from './commands/drop.js';
+import { Pager } from './database/pager.js';
+import { Wal } from './database/wal.js';
+import { Journal } from './database/journal.js';
+import { FileLock } from './database/lock.js';
+import { Catalog } from './database/schema.js';
+import { parseScript } from './parser/sql.js';
+import type { SelectStatement, Statement } from './parser/ast.js';
+
+// Output that nobody reads any more, as when piped into head, is dropped rather than an error
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code !== 'EPIPE') {
+        throw error;
+    }
+});
 
 const args = process.argv;
 const databaseFilePath: string = args[2]
 const command: string = args[3];
-const databaseFileHandler = await open(databaseFilePath, constants.O_RDONLY);
+// Dot commands are not SQL; statements are parsed up front, since only writes open the file for writing
+const statements = command.startsWith('.') ? [] : parseScript(command);
+const writable = statements.some(statement => !['select', 'pragma', 'transaction'].includes(statement.kind));
+// Writers hold the lock throughout, and record who they are in their journals
+const lock = writable ? await FileLock.acquire(`${databaseFilePath}-lock`) : null;
+const journal = new Journal(`${databaseFilePath}-journal`, lock?.holder ?? null);
 
 try {
-    if (command === ".dbinfo") {
-        await handleDbInfo(databaseFileHandler);
-    } else if (command === ".tables") {
-        await handleTables(databaseFileHandler);
-    } else if (command.toUpperCase().startsWith("SELECT COUNT(*) FROM")) {
-        const tableName = command.split(' ').pop()!;
-        
-        // Read page size
-        const headerBuffer = new Uint8Array(100);
-        await databaseFileHandler.read(headerBuffer, 0, 100, 0);
-        const pageSize = new DataView(headerBuffer.buffer).getUint16(16);
+    // Writing to a file that does not exist yet creates a new database
+    const databaseFileHandler = await open(databaseFilePath, writable ? constants.O_RDWR | constants.O_CREAT : constants.O_RDONLY);
+    const walFileHandler = await openIfExists(`${databaseFilePath}-wal`);
+    try {
+        // Read-only commands only wait for a journal to go away; they never play one back
+        await journal.settle(databaseFileHandler, lock !== null);
+        const wal = walFileHandler && await Wal.open(walFileHandler);
+        const pager = await Pager.open(databaseFileHandler, wal, writable ? journal : null);
+        let catalog = await Catalog.load(pager);
         
-        await handleSelectCount(databaseFileHandler, pageSize, tableName);
-    } else if (command.toUpperCase().startsWith("SELECT") && !command.toUpperCase().includes("COUNT(*)")) {
-        // Read page size
-        const headerBuffer = new Uint8Array(100);
-        await databaseFileHandler.read(headerBuffer, 0, 100, 0);
-        const pageSize = new DataView(headerBuffer.buffer).getUint16(16);
+        if (command === ".dbinfo") {
+            await handleDbInfo(pager, catalog);
+        } else if (command === ".tables") {
+            handleTables(catalog);
+        } else if (command === ".integrity_check") {
+            await handleIntegrityCheck(pager, catalog, null, false);
+        } else if (command.startsWith('.')) {
+            throw new Error(`Unknown command: ${command}`);
+        }
         
-        await handleSelect(databaseFileHandler, pageSize, command);
-    } else {
-        throw new Error(`Unknown command ${command}`);
+        // Outside a transaction each statement commits on its own; a transaction still open at the end is discarded
+        let inTransaction = false;
+        for (const statement of statements) {
+            if (statement.kind === 'transaction') {
+                inTransaction = await handleTransaction(pager, statement, inTransaction);
+            } else {
+                await executeStatement(pager, catalog, statement);
+            }
+            if (!inTransaction) {
+                await pager.commit();
+            }
+            // The catalog is read again once the schema may have changed, or changed back on ROLLBACK
+            if (statement.kind === 'createTable' || statement.kind === 'createIndex' || statement.kind === 'drop' || statement.kind === 'transaction') {
+                catalog = await Catalog.load(pager);
+            }
+        }
+    } finally {
+        await walFileHandler?.close();
+        await databaseFileHandler.close();
     }
 } finally {
-    await databaseFileHandler.close();
+    await lock?.release();
+}
+
+/**
+ * Execute a statement other than BEGIN, COMMIT and ROLLBACK.
+ * @param pager - Pager for the SQLite database
+ * @param catalog - Objects of the database
+ * @param statement - Parsed statement
+ */
+async function executeStatement(pager: Pager, catalog: Catalog, statement: Statement): Promise<void> {
+    if (statement.kind === 'pragma') {
+        await handlePragma(pager, catalog, statement);
+    } else if (statement.kind === 'insert') {
+        await handleInsert(pager, catalog, statement);
+    } else if (statement.kind === 'update') {
+        await handleUpdate(pager, catalog, statement);
+    } else if (statement.kind === 'delete') {
+        await handleDelete(pager, catalog, statement);
+    } else if (statement.kind === 'createTable') {
+        await handleCreateTable(pager, catalog, statement);
+    } else if (statement.kind === 'createIndex') {
+        await handleCreateIndex(pager, catalog, statement);
+    } else if (statement.kind === 'drop') {
+        await handleDrop(pager, catalog, statement);
+    } else if (statement.kind !== 'select') {
+        throw new Error(`Cannot execute a ${statement.kind} statement`);
+    } else if (isCountStar(statement)) {
+        await handleSelectCount(pager, catalog, statement.from!);
+    } else {
+        await handleSelect(pager, catalog, statement);
+    }
+}
+
+/**
+ * Open a file for reading if it exists.
+ * @param path - Path to the file
+ * @returns The file handle, or null if there is no such file
+ */
+async function openIfExists(path: string): Promise<FileHandle | null> {
+    try {
+        return await open(path, constants.O_RDONLY);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Check whether a statement is the bare `SELECT COUNT(*) FROM table` form.
+ * @param statement - Parsed SELECT statement
+ * @returns True if the statement only counts the rows of a single table
+ */
+function isCountStar(statement: SelectStatement): boolean {
+    if (!statement.from || statement.joins.length > 0 || statement.where || statement.groupBy.length > 0 || statement.having || statement.limit || statement.columns.length !== 1) {
+        return false;
+    }
+    const column = statement.columns[0];
+    return column.kind === 'expr' && column.expr.kind === 'function' && column.expr.name === 'count' && column.expr.star;
 }
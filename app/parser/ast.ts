@@ -0,0 +1,269 @@
+/**
+ * Abstract syntax tree types produced by the SQL parser.
+ */
+
+import type { SqlValue } from '../utils/sqlValue.js';
+
+export type Expr = LiteralExpr | ColumnExpr | UnaryExpr | BinaryExpr | FunctionExpr | InExpr | BetweenExpr | LikeExpr | CaseExpr | CastExpr | CollateExpr;
+
+export type UnaryOperator = '-' | '+' | '~' | 'NOT';
+
+export type BinaryOperator =
+    | 'OR' | 'AND'
+    | '=' | '!=' | 'IS' | 'IS NOT'
+    | '<' | '<=' | '>' | '>='
+    | '<<' | '>>' | '&' | '|'
+    | '+' | '-' | '*' | '/' | '%'
+    | '||';
+
+/** A constant value written in the query */
+export interface LiteralExpr {
+    kind: 'literal';
+    value: SqlValue;
+}
+
+/** A reference to a column, optionally qualified with a table name or alias */
+export interface ColumnExpr {
+    kind: 'column';
+    table: string | null;
+    name: string;
+}
+
+export interface UnaryExpr {
+    kind: 'unary';
+    op: UnaryOperator;
+    operand: Expr;
+}
+
+export interface BinaryExpr {
+    kind: 'binary';
+    op: BinaryOperator;
+    left: Expr;
+    right: Expr;
+}
+
+/** A function call; `star` is set for calls written as name(*), `distinct` for name(DISTINCT arg) */
+export interface FunctionExpr {
+    kind: 'function';
+    name: string;
+    args: Expr[];
+    star: boolean;
+    distinct: boolean;
+}
+
+/** `operand [NOT] IN (list)` */
+export interface InExpr {
+    kind: 'in';
+    operand: Expr;
+    list: Expr[];
+    negated: boolean;
+}
+
+/** `operand [NOT] BETWEEN low AND high` */
+export interface BetweenExpr {
+    kind: 'between';
+    operand: Expr;
+    low: Expr;
+    high: Expr;
+    negated: boolean;
+}
+
+/** `operand [NOT] LIKE|GLOB pattern [ESCAPE escape]` */
+export interface LikeExpr {
+    kind: 'like';
+    op: 'LIKE' | 'GLOB';
+    operand: Expr;
+    pattern: Expr;
+    escape: Expr | null;
+    negated: boolean;
+}
+
+/** `*`, `table.*` or an expression with an optional alias */
+/** `CASE [operand] WHEN when THEN then ... [ELSE otherwise] END` */
+export interface CaseExpr {
+    kind: 'case';
+    operand: Expr | null;
+    branches: Array<{ when: Expr, then: Expr }>;
+    otherwise: Expr | null;
+}
+
+/** `CAST(operand AS typeName)` */
+export interface CastExpr {
+    kind: 'cast';
+    operand: Expr;
+    typeName: string;
+}
+
+/** `operand COLLATE collation` */
+export interface CollateExpr {
+    kind: 'collate';
+    operand: Expr;
+    collation: string;
+}
+
+/** `*`, `table.*` or an expression with an optional alias */
+export type ResultColumn =
+    | { kind: 'star', table: string | null }
+    | { kind: 'expr', expr: Expr, alias: string | null };
+
+export interface TableRef {
+    /** Schema the name is qualified with, as in `main.t` */
+    schema: string | null;
+    name: string;
+    alias: string | null;
+}
+
+/**
+ * A table joined to the ones before it in the FROM clause. A comma join is an inner join
+ * without a constraint; NATURAL is recorded separately and implies USING the common columns.
+ */
+export interface JoinClause {
+    kind: 'inner' | 'left' | 'cross';
+    natural: boolean;
+    table: TableRef;
+    on: Expr | null;
+    using: string[] | null;
+}
+
+/** One ORDER BY term: `expr [COLLATE name] [ASC|DESC] [NULLS FIRST|LAST]` */
+export interface OrderingTerm {
+    expr: Expr;
+    collation: string | null;
+    descending: boolean;
+    /** Where NULLs go when written explicitly; by default they sort as the smallest value */
+    nulls: 'first' | 'last' | null;
+}
+
+export interface SelectStatement {
+    kind: 'select';
+    distinct: boolean;
+    columns: ResultColumn[];
+    from: TableRef | null;
+    joins: JoinClause[];
+    where: Expr | null;
+    groupBy: Expr[];
+    having: Expr | null;
+    orderBy: OrderingTerm[];
+    limit: Expr | null;
+    offset: Expr | null;
+}
+
+/** One entry of an index's column list: `expr [COLLATE name] [ASC|DESC]` */
+export interface IndexedColumn {
+    expr: Expr;
+    collation: string | null;
+    descending: boolean;
+}
+
+export interface CreateIndexStatement {
+    kind: 'createIndex';
+    name: string;
+    table: string;
+    unique: boolean;
+    ifNotExists: boolean;
+    columns: IndexedColumn[];
+    /** Condition of a partial index */
+    where: Expr | null;
+    /** The statement from the index name, without its schema, to the end, as sqlite_schema stores it after `CREATE [UNIQUE] INDEX ` */
+    sqlTail: string;
+}
+
+/** A constraint attached to a column definition */
+export type ColumnConstraint =
+    | { kind: 'primaryKey', descending: boolean, autoincrement: boolean }
+    | { kind: 'notNull' }
+    | { kind: 'unique' }
+    | { kind: 'check', expr: Expr }
+    | { kind: 'default', value: Expr }
+    | { kind: 'collate', collation: string }
+    | { kind: 'references', table: string, columns: string[] }
+    | { kind: 'generated', expr: Expr, stored: boolean };
+
+/** `name [type] [constraints...]` in CREATE TABLE */
+export interface ColumnDefinition {
+    name: string;
+    /** Declared type as written, with its words separated by single spaces; empty if none */
+    type: string;
+    constraints: ColumnConstraint[];
+}
+
+/** A constraint listed after the column definitions of CREATE TABLE */
+export type TableConstraint =
+    | { kind: 'primaryKey', columns: IndexedColumn[], autoincrement: boolean }
+    | { kind: 'unique', columns: IndexedColumn[] }
+    | { kind: 'check', expr: Expr }
+    | { kind: 'foreignKey', columns: string[], table: string, foreignColumns: string[] };
+
+export interface CreateTableStatement {
+    kind: 'createTable';
+    name: string;
+    temporary: boolean;
+    ifNotExists: boolean;
+    columns: ColumnDefinition[];
+    constraints: TableConstraint[];
+    withoutRowid: boolean;
+    strict: boolean;
+    /** The statement from the table name, without its schema, to the end, as sqlite_schema stores it after `CREATE TABLE ` */
+    sqlTail: string;
+}
+
+/** `DROP TABLE|INDEX [IF EXISTS] [schema.]name` */
+export interface DropStatement {
+    kind: 'drop';
+    type: 'table' | 'index';
+    schema: string | null;
+    name: string;
+    ifExists: boolean;
+}
+
+/** `PRAGMA [schema.]name [= value | (value)]` */
+export interface PragmaStatement {
+    kind: 'pragma';
+    schema: string | null;
+    name: string;
+    /** Argument as written: a signed number, a name or a string; null if none */
+    value: string | null;
+}
+
+/**
+ * `INSERT INTO table [(columns)] VALUES (values), ...`. `DEFAULT VALUES` is a single row
+ * that lists no columns, so that every column takes its default.
+ */
+export interface InsertStatement {
+    kind: 'insert';
+    table: TableRef;
+    /** Columns the values are for, in order; null if not listed, meaning every column */
+    columns: string[] | null;
+    /** Values of each row */
+    rows: Expr[][];
+}
+
+/**
+ * `UPDATE table SET column = value, ... [WHERE condition]`.
+ */
+export interface UpdateStatement {
+    kind: 'update';
+    table: TableRef;
+    /** Columns to change and their new values, computed from each row as it was before the change */
+    assignments: Array<{ column: string, value: Expr }>;
+    where: Expr | null;
+}
+
+/**
+ * `DELETE FROM table [WHERE condition]`.
+ */
+export interface DeleteStatement {
+    kind: 'delete';
+    table: TableRef;
+    where: Expr | null;
+}
+
+/**
+ * `BEGIN`, `COMMIT` (or `END`) or `ROLLBACK`, each optionally followed by TRANSACTION.
+ */
+export interface TransactionStatement {
+    kind: 'transaction';
+    action: 'begin' | 'commit' | 'rollback';
+}
+
+export type Statement = SelectStatement | InsertStatement | UpdateStatement | DeleteStatement | TransactionStatement | CreateIndexStatement | CreateTableStatement | DropStatement | PragmaStatement;
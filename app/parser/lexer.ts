@@ -0,0 +1,151 @@
+/**
+ * Kinds of tokens produced by the SQL lexer.
+ */
+export type TokenType = 'keyword' | 'identifier' | 'string' | 'number' | 'blob' | 'operator' | 'eof';
+
+/**
+ * A single lexical token with its position in the source text.
+ */
+export interface Token {
+    type: TokenType;
+    /** Keyword text is upper-cased, identifiers and strings are unquoted */
+    text: string;
+    /** Byte offset of the first character of the token in the SQL text */
+    position: number;
+    /** Byte offset just past the last character of the token */
+    end: number;
+    /** True for identifiers written as "name", `name` or [name] */
+    quoted?: boolean;
+}
+
+/**
+ * Words that always act as keywords and can never be used as bare identifiers.
+ * Other SQLite keywords (ASC, DESC, KEY, ...) are lexed as identifiers and
+ * recognised by the parser from context, mirroring SQLite's fallback rules.
+ */
+const RESERVED_KEYWORDS = new Set([
+    'ALL', 'AND', 'AS', 'BETWEEN', 'BY', 'CASE', 'CHECK', 'COLLATE', 'CONSTRAINT',
+    'CREATE', 'CROSS', 'DEFAULT', 'DELETE', 'DISTINCT', 'DROP', 'ELSE', 'ESCAPE',
+    'EXISTS', 'FOREIGN', 'FROM', 'GLOB', 'GROUP', 'HAVING', 'IN', 'INDEX', 'INNER',
+    'INSERT', 'INTO', 'IS', 'ISNULL', 'JOIN', 'LEFT', 'LIKE', 'LIMIT', 'NATURAL',
+    'NOT', 'NOTNULL', 'NULL', 'ON', 'OR', 'ORDER', 'OUTER', 'PRIMARY', 'REFERENCES',
+    'SELECT', 'SET', 'TABLE', 'THEN', 'UNION', 'UNIQUE', 'UPDATE', 'USING', 'VALUES',
+    'WHEN', 'WHERE',
+]);
+
+/**
+ * Operators and punctuation, longest first so that multi-character operators win.
+ */
+const OPERATORS = [
+    '<<', '>>', '<=', '>=', '==', '!=', '<>', '||',
+    '<', '>', '=', '+', '-', '*', '/', '%', '&', '|', '~', '(', ')', ',', ';', '.',
+];
+
+/**
+ * Build a syntax error that points at a position in the SQL text.
+ * @param sql - The SQL text being processed
+ * @param position - Byte offset of the offending input
+ * @param detail - Description of the problem
+ * @returns Error with the position and surrounding text in its message
+ */
+export function syntaxError(sql: string, position: number, detail: string): Error {
+    const near = sql.slice(position, position + 20).split(/\s/)[0];
+    const location = position >= sql.length ? 'at end of input' : `near "${near}" at position ${position}`;
+    return new Error(`Parse error ${location}: ${detail}`);
+}
+
+/**
+ * Split a SQL string into tokens, skipping whitespace and comments.
+ * @param sql - The SQL text to tokenize
+ * @returns Array of tokens, always terminated by an 'eof' token
+ */
+export function tokenize(sql: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    
+    while (pos < sql.length) {
+        const ch = sql[pos];
+        
+        if (/\s/.test(ch)) {
+            pos++;
+        } else if (sql.startsWith('--', pos)) {
+            const end = sql.indexOf('\n', pos);
+            pos = end === -1 ? sql.length : end + 1;
+        } else if (sql.startsWith('/*', pos)) {
+            const end = sql.indexOf('*/', pos + 2);
+            pos = end === -1 ? sql.length : end + 2;
+        } else if (ch === "'") {
+            const [text, next] = readQuoted(sql, pos, "'");
+            tokens.push({ type: 'string', text, position: pos, end: next });
+            pos = next;
+        } else if (ch === '"' || ch === '`') {
+            const [text, next] = readQuoted(sql, pos, ch);
+            tokens.push({ type: 'identifier', text, position: pos, end: next, quoted: true });
+            pos = next;
+        } else if (ch === '[') {
+            const end = sql.indexOf(']', pos);
+            if (end === -1) {
+                throw syntaxError(sql, pos, 'unterminated identifier');
+            }
+            tokens.push({ type: 'identifier', text: sql.slice(pos + 1, end), position: pos, end: end + 1, quoted: true });
+            pos = end + 1;
+        } else if ((ch === 'x' || ch === 'X') && sql[pos + 1] === "'") {
+            const [text, next] = readQuoted(sql, pos + 1, "'");
+            if (!/^([0-9a-fA-F]{2})*$/.test(text)) {
+                throw syntaxError(sql, pos, 'malformed blob literal');
+            }
+            tokens.push({ type: 'blob', text, position: pos, end: next });
+            pos = next;
+        } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(sql[pos + 1] ?? ''))) {
+            const match = sql.slice(pos).match(/^(0[xX][0-9a-fA-F]+|([0-9]+(\.[0-9]*)?|\.[0-9]+)([eE][+-]?[0-9]+)?)/)!;
+            tokens.push({ type: 'number', text: match[0], position: pos, end: pos + match[0].length });
+            pos += match[0].length;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const word = sql.slice(pos).match(/^[A-Za-z_][A-Za-z0-9_$]*/)![0];
+            const upper = word.toUpperCase();
+            if (RESERVED_KEYWORDS.has(upper)) {
+                tokens.push({ type: 'keyword', text: upper, position: pos, end: pos + word.length });
+            } else {
+                tokens.push({ type: 'identifier', text: word, position: pos, end: pos + word.length });
+            }
+            pos += word.length;
+        } else {
+            const op = OPERATORS.find(candidate => sql.startsWith(candidate, pos));
+            if (!op) {
+                throw syntaxError(sql, pos, `unrecognized token "${ch}"`);
+            }
+            tokens.push({ type: 'operator', text: op, position: pos, end: pos + op.length });
+            pos += op.length;
+        }
+    }
+    
+    tokens.push({ type: 'eof', text: '', position: sql.length, end: sql.length });
+    return tokens;
+}
+
+/**
+ * Read a quoted string or identifier, where a doubled quote character is an escaped quote.
+ * @param sql - The SQL text
+ * @param start - Offset of the opening quote
+ * @param quote - The quote character
+ * @returns Tuple of [unescaped contents, offset after the closing quote]
+ */
+function readQuoted(sql: string, start: number, quote: string): [string, number] {
+    let text = '';
+    let pos = start + 1;
+    
+    while (pos < sql.length) {
+        if (sql[pos] === quote) {
+            if (sql[pos + 1] === quote) {
+                text += quote;
+                pos += 2;
+                continue;
+            }
+            return [text, pos + 1];
+        }
+        text += sql[pos];
+        pos++;
+    }
+    
+    throw syntaxError(sql, start, 'unterminated quoted string');
+}
@@ -1,37 +1,81 @@
-import { readVarint } from '../utils/varint.js';
-import { getSerialTypeSize, parseSerialValue } from '../utils/serialTypes.js';
+import { readVarint, encodeVarint } from '../utils/varint.js';
+import { getSerialType, getSerialTypeSize, parseSerialValue, writeSerialValue } from '../utils/serialTypes.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import type { TextEncoding } from '../utils/encoding.js';
 
 /**
- * Parse a table record to extract rowid and column values.
- * @param buffer - Buffer containing the record data
- * @returns Object with rowid and array of column values
+ * A row of a table B-tree: its rowid and the column values stored in the record.
  */
-export function parseRecord(buffer: Uint8Array): { rowid: number, values: string[] } {
+export interface Row {
+    rowid: bigint;
+    values: SqlValue[];
+}
+
+/**
+ * Parse a record payload into its column values. Like SQLite, reject a record whose header
+ * runs past its declared size or whose values do not exactly fill the payload.
+ * @param payload - Buffer containing the complete record (header and body)
+ * @param encoding - Text encoding of the database
+ * @returns Array of column values in record order
+ */
+export function parseRecord(payload: Uint8Array, encoding: TextEncoding = 'utf-8'): SqlValue[] {
     let offset = 0;
     
-    const [recordSize, recordSizeBytes] = readVarint(buffer, offset);
-    offset += recordSizeBytes;
-    
-    const [rowid, rowidBytes] = readVarint(buffer, offset);
-    offset += rowidBytes;
-    
-    const [headerSize, headerSizeBytes] = readVarint(buffer, offset);
+    const [headerSize, headerSizeBytes] = readVarint(payload, offset);
     offset += headerSizeBytes;
+    if (headerSize > payload.length) {
+        throw new Error("database disk image is malformed");
+    }
     
     const serialTypes: number[] = [];
-    const headerStart = offset - headerSizeBytes;
-    while (offset - headerStart < headerSize) {
-        const [serialType, serialTypeBytes] = readVarint(buffer, offset);
+    while (offset < headerSize) {
+        const [serialType, serialTypeBytes] = readVarint(payload, offset);
         serialTypes.push(serialType);
         offset += serialTypeBytes;
     }
+    const bodySize = serialTypes.reduce((size, serialType) => size + getSerialTypeSize(serialType), 0);
+    if (offset !== headerSize || headerSize + bodySize !== payload.length) {
+        throw new Error("database disk image is malformed");
+    }
     
-    const values: string[] = [];
+    const values: SqlValue[] = [];
     for (const serialType of serialTypes) {
-        const value = parseSerialValue(buffer, offset, serialType);
+        const value = parseSerialValue(payload, offset, serialType, encoding);
         values.push(value);
         offset += getSerialTypeSize(serialType);
     }
     
-    return { rowid, values };
+    return values;
+}
+
+/**
+ * Encode column values as a record payload, the inverse of parseRecord.
+ * @param values - Column values in record order
+ * @param encoding - Text encoding of the database
+ * @returns Buffer containing the record header and body
+ */
+export function encodeRecord(values: SqlValue[], encoding: TextEncoding = 'utf-8'): Uint8Array {
+    const serialTypes = values.map(value => getSerialType(value, encoding));
+    const typeBytes = serialTypes.map(encodeVarint);
+    const typesSize = typeBytes.reduce((size, bytes) => size + bytes.length, 0);
+    
+    // The header size counts its own varint, whose length depends on the total
+    let headerSize = typesSize + 1;
+    while (encodeVarint(headerSize).length + typesSize !== headerSize) {
+        headerSize = typesSize + encodeVarint(headerSize).length;
+    }
+    const bodySize = serialTypes.reduce((size, serialType) => size + getSerialTypeSize(serialType), 0);
+    
+    const record = new Uint8Array(headerSize + bodySize);
+    record.set(encodeVarint(headerSize), 0);
+    let offset = headerSize - typesSize;
+    for (const bytes of typeBytes) {
+        record.set(bytes, offset);
+        offset += bytes.length;
+    }
+    values.forEach((value, i) => {
+        writeSerialValue(record, offset, value, serialTypes[i], encoding);
+        offset += getSerialTypeSize(serialTypes[i]);
+    });
+    return record;
 }
@@ -1,28 +1,230 @@
+import { parseSql } from './sql.js';
+import type { Expr, CreateTableStatement } from './ast.js';
+import { getAffinity } from '../utils/affinity.js';
+import type { Affinity } from '../utils/affinity.js';
+import { parseCollation } from '../utils/collation.js';
+import type { Collation } from '../utils/collation.js';
+
 /**
- * Parse a CREATE TABLE statement to extract column names and identify the INTEGER PRIMARY KEY.
+ * A column of a table as declared in its CREATE TABLE statement.
+ */
+export interface ColumnSchema {
+    name: string;
+    /** Declared type, empty if none */
+    declaredType: string;
+    affinity: Affinity;
+    /** Declared collating sequence, BINARY if none */
+    collation: Collation;
+    notNull: boolean;
+    /** DEFAULT expression, null if none */
+    defaultValue: Expr | null;
+    /** Whether the column is part of the primary key */
+    primaryKey: boolean;
+    /** Whether a UNIQUE constraint covers exactly this column */
+    unique: boolean;
+    /** Expression of a generated column; VIRTUAL ones are computed on read and not stored in the record */
+    generated: { expr: Expr, stored: boolean } | null;
+}
+
+/**
+ * A column of a PRIMARY KEY or UNIQUE constraint, ordered as the constraint declares it.
+ */
+export interface ConstraintColumn {
+    name: string;
+    /** Collation from the constraint, or else the column's declared collation */
+    collation: Collation;
+    descending: boolean;
+}
+
+/**
+ * The structure of a table, from its CREATE TABLE statement.
+ */
+export interface TableSchema {
+    name: string;
+    columns: ColumnSchema[];
+    /** Primary key columns in key order, empty if the table has no PRIMARY KEY */
+    primaryKey: ConstraintColumn[];
+    /** Column that aliases the rowid, if any */
+    integerPrimaryKeyColumn: string | null;
+    /** Whether rowids are never reused, tracked in sqlite_sequence; only a rowid alias can be AUTOINCREMENT */
+    autoincrement: boolean;
+    /**
+     * Columns of each PRIMARY KEY and UNIQUE constraint backed by an automatic index, in the order
+     * SQLite numbers those indexes: sqlite_autoindex_<table>_<N> covers the N-th entry. The primary
+     * key of a WITHOUT ROWID table takes a number too, although the table itself is its index.
+     */
+    uniqueKeys: ConstraintColumn[][];
+    /** CHECK constraints of the columns and the table */
+    checks: Expr[];
+    foreignKeys: Array<{ columns: string[], table: string, foreignColumns: string[] }>;
+    /** Whether the table is stored as an index B-tree keyed by its primary key */
+    withoutRowid: boolean;
+}
+
+/**
+ * Parse a CREATE TABLE statement into the table's schema.
  * @param sql - The CREATE TABLE SQL statement
- * @returns Columns array and the name of the INTEGER PRIMARY KEY column (if present)
+ * @returns The table schema
  */
-export function parseCreateTable(sql: string): { columns: string[], integerPrimaryKeyColumn: string | null } {
-    const columnsMatch = sql.match(/\(([^)]+)\)/s);
-    if (!columnsMatch) {
-        throw new Error("Failed to parse CREATE TABLE statement");
+export function parseCreateTable(sql: string): TableSchema {
+    const statement = parseSql(sql);
+    if (statement.kind !== 'createTable') {
+        throw new Error(`Expected a CREATE TABLE statement: ${sql}`);
     }
+    return buildTableSchema(statement);
+}
+
+/**
+ * Find a column of a table by name, ignoring case as SQLite does.
+ * @param table - The table
+ * @param name - Column name
+ * @returns Index of the column, or -1 if the table has no such column
+ */
+export function findColumn(table: TableSchema, name: string): number {
+    const lower = name.toLowerCase();
+    return table.columns.findIndex(column => column.name.toLowerCase() === lower);
+}
+
+/**
+ * Check whether two keys have the same columns with the same collations, so that SQLite
+ * uses a single index for both whatever their sort orders.
+ * @param a - A key
+ * @param b - Another key
+ * @returns True if the keys are equivalent
+ */
+export function isSameKey(a: ConstraintColumn[], b: ConstraintColumn[]): boolean {
+    return a.length === b.length && a.every((column, i) => column.name.toLowerCase() === b[i].name.toLowerCase() && column.collation === b[i].collation);
+}
+
+/**
+ * Resolve the constraints of a parsed CREATE TABLE statement onto its columns.
+ * @param statement - Parsed statement
+ * @returns The table schema
+ */
+function buildTableSchema(statement: CreateTableStatement): TableSchema {
+    const table: TableSchema = {
+        name: statement.name,
+        columns: [],
+        primaryKey: [],
+        integerPrimaryKeyColumn: null,
+        autoincrement: false,
+        uniqueKeys: [],
+        checks: [],
+        foreignKeys: [],
+        withoutRowid: statement.withoutRowid,
+    };
+    // Only the first of several equivalent keys gets an index
+    const addKey = (key: ConstraintColumn[]) => {
+        if (!table.uniqueKeys.some(existing => isSameKey(existing, key))) {
+            table.uniqueKeys.push(key);
+        }
+    };
+    // A WITHOUT ROWID table gets the index for a key that would otherwise alias the rowid after all the others
+    let deferredKey: ConstraintColumn[] | null = null;
+    // Only a single-column key on a column declared exactly INTEGER aliases the rowid; it needs no index
+    const addPrimaryKey = (key: ConstraintColumn[], aliasable: boolean, autoincrement: boolean) => {
+        if (table.primaryKey.length > 0) {
+            throw new Error(`table "${table.name}" has more than one primary key`);
+        }
+        table.primaryKey = key.filter((column, i) => key.findIndex(other => other.name.toLowerCase() === column.name.toLowerCase()) === i);
+        table.primaryKey.forEach(({ name }) => table.columns[findColumn(table, name)].primaryKey = true);
+        const [column] = table.primaryKey.map(({ name }) => table.columns[findColumn(table, name)]);
+        if (table.primaryKey.length > 1 || !aliasable || column.declaredType.toUpperCase() !== 'INTEGER') {
+            addKey(table.primaryKey);
+        } else if (table.withoutRowid) {
+            deferredKey = table.primaryKey;
+        } else {
+            table.integerPrimaryKeyColumn = column.name;
+            table.autoincrement = autoincrement;
+            return;
+        }
+        if (autoincrement) {
+            throw new Error("AUTOINCREMENT is only allowed on an INTEGER PRIMARY KEY");
+        }
+    };
     
-    const columnsText = columnsMatch[1];
-    const columnDefs = columnsText.split(',').map(col => col.trim());
-    const columns: string[] = [];
-    let integerPrimaryKeyColumn: string | null = null;
-    
-    for (const def of columnDefs) {
-        const colName = def.split(/\s+/)[0].trim();
-        columns.push(colName);
+    for (const definition of statement.columns) {
+        const column: ColumnSchema = {
+            name: definition.name,
+            declaredType: definition.type,
+            affinity: getAffinity(definition.type),
+            collation: 'BINARY',
+            notNull: false,
+            defaultValue: null,
+            primaryKey: false,
+            unique: false,
+            generated: null,
+        };
+        table.columns.push(column);
+        // Keys on the column use its collation, which may be declared after them
+        for (const constraint of definition.constraints) {
+            if (constraint.kind === 'collate') {
+                column.collation = parseCollation(constraint.collation);
+            }
+        }
         
-        const upperDef = def.toUpperCase();
-        if (upperDef.includes('INTEGER') && upperDef.includes('PRIMARY') && upperDef.includes('KEY')) {
-            integerPrimaryKeyColumn = colName;
+        for (const constraint of definition.constraints) {
+            switch (constraint.kind) {
+                case 'primaryKey':
+                    addPrimaryKey([{ name: definition.name, collation: column.collation, descending: constraint.descending }], !constraint.descending, constraint.autoincrement);
+                    break;
+                case 'notNull':
+                    column.notNull = true;
+                    break;
+                case 'unique':
+                    column.unique = true;
+                    addKey([{ name: definition.name, collation: column.collation, descending: false }]);
+                    break;
+                case 'check':
+                    table.checks.push(constraint.expr);
+                    break;
+                case 'default':
+                    column.defaultValue = constraint.value;
+                    break;
+                case 'references':
+                    table.foreignKeys.push({ columns: [definition.name], table: constraint.table, foreignColumns: constraint.columns });
+                    break;
+                case 'generated':
+                    column.generated = { expr: constraint.expr, stored: constraint.stored };
+                    break;
+            }
         }
     }
     
-    return { columns, integerPrimaryKeyColumn };
+    for (const constraint of statement.constraints) {
+        switch (constraint.kind) {
+            case 'primaryKey':
+            case 'unique': {
+                const key = constraint.columns.map(({ expr, collation, descending }): ConstraintColumn => {
+                    const index = expr.kind === 'column' ? findColumn(table, expr.name) : -1;
+                    if (index === -1) {
+                        throw new Error(`Table ${table.name} has a key on an unknown column`);
+                    }
+                    const column = table.columns[index];
+                    return { name: column.name, collation: collation ? parseCollation(collation) : column.collation, descending };
+                });
+                if (constraint.kind === 'primaryKey') {
+                    // Unlike the column constraint, PRIMARY KEY (x DESC) still makes an alias
+                    addPrimaryKey(key, true, constraint.autoincrement);
+                    break;
+                }
+                if (key.length === 1) {
+                    table.columns[findColumn(table, key[0].name)].unique = true;
+                }
+                addKey(key);
+                break;
+            }
+            case 'check':
+                table.checks.push(constraint.expr);
+                break;
+            case 'foreignKey':
+                table.foreignKeys.push({ columns: constraint.columns, table: constraint.table, foreignColumns: constraint.foreignColumns });
+                break;
+        }
+    }
+    
+    if (deferredKey) {
+        addKey(deferredKey);
+    }
+    return table;
 }
@@ -0,0 +1,1228 @@
+import { tokenize, syntaxError } from './lexer.js';
+import type { Token } from './lexer.js';
+import { INT64_MAX, INT64_MIN } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import type { Expr, BinaryOperator, ResultColumn, TableRef, JoinClause, OrderingTerm, SelectStatement, InsertStatement, UpdateStatement, DeleteStatement, TransactionStatement, CreateIndexStatement, IndexedColumn, CreateTableStatement, DropStatement, PragmaStatement, ColumnDefinition, ColumnConstraint, TableConstraint, Statement } from './ast.js';
+
+/**
+ * Cursor over the token stream shared by the recursive-descent functions.
+ */
+interface ParserState {
+    sql: string;
+    tokens: Token[];
+    pos: number;
+}
+
+/**
+ * Parse a single SQL statement into an AST.
+ * @param sql - The SQL text, optionally terminated by a semicolon
+ * @returns The parsed statement
+ */
+export function parseSql(sql: string): Statement {
+    const state: ParserState = { sql, tokens: tokenize(sql), pos: 0 };
+    
+    const statement = parseStatement(state);
+    acceptOperator(state, ';');
+    if (peek(state).type !== 'eof') {
+        throw unexpected(state);
+    }
+    return statement;
+}
+
+/**
+ * Parse a script of SQL statements separated by semicolons. Empty statements are skipped.
+ * @param sql - The SQL text
+ * @returns The parsed statements in order
+ */
+export function parseScript(sql: string): Statement[] {
+    const state: ParserState = { sql, tokens: tokenize(sql), pos: 0 };
+    
+    const statements: Statement[] = [];
+    while (peek(state).type !== 'eof') {
+        if (acceptOperator(state, ';')) {
+            continue;
+        }
+        statements.push(parseStatement(state));
+        if (peek(state).type !== 'eof') {
+            expectOperator(state, ';');
+        }
+    }
+    return statements;
+}
+
+/**
+ * Parse a statement, dispatching on its leading keyword.
+ * @param state - Parser state
+ * @returns The parsed statement
+ */
+function parseStatement(state: ParserState): Statement {
+    if (isKeyword(peek(state), 'SELECT')) {
+        return parseSelect(state);
+    }
+    if (isKeyword(peek(state), 'INSERT')) {
+        return parseInsert(state);
+    }
+    if (isKeyword(peek(state), 'UPDATE')) {
+        return parseUpdate(state);
+    }
+    if (isKeyword(peek(state), 'DELETE')) {
+        return parseDelete(state);
+    }
+    if (isKeyword(peek(state), 'CREATE')) {
+        const next = state.tokens[state.pos + 1];
+        return isKeyword(next, 'TABLE') || isWord(next, 'TEMP') || isWord(next, 'TEMPORARY') ? parseCreateTable(state) : parseCreateIndex(state);
+    }
+    if (isKeyword(peek(state), 'DROP')) {
+        return parseDrop(state);
+    }
+    if (isWord(peek(state), 'PRAGMA')) {
+        return parsePragma(state);
+    }
+    if (['BEGIN', 'COMMIT', 'END', 'ROLLBACK'].some(word => isWord(peek(state), word))) {
+        return parseTransaction(state);
+    }
+    throw unexpected(state);
+}
+
+/**
+ * Parse a SELECT statement.
+ * @param state - Parser state
+ * @returns The parsed SELECT statement
+ */
+function parseSelect(state: ParserState): SelectStatement {
+    expectKeyword(state, 'SELECT');
+    const distinct = acceptKeyword(state, 'DISTINCT');
+    if (!distinct) {
+        acceptKeyword(state, 'ALL');
+    }
+    
+    const columns: ResultColumn[] = [];
+    do {
+        columns.push(parseResultColumn(state));
+    } while (acceptOperator(state, ','));
+    
+    let from: TableRef | null = null;
+    const joins: JoinClause[] = [];
+    if (acceptKeyword(state, 'FROM')) {
+        from = parseTableRef(state);
+        for (let join = parseJoin(state); join; join = parseJoin(state)) {
+            joins.push(join);
+        }
+    }
+    
+    let where: Expr | null = null;
+    if (acceptKeyword(state, 'WHERE')) {
+        where = parseExpr(state);
+    }
+    
+    const groupBy: Expr[] = [];
+    if (acceptKeyword(state, 'GROUP')) {
+        expectKeyword(state, 'BY');
+        do {
+            groupBy.push(parseExpr(state));
+        } while (acceptOperator(state, ','));
+    }
+    
+    let having: Expr | null = null;
+    if (acceptKeyword(state, 'HAVING')) {
+        having = parseExpr(state);
+    }
+    
+    const orderBy: OrderingTerm[] = [];
+    if (acceptKeyword(state, 'ORDER')) {
+        expectKeyword(state, 'BY');
+        do {
+            const { expr, collation } = parseCollatedExpr(state);
+            let descending = false;
+            if (acceptWord(state, 'DESC')) {
+                descending = true;
+            } else {
+                acceptWord(state, 'ASC');
+            }
+            
+            let nulls: OrderingTerm['nulls'] = null;
+            if (acceptWord(state, 'NULLS')) {
+                if (acceptWord(state, 'FIRST')) {
+                    nulls = 'first';
+                } else if (acceptWord(state, 'LAST')) {
+                    nulls = 'last';
+                } else {
+                    throw unexpected(state);
+                }
+            }
+            orderBy.push({ expr, collation, descending, nulls });
+        } while (acceptOperator(state, ','));
+    }
+    
+    let limit: Expr | null = null;
+    let offset: Expr | null = null;
+    if (acceptKeyword(state, 'LIMIT')) {
+        limit = parseExpr(state);
+        if (acceptWord(state, 'OFFSET')) {
+            offset = parseExpr(state);
+        } else if (acceptOperator(state, ',')) {
+            // "LIMIT x, y" means OFFSET x LIMIT y
+            offset = limit;
+            limit = parseExpr(state);
+        }
+    }
+    
+    return { kind: 'select', distinct, columns, from, joins, where, groupBy, having, orderBy, limit, offset };
+}
+
+/**
+ * Parse an INSERT statement with a VALUES list or DEFAULT VALUES.
+ * @param state - Parser state
+ * @returns The parsed INSERT statement
+ */
+function parseInsert(state: ParserState): InsertStatement {
+    expectKeyword(state, 'INSERT');
+    expectKeyword(state, 'INTO');
+    const table = parseTargetTable(state);
+    
+    if (acceptKeyword(state, 'DEFAULT')) {
+        expectKeyword(state, 'VALUES');
+        return { kind: 'insert', table, columns: [], rows: [[]] };
+    }
+    const columns = isOperator(peek(state), '(') ? parseNameList(state) : null;
+    expectKeyword(state, 'VALUES');
+    const rows: Expr[][] = [];
+    do {
+        expectOperator(state, '(');
+        const values: Expr[] = [];
+        do {
+            values.push(parseExpr(state));
+        } while (acceptOperator(state, ','));
+        expectOperator(state, ')');
+        rows.push(values);
+    } while (acceptOperator(state, ','));
+    return { kind: 'insert', table, columns, rows };
+}
+
+/**
+ * Parse an UPDATE statement.
+ * @param state - Parser state
+ * @returns The parsed UPDATE statement
+ */
+function parseUpdate(state: ParserState): UpdateStatement {
+    expectKeyword(state, 'UPDATE');
+    const table = parseTargetTable(state);
+    expectKeyword(state, 'SET');
+    const assignments: UpdateStatement['assignments'] = [];
+    do {
+        const column = expectIdentifier(state);
+        expectOperator(state, '=');
+        assignments.push({ column, value: parseExpr(state) });
+    } while (acceptOperator(state, ','));
+    const where = acceptKeyword(state, 'WHERE') ? parseExpr(state) : null;
+    return { kind: 'update', table, assignments, where };
+}
+
+/**
+ * Parse a DELETE statement.
+ * @param state - Parser state
+ * @returns The parsed DELETE statement
+ */
+function parseDelete(state: ParserState): DeleteStatement {
+    expectKeyword(state, 'DELETE');
+    expectKeyword(state, 'FROM');
+    const table = parseTargetTable(state);
+    const where = acceptKeyword(state, 'WHERE') ? parseExpr(state) : null;
+    return { kind: 'delete', table, where };
+}
+
+/**
+ * Parse a BEGIN, COMMIT, END or ROLLBACK statement. The kind of lock BEGIN asks for is accepted
+ * and ignored, since every write transaction holds the database exclusively.
+ * @param state - Parser state
+ * @returns The parsed transaction statement
+ */
+function parseTransaction(state: ParserState): TransactionStatement {
+    let action: TransactionStatement['action'];
+    if (acceptWord(state, 'BEGIN')) {
+        action = 'begin';
+        ['DEFERRED', 'IMMEDIATE', 'EXCLUSIVE'].some(word => acceptWord(state, word));
+    } else if (acceptWord(state, 'ROLLBACK')) {
+        action = 'rollback';
+    } else {
+        if (!acceptWord(state, 'COMMIT')) {
+            expectWord(state, 'END');
+        }
+        action = 'commit';
+    }
+    acceptWord(state, 'TRANSACTION');
+    return { kind: 'transaction', action };
+}
+
+/**
+ * Parse the table an INSERT, UPDATE or DELETE statement changes: a name, optionally qualified
+ * with a schema name, with an optional `AS alias`.
+ * @param state - Parser state
+ * @returns The table reference
+ */
+function parseTargetTable(state: ParserState): TableRef {
+    let schema: string | null = null;
+    let name = expectIdentifier(state);
+    if (acceptOperator(state, '.')) {
+        schema = name;
+        name = expectIdentifier(state);
+    }
+    return { schema, name, alias: acceptKeyword(state, 'AS') ? expectIdentifier(state) : null };
+}
+
+/**
+ * Parse a CREATE [UNIQUE] INDEX statement.
+ * @param state - Parser state
+ * @returns The parsed CREATE INDEX statement
+ */
+function parseCreateIndex(state: ParserState): CreateIndexStatement {
+    expectKeyword(state, 'CREATE');
+    const unique = acceptKeyword(state, 'UNIQUE');
+    expectKeyword(state, 'INDEX');
+    const ifNotExists = parseIfNotExists(state);
+    const name = parseObjectName(state);
+    const start = state.tokens[state.pos - 1].position;
+    expectKeyword(state, 'ON');
+    const table = expectIdentifier(state);
+    
+    expectOperator(state, '(');
+    const columns = parseIndexedColumns(state);
+    expectOperator(state, ')');
+    
+    const where = acceptKeyword(state, 'WHERE') ? parseExpr(state) : null;
+    // Like SQLite, keep what follows the last token up to the end of the statement
+    const sqlTail = state.sql.slice(start, peek(state).position);
+    return { kind: 'createIndex', name, table, unique, ifNotExists, columns, where, sqlTail };
+}
+
+/**
+ * Parse a DROP TABLE or DROP INDEX statement.
+ * @param state - Parser state
+ * @returns The parsed DROP statement
+ */
+function parseDrop(state: ParserState): DropStatement {
+    expectKeyword(state, 'DROP');
+    let type: DropStatement['type'] = 'index';
+    if (!acceptKeyword(state, 'INDEX')) {
+        expectKeyword(state, 'TABLE');
+        type = 'table';
+    }
+    let ifExists = false;
+    if (acceptWord(state, 'IF')) {
+        expectKeyword(state, 'EXISTS');
+        ifExists = true;
+    }
+    let schema: string | null = null;
+    let name = expectName(state);
+    if (acceptOperator(state, '.')) {
+        schema = name;
+        name = expectName(state);
+    }
+    return { kind: 'drop', type, schema, name, ifExists };
+}
+
+/**
+ * Parse a PRAGMA statement, whose argument follows an equals sign or is parenthesized.
+ * @param state - Parser state
+ * @returns The parsed PRAGMA statement
+ */
+function parsePragma(state: ParserState): PragmaStatement {
+    expectWord(state, 'PRAGMA');
+    let schema: string | null = null;
+    let name = expectIdentifier(state);
+    if (acceptOperator(state, '.')) {
+        schema = name;
+        name = expectIdentifier(state);
+    }
+    
+    let value: string | null = null;
+    if (acceptOperator(state, '=')) {
+        value = parsePragmaValue(state);
+    } else if (acceptOperator(state, '(')) {
+        value = parsePragmaValue(state);
+        expectOperator(state, ')');
+    }
+    return { kind: 'pragma', schema, name, value };
+}
+
+/**
+ * Parse the argument of a PRAGMA: a signed number, a name or a string.
+ * @param state - Parser state
+ * @returns The argument as written, without quotes
+ */
+function parsePragmaValue(state: ParserState): string {
+    const sign = acceptOperator(state, '+', '-') ?? '';
+    const token = peek(state);
+    if (token.type === 'number' || (!sign && (token.type === 'identifier' || token.type === 'string' || token.type === 'keyword'))) {
+        state.pos++;
+        return sign === '-' ? `-${token.text}` : token.text;
+    }
+    throw unexpected(state, 'expected a pragma value');
+}
+
+/**
+ * Parse a CREATE [TEMP] TABLE statement with its column definitions, table constraints
+ * and the WITHOUT ROWID and STRICT options.
+ * @param state - Parser state
+ * @returns The parsed CREATE TABLE statement
+ */
+function parseCreateTable(state: ParserState): CreateTableStatement {
+    expectKeyword(state, 'CREATE');
+    const temporary = acceptWord(state, 'TEMP') || acceptWord(state, 'TEMPORARY');
+    expectKeyword(state, 'TABLE');
+    const ifNotExists = parseIfNotExists(state);
+    const name = parseObjectName(state);
+    const start = state.tokens[state.pos - 1].position;
+    if (isKeyword(peek(state), 'AS')) {
+        throw unexpected(state, 'CREATE TABLE ... AS SELECT is not supported');
+    }
+    
+    // Column definitions come first; the table constraints after them need not be separated by commas
+    expectOperator(state, '(');
+    const columns: ColumnDefinition[] = [parseColumnDefinition(state)];
+    while (acceptOperator(state, ',') && !startsTableConstraint(peek(state))) {
+        columns.push(parseColumnDefinition(state));
+    }
+    const constraints: TableConstraint[] = [];
+    while (!isOperator(peek(state), ')')) {
+        constraints.push(parseTableConstraint(state));
+        acceptOperator(state, ',');
+    }
+    expectOperator(state, ')');
+    
+    let withoutRowid = false;
+    let strict = false;
+    if (peek(state).type === 'identifier') {
+        do {
+            if (acceptWord(state, 'WITHOUT')) {
+                expectWord(state, 'ROWID');
+                withoutRowid = true;
+            } else {
+                expectWord(state, 'STRICT');
+                strict = true;
+            }
+        } while (acceptOperator(state, ','));
+    }
+    // Like SQLite, keep what follows table options up to the end of the statement, but nothing after the closing parenthesis
+    const sqlTail = state.sql.slice(start, withoutRowid || strict ? peek(state).position : state.tokens[state.pos - 1].end);
+    return { kind: 'createTable', name, temporary, ifNotExists, columns, constraints, withoutRowid, strict, sqlTail };
+}
+
+/**
+ * Parse a column definition: its name, optional type and column constraints.
+ * @param state - Parser state
+ * @returns The parsed column definition
+ */
+function parseColumnDefinition(state: ParserState): ColumnDefinition {
+    const name = expectName(state);
+    // "GENERATED ALWAYS" would otherwise read as part of the type name
+    const type = peek(state).type === 'identifier' && !isWord(peek(state), 'GENERATED') ? parseTypeName(state) : '';
+    
+    const constraints: ColumnConstraint[] = [];
+    for (;;) {
+        const named = acceptKeyword(state, 'CONSTRAINT');
+        if (named) {
+            expectName(state);
+        }
+        
+        if (acceptKeyword(state, 'PRIMARY')) {
+            expectWord(state, 'KEY');
+            const descending = acceptWord(state, 'DESC');
+            if (!descending) {
+                acceptWord(state, 'ASC');
+            }
+            parseConflictClause(state);
+            constraints.push({ kind: 'primaryKey', descending, autoincrement: acceptWord(state, 'AUTOINCREMENT') });
+        } else if (acceptKeyword(state, 'NOT')) {
+            expectKeyword(state, 'NULL');
+            parseConflictClause(state);
+            constraints.push({ kind: 'notNull' });
+        } else if (acceptKeyword(state, 'NULL')) {
+            parseConflictClause(state);
+        } else if (acceptKeyword(state, 'UNIQUE')) {
+            parseConflictClause(state);
+            constraints.push({ kind: 'unique' });
+        } else if (acceptKeyword(state, 'CHECK')) {
+            constraints.push({ kind: 'check', expr: parseParenthesized(state) });
+        } else if (acceptKeyword(state, 'DEFAULT')) {
+            constraints.push({ kind: 'default', value: parseDefaultValue(state) });
+        } else if (acceptKeyword(state, 'COLLATE')) {
+            constraints.push({ kind: 'collate', collation: expectIdentifier(state) });
+        } else if (acceptKeyword(state, 'REFERENCES')) {
+            const { table, columns } = parseForeignKeyClause(state);
+            constraints.push({ kind: 'references', table, columns });
+        } else if (isWord(peek(state), 'GENERATED') || isKeyword(peek(state), 'AS')) {
+            if (acceptWord(state, 'GENERATED')) {
+                expectWord(state, 'ALWAYS');
+            }
+            expectKeyword(state, 'AS');
+            const expr = parseParenthesized(state);
+            const stored = acceptWord(state, 'STORED');
+            if (!stored) {
+                acceptWord(state, 'VIRTUAL');
+            }
+            constraints.push({ kind: 'generated', expr, stored });
+        } else if (named) {
+            throw unexpected(state, 'expected a column constraint');
+        } else {
+            return { name, type, constraints };
+        }
+    }
+}
+
+/**
+ * Parse a table constraint: PRIMARY KEY, UNIQUE, CHECK or FOREIGN KEY, optionally named.
+ * @param state - Parser state
+ * @returns The parsed table constraint
+ */
+function parseTableConstraint(state: ParserState): TableConstraint {
+    if (acceptKeyword(state, 'CONSTRAINT')) {
+        expectName(state);
+    }
+    
+    if (acceptKeyword(state, 'PRIMARY')) {
+        expectWord(state, 'KEY');
+        expectOperator(state, '(');
+        const columns = parseIndexedColumns(state);
+        const autoincrement = acceptWord(state, 'AUTOINCREMENT');
+        expectOperator(state, ')');
+        parseConflictClause(state);
+        return { kind: 'primaryKey', columns, autoincrement };
+    }
+    if (acceptKeyword(state, 'UNIQUE')) {
+        expectOperator(state, '(');
+        const columns = parseIndexedColumns(state);
+        expectOperator(state, ')');
+        parseConflictClause(state);
+        return { kind: 'unique', columns };
+    }
+    if (acceptKeyword(state, 'CHECK')) {
+        const expr = parseParenthesized(state);
+        parseConflictClause(state);
+        return { kind: 'check', expr };
+    }
+    if (acceptKeyword(state, 'FOREIGN')) {
+        expectWord(state, 'KEY');
+        const columns = parseNameList(state);
+        expectKeyword(state, 'REFERENCES');
+        const { table, columns: foreignColumns } = parseForeignKeyClause(state);
+        return { kind: 'foreignKey', columns, table, foreignColumns };
+    }
+    throw unexpected(state, 'expected a table constraint');
+}
+
+function startsTableConstraint(token: Token): boolean {
+    return ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'CHECK', 'FOREIGN'].some(keyword => isKeyword(token, keyword));
+}
+
+/**
+ * Parse the part of a foreign key after REFERENCES. The actions and deferral options
+ * have no effect on reading and are skipped.
+ * @param state - Parser state
+ * @returns The referenced table and columns (empty for its primary key)
+ */
+function parseForeignKeyClause(state: ParserState): { table: string, columns: string[] } {
+    const table = expectName(state);
+    const columns = isOperator(peek(state), '(') ? parseNameList(state) : [];
+    for (;;) {
+        if (acceptKeyword(state, 'ON')) {
+            if (!acceptKeyword(state, 'DELETE') && !acceptKeyword(state, 'UPDATE')) {
+                throw unexpected(state, 'expected DELETE or UPDATE');
+            }
+            if (acceptKeyword(state, 'SET')) {
+                if (!acceptKeyword(state, 'NULL') && !acceptKeyword(state, 'DEFAULT')) {
+                    throw unexpected(state, 'expected NULL or DEFAULT');
+                }
+            } else if (acceptWord(state, 'NO')) {
+                expectWord(state, 'ACTION');
+            } else if (!acceptWord(state, 'CASCADE') && !acceptWord(state, 'RESTRICT')) {
+                throw unexpected(state, 'expected a foreign key action');
+            }
+        } else if (acceptWord(state, 'MATCH')) {
+            expectIdentifier(state);
+        } else if (isWord(peek(state), 'DEFERRABLE') || (isKeyword(peek(state), 'NOT') && isWord(state.tokens[state.pos + 1], 'DEFERRABLE'))) {
+            acceptKeyword(state, 'NOT');
+            expectWord(state, 'DEFERRABLE');
+            if (acceptWord(state, 'INITIALLY') && !acceptWord(state, 'DEFERRED')) {
+                expectWord(state, 'IMMEDIATE');
+            }
+        } else {
+            return { table, columns };
+        }
+    }
+}
+
+/**
+ * Skip an optional `ON CONFLICT resolution` clause of a constraint.
+ * @param state - Parser state
+ */
+function parseConflictClause(state: ParserState): void {
+    if (!acceptKeyword(state, 'ON')) {
+        return;
+    }
+    expectWord(state, 'CONFLICT');
+    if (!['ROLLBACK', 'ABORT', 'FAIL', 'IGNORE', 'REPLACE'].some(resolution => acceptWord(state, resolution))) {
+        throw unexpected(state, 'expected a conflict resolution');
+    }
+}
+
+/**
+ * Parse the value of a DEFAULT constraint: a literal, a signed number, a parenthesized
+ * expression, TRUE or FALSE, CURRENT_TIME, CURRENT_DATE or CURRENT_TIMESTAMP, or a bare
+ * identifier, which SQLite takes as a string.
+ * @param state - Parser state
+ * @returns The default value expression
+ */
+function parseDefaultValue(state: ParserState): Expr {
+    if (isOperator(peek(state), '(')) {
+        return parseParenthesized(state);
+    }
+    const token = peek(state);
+    if (token.type === 'identifier') {
+        state.pos++;
+        const word = token.quoted ? '' : token.text.toUpperCase();
+        if (word === 'TRUE' || word === 'FALSE') {
+            return { kind: 'literal', value: word === 'TRUE' ? 1n : 0n };
+        }
+        if (word === 'CURRENT_TIME' || word === 'CURRENT_DATE' || word === 'CURRENT_TIMESTAMP') {
+            return { kind: 'function', name: word.toLowerCase(), args: [], star: false, distinct: false };
+        }
+        return { kind: 'literal', value: token.text };
+    }
+    if (token.type === 'operator' && token.text !== '+' && token.text !== '-') {
+        throw unexpected(state, 'expected a default value');
+    }
+    return parseUnary(state);
+}
+
+/**
+ * Parse `( expr )`.
+ * @param state - Parser state
+ * @returns The expression between the parentheses
+ */
+function parseParenthesized(state: ParserState): Expr {
+    expectOperator(state, '(');
+    const expr = parseExpr(state);
+    expectOperator(state, ')');
+    return expr;
+}
+
+/**
+ * Parse a parenthesized, comma-separated list of names.
+ * @param state - Parser state
+ * @returns The names
+ */
+function parseNameList(state: ParserState): string[] {
+    expectOperator(state, '(');
+    const names: string[] = [];
+    do {
+        names.push(expectName(state));
+    } while (acceptOperator(state, ','));
+    expectOperator(state, ')');
+    return names;
+}
+
+/**
+ * Parse the comma-separated `expr [COLLATE name] [ASC|DESC]` terms of an index or key.
+ * @param state - Parser state
+ * @returns The indexed columns
+ */
+function parseIndexedColumns(state: ParserState): IndexedColumn[] {
+    const columns: IndexedColumn[] = [];
+    do {
+        const { expr, collation } = parseCollatedExpr(state);
+        let descending = false;
+        if (acceptWord(state, 'DESC')) {
+            descending = true;
+        } else {
+            acceptWord(state, 'ASC');
+        }
+        columns.push({ expr, collation, descending });
+    } while (acceptOperator(state, ','));
+    return columns;
+}
+
+/**
+ * Parse an optional `IF NOT EXISTS`.
+ * @param state - Parser state
+ * @returns True if the clause was present
+ */
+function parseIfNotExists(state: ParserState): boolean {
+    if (!acceptWord(state, 'IF')) {
+        return false;
+    }
+    expectKeyword(state, 'NOT');
+    expectKeyword(state, 'EXISTS');
+    return true;
+}
+
+/**
+ * Parse the name of a table or index being created, which may be schema-qualified.
+ * @param state - Parser state
+ * @returns The name without its schema; only the main schema exists
+ */
+function parseObjectName(state: ParserState): string {
+    const name = expectName(state);
+    return acceptOperator(state, '.') ? expectName(state) : name;
+}
+
+/**
+ * Parse one entry of the select list: `*` or an expression with an optional alias.
+ * @param state - Parser state
+ * @returns The parsed result column
+ */
+function parseResultColumn(state: ParserState): ResultColumn {
+    if (acceptOperator(state, '*')) {
+        return { kind: 'star', table: null };
+    }
+    const [name, dot, star] = state.tokens.slice(state.pos, state.pos + 3);
+    if (name.type === 'identifier' && isOperator(dot, '.') && star && isOperator(star, '*')) {
+        state.pos += 3;
+        return { kind: 'star', table: name.text };
+    }
+    
+    const expr = parseExpr(state);
+    return { kind: 'expr', expr, alias: parseAlias(state) };
+}
+
+/**
+ * Parse a table name in a FROM clause, optionally qualified with a schema name, with an optional alias.
+ * @param state - Parser state
+ * @returns The parsed table reference
+ */
+function parseTableRef(state: ParserState): TableRef {
+    let schema: string | null = null;
+    let name = expectIdentifier(state);
+    if (acceptOperator(state, '.')) {
+        schema = name;
+        name = expectIdentifier(state);
+    }
+    if (isWord(peek(state), 'RIGHT') || isWord(peek(state), 'FULL')) {
+        // These start a join rather than naming an alias
+        return { schema, name, alias: null };
+    }
+    return { schema, name, alias: parseAlias(state) };
+}
+
+/**
+ * Parse the next join of a FROM clause: a comma or `[NATURAL] [LEFT [OUTER] | INNER | CROSS] JOIN`,
+ * then the table and its `ON expr` or `USING (columns)` constraint.
+ * @param state - Parser state
+ * @returns The parsed join, or null at the end of the FROM clause
+ */
+function parseJoin(state: ParserState): JoinClause | null {
+    let kind: JoinClause['kind'] = 'inner';
+    let natural = false;
+    if (!acceptOperator(state, ',')) {
+        natural = acceptKeyword(state, 'NATURAL');
+        if (isWord(peek(state), 'RIGHT') || isWord(peek(state), 'FULL')) {
+            throw unexpected(state, 'RIGHT and FULL OUTER JOINs are not supported');
+        }
+        if (acceptKeyword(state, 'LEFT')) {
+            acceptKeyword(state, 'OUTER');
+            kind = 'left';
+        } else if (acceptKeyword(state, 'CROSS')) {
+            kind = 'cross';
+        } else if (!acceptKeyword(state, 'INNER') && !natural && !isKeyword(peek(state), 'JOIN')) {
+            return null;
+        }
+        expectKeyword(state, 'JOIN');
+    }
+    
+    const table = parseTableRef(state);
+    let on: Expr | null = null;
+    let using: string[] | null = null;
+    if (acceptKeyword(state, 'ON')) {
+        on = parseExpr(state);
+    } else if (acceptKeyword(state, 'USING')) {
+        expectOperator(state, '(');
+        using = [];
+        do {
+            using.push(expectIdentifier(state));
+        } while (acceptOperator(state, ','));
+        expectOperator(state, ')');
+    }
+    if (natural && (on || using)) {
+        throw unexpected(state, 'a NATURAL join may not have an ON or USING clause');
+    }
+    return { kind, natural, table, on, using };
+}
+
+/**
+ * Parse an optional `[AS] alias`.
+ * @param state - Parser state
+ * @returns The alias, or null if none was given
+ */
+function parseAlias(state: ParserState): string | null {
+    if (acceptKeyword(state, 'AS')) {
+        const token = peek(state);
+        if (token.type === 'string') {
+            state.pos++;
+            return token.text;
+        }
+        return expectIdentifier(state);
+    }
+    const token = peek(state);
+    if (token.type === 'identifier' || token.type === 'string') {
+        state.pos++;
+        return token.text;
+    }
+    return null;
+}
+
+/**
+ * Parse an expression. Precedence climbs from OR (lowest) to unary operators (highest).
+ * @param state - Parser state
+ * @returns The parsed expression
+ */
+function parseExpr(state: ParserState): Expr {
+    return parseOr(state);
+}
+
+function parseOr(state: ParserState): Expr {
+    let left = parseAnd(state);
+    while (acceptKeyword(state, 'OR')) {
+        left = { kind: 'binary', op: 'OR', left, right: parseAnd(state) };
+    }
+    return left;
+}
+
+function parseAnd(state: ParserState): Expr {
+    let left = parseNot(state);
+    while (acceptKeyword(state, 'AND')) {
+        left = { kind: 'binary', op: 'AND', left, right: parseNot(state) };
+    }
+    return left;
+}
+
+function parseNot(state: ParserState): Expr {
+    if (acceptKeyword(state, 'NOT')) {
+        return { kind: 'unary', op: 'NOT', operand: parseNot(state) };
+    }
+    return parseEquality(state);
+}
+
+/**
+ * Parse the equality level: =, !=, IS [NOT], [NOT] IN, [NOT] BETWEEN, [NOT] LIKE/GLOB, ISNULL and NOTNULL.
+ * @param state - Parser state
+ * @returns The parsed expression
+ */
+function parseEquality(state: ParserState): Expr {
+    let left = parseComparison(state);
+    for (;;) {
+        const op = acceptOperator(state, '=', '==', '!=', '<>');
+        if (op) {
+            const normalized: BinaryOperator = op === '=' || op === '==' ? '=' : '!=';
+            left = { kind: 'binary', op: normalized, left, right: parseComparison(state) };
+            continue;
+        }
+        
+        if (acceptKeyword(state, 'IS')) {
+            const isOp = acceptKeyword(state, 'NOT') ? 'IS NOT' : 'IS';
+            left = { kind: 'binary', op: isOp, left, right: parseComparison(state) };
+            continue;
+        }
+        if (acceptKeyword(state, 'ISNULL')) {
+            left = { kind: 'binary', op: 'IS', left, right: { kind: 'literal', value: null } };
+            continue;
+        }
+        if (acceptKeyword(state, 'NOTNULL')) {
+            left = { kind: 'binary', op: 'IS NOT', left, right: { kind: 'literal', value: null } };
+            continue;
+        }
+        
+        // NOT only continues the expression when followed by NULL, IN, BETWEEN, LIKE or GLOB
+        const next = state.tokens[state.pos + 1];
+        const negated = isKeyword(peek(state), 'NOT') && ['NULL', 'IN', 'BETWEEN', 'LIKE', 'GLOB'].some(k => isKeyword(next, k));
+        if (negated) {
+            state.pos++;
+        }
+        
+        if (negated && acceptKeyword(state, 'NULL')) {
+            left = { kind: 'binary', op: 'IS NOT', left, right: { kind: 'literal', value: null } };
+        } else if (acceptKeyword(state, 'IN')) {
+            expectOperator(state, '(');
+            const list: Expr[] = [];
+            if (!isOperator(peek(state), ')')) {
+                do {
+                    list.push(parseExpr(state));
+                } while (acceptOperator(state, ','));
+            }
+            expectOperator(state, ')');
+            left = { kind: 'in', operand: left, list, negated };
+        } else if (acceptKeyword(state, 'BETWEEN')) {
+            const low = parseComparison(state);
+            expectKeyword(state, 'AND');
+            const high = parseComparison(state);
+            left = { kind: 'between', operand: left, low, high, negated };
+        } else if (isKeyword(peek(state), 'LIKE') || isKeyword(peek(state), 'GLOB')) {
+            const likeOp = peek(state).text as 'LIKE' | 'GLOB';
+            state.pos++;
+            const pattern = parseComparison(state);
+            const escape = acceptKeyword(state, 'ESCAPE') ? parseComparison(state) : null;
+            left = { kind: 'like', op: likeOp, operand: left, pattern, escape, negated };
+        } else {
+            return left;
+        }
+    }
+}
+
+function parseComparison(state: ParserState): Expr {
+    return parseBinaryLevel(state, ['<', '<=', '>', '>='], parseBitwise);
+}
+
+function parseBitwise(state: ParserState): Expr {
+    return parseBinaryLevel(state, ['<<', '>>', '&', '|'], parseAdditive);
+}
+
+function parseAdditive(state: ParserState): Expr {
+    return parseBinaryLevel(state, ['+', '-'], parseMultiplicative);
+}
+
+function parseMultiplicative(state: ParserState): Expr {
+    return parseBinaryLevel(state, ['*', '/', '%'], parseConcat);
+}
+
+function parseConcat(state: ParserState): Expr {
+    return parseBinaryLevel(state, ['||'], parseCollate);
+}
+
+/**
+ * Parse an expression followed by any number of `COLLATE name` operators, which bind more
+ * loosely than the unary operators and more tightly than every binary one.
+ * @param state - Parser state
+ * @returns The parsed expression
+ */
+function parseCollate(state: ParserState): Expr {
+    let expr = parseUnary(state);
+    while (acceptKeyword(state, 'COLLATE')) {
+        expr = { kind: 'collate', operand: expr, collation: expectIdentifier(state) };
+    }
+    return expr;
+}
+
+/**
+ * Parse the expression of an ORDER BY term or index column, whose trailing COLLATE belongs
+ * to the term rather than to the expression.
+ * @param state - Parser state
+ * @returns The expression and the collation name, null if none is given
+ */
+function parseCollatedExpr(state: ParserState): { expr: Expr, collation: string | null } {
+    const expr = parseExpr(state);
+    return expr.kind === 'collate' ? { expr: expr.operand, collation: expr.collation } : { expr, collation: null };
+}
+
+/**
+ * Parse a left-associative chain of binary operators at one precedence level.
+ * @param state - Parser state
+ * @param operators - Operators belonging to this level
+ * @param next - Parser for the next-higher precedence level
+ * @returns The parsed expression
+ */
+function parseBinaryLevel(state: ParserState, operators: BinaryOperator[], next: (state: ParserState) => Expr): Expr {
+    let left = next(state);
+    for (;;) {
+        const op = acceptOperator(state, ...operators) as BinaryOperator | null;
+        if (!op) {
+            return left;
+        }
+        left = { kind: 'binary', op, left, right: next(state) };
+    }
+}
+
+function parseUnary(state: ParserState): Expr {
+    const op = acceptOperator(state, '-', '+', '~');
+    if (op === '-' && acceptInt64MinMagnitude(state)) {
+        return { kind: 'literal', value: INT64_MIN };
+    }
+    if (op) {
+        return { kind: 'unary', op: op as '-' | '+' | '~', operand: parseUnary(state) };
+    }
+    return parsePrimary(state);
+}
+
+/**
+ * Consume the literal 9223372036854775808, possibly in parentheses, that a minus sign turns
+ * into the smallest INTEGER rather than a REAL, as in SQLite.
+ * @param state - Parser state, just past the minus sign
+ * @returns True if the literal was consumed
+ */
+function acceptInt64MinMagnitude(state: ParserState): boolean {
+    let depth = 0;
+    while (isOperator(state.tokens[state.pos + depth], '(')) {
+        depth++;
+    }
+    const token = state.tokens[state.pos + depth];
+    if (token.type !== 'number' || !/^[0-9]+$/.test(token.text) || BigInt(token.text) !== -INT64_MIN) {
+        return false;
+    }
+    for (let i = 1; i <= depth; i++) {
+        if (!isOperator(state.tokens[state.pos + depth + i], ')')) {
+            return false;
+        }
+    }
+    state.pos += 2 * depth + 1;
+    return true;
+}
+
+/**
+ * Parse a literal, column reference, function call or parenthesised expression.
+ * @param state - Parser state
+ * @returns The parsed expression
+ */
+function parsePrimary(state: ParserState): Expr {
+    const token = peek(state);
+    
+    if (token.type === 'number') {
+        state.pos++;
+        return { kind: 'literal', value: parseNumber(token.text) };
+    }
+    if (token.type === 'string') {
+        state.pos++;
+        return { kind: 'literal', value: token.text };
+    }
+    if (token.type === 'blob') {
+        state.pos++;
+        return { kind: 'literal', value: parseBlob(token.text) };
+    }
+    if (acceptKeyword(state, 'NULL')) {
+        return { kind: 'literal', value: null };
+    }
+    if (acceptOperator(state, '(')) {
+        const expr = parseExpr(state);
+        expectOperator(state, ')');
+        return expr;
+    }
+    if (acceptKeyword(state, 'CASE')) {
+        return parseCase(state);
+    }
+    if (token.type === 'identifier') {
+        state.pos++;
+        
+        if (isWord(token, 'CAST') && acceptOperator(state, '(')) {
+            const operand = parseExpr(state);
+            expectKeyword(state, 'AS');
+            const typeName = parseTypeName(state);
+            expectOperator(state, ')');
+            return { kind: 'cast', operand, typeName };
+        }
+        if (acceptOperator(state, '(')) {
+            return parseFunctionCall(state, token.text);
+        }
+        if (acceptOperator(state, '.')) {
+            return { kind: 'column', table: token.text, name: expectIdentifier(state) };
+        }
+        return { kind: 'column', table: null, name: token.text };
+    }
+    
+    throw unexpected(state);
+}
+
+/**
+ * Parse a CASE expression; the CASE keyword has been consumed.
+ * @param state - Parser state
+ * @returns The parsed CASE expression
+ */
+function parseCase(state: ParserState): Expr {
+    const operand = isKeyword(peek(state), 'WHEN') ? null : parseExpr(state);
+    const branches: Array<{ when: Expr, then: Expr }> = [];
+    expectKeyword(state, 'WHEN');
+    do {
+        const when = parseExpr(state);
+        expectKeyword(state, 'THEN');
+        branches.push({ when, then: parseExpr(state) });
+    } while (acceptKeyword(state, 'WHEN'));
+    
+    const otherwise = acceptKeyword(state, 'ELSE') ? parseExpr(state) : null;
+    if (!acceptWord(state, 'END')) {
+        throw unexpected(state, 'expected END');
+    }
+    return { kind: 'case', operand, branches, otherwise };
+}
+
+/**
+ * Parse a type name such as `INTEGER`, `VARCHAR(20)` or `DOUBLE PRECISION`.
+ * @param state - Parser state
+ * @returns The type name as written, with its words separated by single spaces
+ */
+function parseTypeName(state: ParserState): string {
+    const words = [expectIdentifier(state)];
+    while (peek(state).type === 'identifier' && !isWord(peek(state), 'GENERATED')) {
+        words.push(expectIdentifier(state));
+    }
+    let typeName = words.join(' ');
+    if (acceptOperator(state, '(')) {
+        const sizes: string[] = [];
+        do {
+            const sign = acceptOperator(state, '-', '+') ?? '';
+            const token = peek(state);
+            if (token.type !== 'number') {
+                throw unexpected(state, 'expected number');
+            }
+            state.pos++;
+            sizes.push(sign + token.text);
+        } while (acceptOperator(state, ','));
+        expectOperator(state, ')');
+        typeName += `(${sizes.join(',')})`;
+    }
+    return typeName;
+}
+
+/**
+ * Parse the argument list of a function call; the opening parenthesis has been consumed.
+ * @param state - Parser state
+ * @param name - Function name as written
+ * @returns The parsed function call
+ */
+function parseFunctionCall(state: ParserState, name: string): Expr {
+    const args: Expr[] = [];
+    let star = false;
+    let distinct = false;
+    
+    if (acceptOperator(state, '*')) {
+        star = true;
+    } else if (!isOperator(peek(state), ')')) {
+        distinct = acceptKeyword(state, 'DISTINCT');
+        do {
+            args.push(parseExpr(state));
+        } while (acceptOperator(state, ','));
+    }
+    
+    expectOperator(state, ')');
+    return { kind: 'function', name: name.toLowerCase(), args, star, distinct };
+}
+
+/**
+ * Convert numeric literal text to an INTEGER or REAL value.
+ * @param text - The literal as written, e.g. "42", "0x1F", "1.5e3"
+ * @returns A bigint for integer literals that fit in 64 bits, otherwise a number
+ */
+function parseNumber(text: string): SqlValue {
+    if (/^0[xX]/.test(text)) {
+        return BigInt.asIntN(64, BigInt(text));
+    }
+    if (/^[0-9]+$/.test(text)) {
+        const value = BigInt(text);
+        if (value <= INT64_MAX) {
+            return value;
+        }
+    }
+    return Number(text);
+}
+
+/**
+ * Convert the hex digits of a blob literal to bytes.
+ * @param hex - Hex digits between the quotes of X'...'
+ * @returns The blob value
+ */
+function parseBlob(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+function peek(state: ParserState): Token {
+    return state.tokens[state.pos];
+}
+
+function isOperator(token: Token, operator: string): boolean {
+    return token.type === 'operator' && token.text === operator;
+}
+
+function isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'keyword' && token.text === keyword;
+}
+
+/**
+ * Check whether a token is the given non-reserved keyword, which the lexer reports as an identifier.
+ * @param token - Token to check
+ * @param word - Upper-case keyword
+ * @returns True if the token is an unquoted identifier spelling the keyword
+ */
+function isWord(token: Token, word: string): boolean {
+    return token.type === 'identifier' && !token.quoted && token.text.toUpperCase() === word;
+}
+
+function acceptKeyword(state: ParserState, keyword: string): boolean {
+    if (isKeyword(peek(state), keyword)) {
+        state.pos++;
+        return true;
+    }
+    return false;
+}
+
+function acceptWord(state: ParserState, word: string): boolean {
+    if (isWord(peek(state), word)) {
+        state.pos++;
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Consume the next token if it is one of the given operators.
+ * @param state - Parser state
+ * @param operators - Acceptable operator spellings
+ * @returns The operator consumed, or null if the next token did not match
+ */
+function acceptOperator(state: ParserState, ...operators: string[]): string | null {
+    const token = peek(state);
+    if (token.type === 'operator' && operators.includes(token.text)) {
+        state.pos++;
+        return token.text;
+    }
+    return null;
+}
+
+function expectKeyword(state: ParserState, keyword: string): void {
+    if (!acceptKeyword(state, keyword)) {
+        throw unexpected(state, `expected ${keyword}`);
+    }
+}
+
+function expectWord(state: ParserState, word: string): void {
+    if (!acceptWord(state, word)) {
+        throw unexpected(state, `expected ${word}`);
+    }
+}
+
+function expectOperator(state: ParserState, operator: string): void {
+    if (!acceptOperator(state, operator)) {
+        throw unexpected(state, `expected "${operator}"`);
+    }
+}
+
+function expectIdentifier(state: ParserState): string {
+    const token = peek(state);
+    if (token.type !== 'identifier') {
+        throw unexpected(state, 'expected identifier');
+    }
+    state.pos++;
+    return token.text;
+}
+
+/**
+ * Consume a name in DDL, where SQLite also accepts a string literal as an identifier.
+ * @param state - Parser state
+ * @returns The name
+ */
+function expectName(state: ParserState): string {
+    const token = peek(state);
+    if (token.type === 'string') {
+        state.pos++;
+        return token.text;
+    }
+    return expectIdentifier(state);
+}
+
+/**
+ * Build a syntax error for the current token.
+ * @param state - Parser state
+ * @param detail - Optional description of what was expected
+ * @returns Error pointing at the current token
+ */
+function unexpected(state: ParserState, detail: string = 'syntax error'): Error {
+    return syntaxError(state.sql, peek(state).position, detail);
+}
@@ -0,0 +1,347 @@
+import type { Expr, FunctionExpr } from '../parser/ast.js';
+import { looksLikeNumber } from '../utils/affinity.js';
+import type { Collation } from '../utils/collation.js';
+import { compareValues, valueToText, valueKey, textToNumeric, INT64_MIN, INT64_MAX } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import { evaluate, exprChildren, exprCollation, isTrue } from './evaluator.js';
+import type { EvalContext, ResolvedColumn } from './evaluator.js';
+
+/**
+ * Running state of one aggregate call within one group.
+ */
+export interface Accumulator {
+    /**
+     * Feed the arguments for one row.
+     * @returns True if this row's value became the result, which min() and max() use
+     *          to pick the row that bare columns are read from
+     */
+    step(args: SqlValue[]): boolean;
+    result(): SqlValue;
+}
+
+/**
+ * The parts of a SELECT that drive aggregation.
+ */
+export interface AggregateQuery {
+    groupBy: Expr[];
+    having: Expr | null;
+    /** Every aggregate call in the select list, HAVING and ORDER BY */
+    calls: FunctionExpr[];
+}
+
+const AGGREGATE_FUNCTIONS = new Set(['count', 'sum', 'avg', 'total', 'min', 'max', 'group_concat']);
+
+/**
+ * Integers this large are split before they are added to a REAL sum, as in SQLite.
+ */
+const EXACT_DOUBLE_LIMIT = 4503599627370496n;
+
+/**
+ * Check whether a function call is an aggregate. min() and max() with several
+ * arguments are the scalar functions of the same name.
+ * @param call - Function call to check
+ * @returns True for aggregate calls
+ */
+export function isAggregateCall(call: FunctionExpr): boolean {
+    if (!AGGREGATE_FUNCTIONS.has(call.name)) {
+        return false;
+    }
+    return !((call.name === 'min' || call.name === 'max') && call.args.length > 1);
+}
+
+/**
+ * Find the aggregate calls in a list of expressions, outermost first.
+ * @param exprs - Expressions to search
+ * @returns The aggregate call nodes, which identify the calls during evaluation
+ */
+export function collectAggregateCalls(exprs: Expr[]): FunctionExpr[] {
+    const calls: FunctionExpr[] = [];
+    const visit = (expr: Expr): void => {
+        if (expr.kind === 'function' && isAggregateCall(expr)) {
+            calls.push(expr);
+            return;
+        }
+        exprChildren(expr).forEach(visit);
+    };
+    exprs.forEach(visit);
+    return calls;
+}
+
+/**
+ * Group rows and compute aggregates over each group. Groups come out ordered by their
+ * GROUP BY values; without GROUP BY all rows form a single group, even when there are none.
+ * @param rows - Contexts of the rows that passed the WHERE clause
+ * @param query - Grouping terms, HAVING clause and aggregate calls
+ * @param emptyRow - Context that resolves every column to NULL, for an empty ungrouped input
+ * @returns One context per group that passes HAVING, resolving aggregate calls to their results
+ */
+export async function* aggregateRows(rows: AsyncIterable<EvalContext>, query: AggregateQuery, emptyRow: EvalContext): AsyncGenerator<EvalContext> {
+    const { groupBy, having, calls } = query;
+    for (const call of calls) {
+        for (const arg of call.args) {
+            if (collectAggregateCalls([arg]).length > 0) {
+                throw new Error(`misuse of aggregate function ${call.name}()`);
+            }
+        }
+    }
+    
+    // With a single min() or max(), bare columns come from the row holding the extreme value
+    const extremeCall = calls.length === 1 && (calls[0].name === 'min' || calls[0].name === 'max') ? 0 : -1;
+    
+    const groups = new Map<string, { keys: SqlValue[], collations: Collation[], accumulators: Accumulator[], row: EvalContext }>();
+    for await (const row of rows) {
+        const keys = groupBy.map(expr => evaluate(expr, row));
+        const collations = groupBy.map(expr => exprCollation(expr, row) ?? 'BINARY');
+        const groupKey = JSON.stringify(keys.map((value, i) => valueKey(value, collations[i])));
+        
+        let group = groups.get(groupKey);
+        if (!group) {
+            group = { keys, collations, accumulators: calls.map(call => createAccumulator(call, row)), row };
+            groups.set(groupKey, group);
+        }
+        
+        let chosen = extremeCall === -1;
+        group.accumulators.forEach((accumulator, i) => {
+            const args = calls[i].args.map(arg => evaluate(arg, row));
+            if (accumulator.step(args) && i === extremeCall) {
+                chosen = true;
+            }
+        });
+        if (chosen) {
+            group.row = row;
+        }
+    }
+    
+    if (groups.size === 0 && groupBy.length === 0) {
+        groups.set('', { keys: [], collations: [], accumulators: calls.map(call => createAccumulator(call, emptyRow)), row: emptyRow });
+    }
+    
+    const ordered = [...groups.values()].sort((a, b) => {
+        for (let i = 0; i < a.keys.length; i++) {
+            const cmp = compareValues(a.keys[i], b.keys[i], a.collations[i]);
+            if (cmp !== 0) {
+                return cmp;
+            }
+        }
+        return 0;
+    });
+    
+    for (const group of ordered) {
+        const context: EvalContext = {
+            resolveColumn: (ref): ResolvedColumn => group.row.resolveColumn(ref),
+            textEncoding: group.row.textEncoding,
+            aggregateValue: call => {
+                const index = calls.indexOf(call);
+                return index === -1 ? undefined : group.accumulators[index].result();
+            },
+        };
+        if (having && !isTrue(evaluate(having, context))) {
+            continue;
+        }
+        yield context;
+    }
+}
+
+/**
+ * Create the accumulator for an aggregate call.
+ * @param call - The aggregate call
+ * @param row - Context of the group's first row, used to find the argument's collation
+ * @returns A fresh accumulator
+ */
+function createAccumulator(call: FunctionExpr, row: EvalContext): Accumulator {
+    const { name, args, star } = call;
+    const arity = name === 'group_concat' ? [1, 2] : name === 'count' ? [0, 1] : [1];
+    if ((star && name !== 'count') || !arity.includes(args.length) || (name === 'count' && args.length === 0 && !star)) {
+        throw new Error(`wrong number of arguments to function ${name}()`);
+    }
+    if (call.distinct && args.length !== 1) {
+        throw new Error("DISTINCT aggregates must have exactly one argument");
+    }
+    
+    const collation = args.length > 0 ? exprCollation(args[0], row) ?? 'BINARY' : 'BINARY';
+    const accumulator = createBaseAccumulator(name, star, collation);
+    if (!call.distinct) {
+        return accumulator;
+    }
+    
+    // Only the first occurrence of each distinct value reaches the aggregate
+    const seen = new Set<string>();
+    return {
+        step(values) {
+            const key = valueKey(values[0], collation);
+            if (seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            return accumulator.step(values);
+        },
+        result: () => accumulator.result(),
+    };
+}
+
+function createBaseAccumulator(name: string, star: boolean, collation: Collation): Accumulator {
+    switch (name) {
+        case 'count': {
+            let count = 0n;
+            return {
+                step([value]) {
+                    if (star || value !== null) {
+                        count++;
+                    }
+                    return false;
+                },
+                result: () => count,
+            };
+        }
+        case 'sum':
+        case 'total':
+        case 'avg': {
+            const sum = new Summation();
+            return {
+                step([value]) {
+                    sum.add(value);
+                    return false;
+                },
+                result: () => name === 'sum' ? sum.sum() : name === 'total' ? sum.total() : sum.average(),
+            };
+        }
+        case 'min':
+        case 'max': {
+            let best: SqlValue = null;
+            return {
+                step([value]) {
+                    if (value === null) {
+                        return false;
+                    }
+                    const cmp = best === null ? 0 : compareValues(value, best, collation);
+                    if (best === null || (name === 'min' ? cmp < 0 : cmp > 0)) {
+                        best = value;
+                        return true;
+                    }
+                    return false;
+                },
+                result: () => best,
+            };
+        }
+        case 'group_concat': {
+            let text: string | null = null;
+            return {
+                step([value, separator]) {
+                    if (value !== null) {
+                        const separatorText = separator === undefined ? ',' : valueToText(separator) ?? '';
+                        text = text === null ? valueToText(value) : text + separatorText + valueToText(value);
+                    }
+                    return false;
+                },
+                result: () => text,
+            };
+        }
+    }
+    throw new Error(`no such function: ${name}`);
+}
+
+/**
+ * Running sum shared by sum(), total() and avg(). Integers are summed exactly while
+ * every input is an integer; any other input switches the result to REAL, as in SQLite,
+ * which from then on sums with Kahan-Babuska-Neumaier compensation to keep rounding errors
+ * from piling up.
+ */
+class Summation {
+    private integerSum = 0n;
+    private realSum = 0;
+    /** Rounding error lost from realSum so far */
+    private realError = 0;
+    private count = 0;
+    private approximate = false;
+    
+    add(value: SqlValue): void {
+        if (value === null) {
+            return;
+        }
+        this.count++;
+        
+        // Text that looks like a number counts as that number; anything else adds its numeric prefix as a REAL
+        let number: bigint | number;
+        if (typeof value === 'bigint' || typeof value === 'number') {
+            number = value;
+        } else {
+            const text = valueToText(value)!;
+            number = typeof value === 'string' && looksLikeNumber(text) ? textToNumeric(text) : Number(textToNumeric(text));
+        }
+        
+        if (typeof number === 'bigint') {
+            if (this.approximate) {
+                this.addInteger(number);
+            } else {
+                this.integerSum += number;
+            }
+        } else {
+            if (!this.approximate) {
+                this.approximate = true;
+                this.addInteger(this.integerSum);
+            }
+            this.addReal(number);
+        }
+    }
+    
+    /**
+     * Add an integer to the REAL sum. One too large for a double to hold exactly is added in
+     * two parts, as SQLite does, so that its low bits are not lost.
+     * @param value - The integer
+     */
+    private addInteger(value: bigint): void {
+        if (value <= -EXACT_DOUBLE_LIMIT || value >= EXACT_DOUBLE_LIMIT) {
+            const high = value - value % 16384n;
+            this.addReal(Number(high));
+            this.addReal(Number(value - high));
+        } else {
+            this.addReal(Number(value));
+        }
+    }
+    
+    /**
+     * Add a number to the REAL sum, keeping the rounding error of the addition.
+     * @param value - The number
+     */
+    private addReal(value: number): void {
+        const sum = this.realSum + value;
+        if (Math.abs(this.realSum) > Math.abs(value)) {
+            this.realError += (this.realSum - sum) + value;
+        } else {
+            this.realError += (value - sum) + this.realSum;
+        }
+        this.realSum = sum;
+    }
+    
+    /**
+     * The sum as a REAL, with the rounding error added back unless it overflowed.
+     * @returns The sum
+     */
+    private real(): number {
+        if (!this.approximate) {
+            return Number(this.integerSum);
+        }
+        return Number.isFinite(this.realError) ? this.realSum + this.realError : this.realSum;
+    }
+    
+    sum(): SqlValue {
+        if (this.count === 0) {
+            return null;
+        }
+        if (this.approximate) {
+            return this.real();
+        }
+        if (this.integerSum < INT64_MIN || this.integerSum > INT64_MAX) {
+            throw new Error("integer overflow");
+        }
+        return this.integerSum;
+    }
+    
+    total(): number {
+        return this.real();
+    }
+    
+    average(): SqlValue {
+        return this.count === 0 ? null : this.real() / this.count;
+    }
+}
@@ -0,0 +1,587 @@
+import type { Expr, ColumnExpr, FunctionExpr, BinaryOperator, LikeExpr, CaseExpr } from '../parser/ast.js';
+import type { Affinity } from '../utils/affinity.js';
+import { getAffinity, isNumericAffinity, looksLikeNumber } from '../utils/affinity.js';
+import { compareValues, valueToText, textToNumeric, realToExactInteger, toNumeric, toInteger, valueToInteger, INT64_MIN, INT64_MAX } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import { foldAsciiCase, parseCollation } from '../utils/collation.js';
+import type { Collation } from '../utils/collation.js';
+import { encodeText } from '../utils/encoding.js';
+import type { TextEncoding } from '../utils/encoding.js';
+import { callScalarFunction } from './functions.js';
+
+/**
+ * The value of a column for the current row together with the column's affinity.
+ */
+export interface ResolvedColumn {
+    value: SqlValue;
+    affinity: Affinity;
+    /** Collating sequence declared for the column, BINARY if none */
+    collation: Collation;
+}
+
+/**
+ * Supplies column values for the row an expression is evaluated against.
+ */
+export interface EvalContext {
+    resolveColumn(ref: ColumnExpr): ResolvedColumn;
+    /** Result of an aggregate call for the current group; undefined when the call is not an aggregate being computed */
+    aggregateValue?(call: FunctionExpr): SqlValue | undefined;
+    /** Text encoding of the database, in which text turns into bytes; UTF-8 if not given */
+    textEncoding?: TextEncoding;
+}
+
+/**
+ * Evaluate an expression against a row using SQLite's three-valued logic.
+ * Comparisons and boolean operators return 1, 0 or NULL.
+ * @param expr - Expression to evaluate
+ * @param context - Provides column values for the current row
+ * @returns The value of the expression
+ */
+export function evaluate(expr: Expr, context: EvalContext): SqlValue {
+    switch (expr.kind) {
+        case 'literal':
+            return expr.value;
+        case 'column':
+            return context.resolveColumn(expr).value;
+        case 'unary':
+            return evaluateUnary(expr.op, evaluate(expr.operand, context));
+        case 'binary':
+            return evaluateBinary(expr.op, expr.left, expr.right, context);
+        case 'in':
+            return evaluateIn(expr.operand, expr.list, expr.negated, context);
+        case 'between': {
+            const lower = compareExprs('>=', expr.operand, expr.low, context);
+            const upper = compareExprs('<=', expr.operand, expr.high, context);
+            const result = and(toBoolean(lower), toBoolean(upper));
+            return expr.negated ? not(toBoolean(result)) : result;
+        }
+        case 'like':
+            return evaluateLike(expr, context);
+        case 'function': {
+            const aggregate = context.aggregateValue?.(expr);
+            if (aggregate !== undefined) {
+                return aggregate;
+            }
+            return callScalarFunction(expr.name, expr.args.map(arg => evaluate(arg, context)), context.textEncoding);
+        }
+        case 'case':
+            return evaluateCase(expr, context);
+        case 'cast':
+            return castValue(evaluate(expr.operand, context), getAffinity(expr.typeName), context.textEncoding);
+        case 'collate':
+            return evaluate(expr.operand, context);
+    }
+}
+
+/**
+ * Check whether a value counts as true in a WHERE clause. NULL is not true.
+ * @param value - Value to test
+ * @returns True only if the value is non-NULL and numerically non-zero
+ */
+export function isTrue(value: SqlValue): boolean {
+    return toBoolean(value) === true;
+}
+
+/**
+ * Determine the affinity of an expression for comparison purposes.
+ * Column references carry their column's affinity and CAST the affinity of its type; COLLATE
+ * keeps that of its operand, and everything else has none.
+ * @param expr - Expression to inspect
+ * @param context - Provides column affinities
+ * @returns The expression's affinity
+ */
+function exprAffinity(expr: Expr, context: EvalContext): Affinity {
+    if (expr.kind === 'collate') {
+        return exprAffinity(expr.operand, context);
+    }
+    if (expr.kind === 'column') {
+        return context.resolveColumn(expr).affinity;
+    }
+    if (expr.kind === 'cast') {
+        return getAffinity(expr.typeName);
+    }
+    return 'NONE';
+}
+
+/**
+ * Determine the collating sequence of an expression. A COLLATE anywhere inside it wins, the
+ * first one found from the left, as in SQLite; otherwise only a column reference carries one.
+ * @param expr - Expression to inspect
+ * @param context - Provides column collations
+ * @returns The collation a COLLATE names or a column declares, or null for other expressions
+ */
+export function exprCollation(expr: Expr, context: EvalContext): Collation | null {
+    if (expr.kind === 'collate') {
+        return parseCollation(expr.collation);
+    }
+    if (expr.kind === 'column') {
+        return context.resolveColumn(expr).collation;
+    }
+    const explicit = exprChildren(expr).find(hasCollate);
+    return explicit ? exprCollation(explicit, context) : null;
+}
+
+/**
+ * Determine the collating sequence two operands are compared with, as in SQLite: an explicit
+ * COLLATE in the left operand, else one in the right, else the left's collation, else the right's.
+ * @param left - Left operand expression
+ * @param right - Right operand expression
+ * @param context - Provides column collations
+ * @returns The collation
+ */
+export function comparisonCollation(left: Expr, right: Expr, context: EvalContext): Collation {
+    const explicit = [left, right].find(hasCollate);
+    return exprCollation(explicit ?? left, context) ?? exprCollation(right, context) ?? 'BINARY';
+}
+
+/**
+ * Check whether an expression contains a COLLATE operator.
+ * @param expr - Expression to inspect
+ * @returns True if it or any subexpression is a COLLATE
+ */
+function hasCollate(expr: Expr): boolean {
+    return expr.kind === 'collate' || exprChildren(expr).some(hasCollate);
+}
+
+/**
+ * List the direct subexpressions of an expression.
+ * @param expr - Expression to inspect
+ * @returns Its operands and arguments
+ */
+export function exprChildren(expr: Expr): Expr[] {
+    switch (expr.kind) {
+        case 'literal':
+        case 'column':
+            return [];
+        case 'unary':
+            return [expr.operand];
+        case 'binary':
+            return [expr.left, expr.right];
+        case 'function':
+            return expr.args;
+        case 'in':
+            return [expr.operand, ...expr.list];
+        case 'between':
+            return [expr.operand, expr.low, expr.high];
+        case 'like':
+            return expr.escape ? [expr.operand, expr.pattern, expr.escape] : [expr.operand, expr.pattern];
+        case 'case': {
+            const children = expr.branches.flatMap(branch => [branch.when, branch.then]);
+            if (expr.operand) children.unshift(expr.operand);
+            if (expr.otherwise) children.push(expr.otherwise);
+            return children;
+        }
+        case 'cast':
+        case 'collate':
+            return [expr.operand];
+    }
+}
+
+/**
+ * Evaluate a unary operator.
+ * @param op - The operator
+ * @param operand - Evaluated operand
+ * @returns The result value
+ */
+function evaluateUnary(op: string, operand: SqlValue): SqlValue {
+    if (op === 'NOT') {
+        return not(toBoolean(operand));
+    }
+    if (op === '+') {
+        return operand;
+    }
+    if (operand === null) {
+        return null;
+    }
+    const number = toNumeric(operand);
+    if (op === '-') {
+        return typeof number === 'bigint' ? checkedInteger(-number) : -number;
+    }
+    return ~toInteger(number);
+}
+
+/**
+ * Evaluate a binary operator. AND and OR use three-valued logic; comparisons apply affinity.
+ * @param op - The operator
+ * @param leftExpr - Left operand expression
+ * @param rightExpr - Right operand expression
+ * @param context - Provides column values for the current row
+ * @returns The result value
+ */
+function evaluateBinary(op: BinaryOperator, leftExpr: Expr, rightExpr: Expr, context: EvalContext): SqlValue {
+    switch (op) {
+        case 'AND':
+            return and(toBoolean(evaluate(leftExpr, context)), toBoolean(evaluate(rightExpr, context)));
+        case 'OR':
+            return or(toBoolean(evaluate(leftExpr, context)), toBoolean(evaluate(rightExpr, context)));
+        case '=': case '!=': case '<': case '<=': case '>': case '>=': case 'IS': case 'IS NOT':
+            return compareExprs(op, leftExpr, rightExpr, context);
+    }
+    
+    const left = evaluate(leftExpr, context);
+    const right = evaluate(rightExpr, context);
+    if (left === null || right === null) {
+        return null;
+    }
+    
+    if (op === '||') {
+        return valueToText(left)! + valueToText(right)!;
+    }
+    
+    const a = toNumeric(left);
+    const b = toNumeric(right);
+    switch (op) {
+        case '+': case '-': case '*': case '/':
+            return arithmetic(op, a, b);
+        case '%': {
+            const divisor = toInteger(b);
+            if (divisor === 0n) return null;
+            const remainder = divisor === -1n ? 0n : toInteger(a) % divisor;
+            return typeof a === 'number' || typeof b === 'number' ? Number(remainder) : remainder;
+        }
+    }
+    
+    const x = toInteger(a);
+    const y = toInteger(b);
+    switch (op) {
+        case '&': return x & y;
+        case '|': return x | y;
+        case '<<': return shiftLeft(x, y);
+        case '>>': return shiftLeft(x, -y);
+    }
+    throw new Error(`Unsupported operator ${op}`);
+}
+
+/**
+ * Evaluate a comparison between two expressions, applying SQLite's affinity conversions first
+ * and comparing text with the operands' collating sequence.
+ * @param op - Comparison operator
+ * @param leftExpr - Left operand expression
+ * @param rightExpr - Right operand expression
+ * @param context - Provides column values for the current row
+ * @param collation - Collating sequence to compare text with, by default the operands'
+ * @returns 1, 0, or NULL when an operand is NULL (except for IS / IS NOT)
+ */
+function compareExprs(op: BinaryOperator, leftExpr: Expr, rightExpr: Expr, context: EvalContext, collation: Collation = comparisonCollation(leftExpr, rightExpr, context)): SqlValue {
+    const [left, right] = applyComparisonAffinity(
+        evaluate(leftExpr, context), exprAffinity(leftExpr, context),
+        evaluate(rightExpr, context), exprAffinity(rightExpr, context),
+    );
+    if (op === 'IS' || op === 'IS NOT') {
+        const same = compareValues(left, right, collation) === 0;
+        return (op === 'IS') === same ? 1n : 0n;
+    }
+    if (left === null || right === null) {
+        return null;
+    }
+    
+    const cmp = compareValues(left, right, collation);
+    switch (op) {
+        case '=': return cmp === 0 ? 1n : 0n;
+        case '!=': return cmp !== 0 ? 1n : 0n;
+        case '<': return cmp < 0 ? 1n : 0n;
+        case '<=': return cmp <= 0 ? 1n : 0n;
+        case '>': return cmp > 0 ? 1n : 0n;
+        case '>=': return cmp >= 0 ? 1n : 0n;
+    }
+    throw new Error(`Unsupported comparison ${op}`);
+}
+
+/**
+ * Convert a constant to the value it is compared as when the other operand is a column.
+ * @param value - The constant, which has no affinity of its own
+ * @param columnAffinity - Affinity of the column it is compared with
+ * @returns The converted value
+ */
+export function applyColumnAffinity(value: SqlValue, columnAffinity: Affinity): SqlValue {
+    return applyComparisonAffinity(null, columnAffinity, value, 'NONE')[1];
+}
+
+/**
+ * Apply the type conversions SQLite performs before comparing two operands
+ * (section 4.2 of https://www.sqlite.org/datatype3.html).
+ * @returns The converted [left, right] operands
+ */
+function applyComparisonAffinity(left: SqlValue, leftAffinity: Affinity, right: SqlValue, rightAffinity: Affinity): [SqlValue, SqlValue] {
+    if (isNumericAffinity(leftAffinity) && !isNumericAffinity(rightAffinity)) {
+        return [left, applyNumericAffinity(right)];
+    }
+    if (isNumericAffinity(rightAffinity) && !isNumericAffinity(leftAffinity)) {
+        return [applyNumericAffinity(left), right];
+    }
+    if (leftAffinity === 'TEXT' && rightAffinity === 'NONE') {
+        return [left, valueToText(right)];
+    }
+    if (rightAffinity === 'TEXT' && leftAffinity === 'NONE') {
+        return [valueToText(left), right];
+    }
+    return [left, right];
+}
+
+/**
+ * Convert text that looks like a number to an INTEGER or REAL; other values are unchanged.
+ * @param value - Value to convert
+ * @returns The converted value
+ */
+function applyNumericAffinity(value: SqlValue): SqlValue {
+    if (typeof value === 'string' && looksLikeNumber(value)) {
+        return textToNumeric(value);
+    }
+    return value;
+}
+
+/**
+ * Apply +, -, * or / to two numeric operands. Integer arithmetic that overflows 64 bits
+ * falls back to REAL, and division by zero yields NULL.
+ * @param op - The operator
+ * @param a - Left operand
+ * @param b - Right operand
+ * @returns The result value
+ */
+function arithmetic(op: '+' | '-' | '*' | '/', a: bigint | number, b: bigint | number): SqlValue {
+    if (typeof a === 'bigint' && typeof b === 'bigint') {
+        switch (op) {
+            case '+': return checkedInteger(a + b);
+            case '-': return checkedInteger(a - b);
+            case '*': return checkedInteger(a * b);
+            case '/': return b === 0n ? null : checkedInteger(a / b);
+        }
+    }
+    
+    const x = Number(a);
+    const y = Number(b);
+    switch (op) {
+        case '+': return x + y;
+        case '-': return x - y;
+        case '*': return x * y;
+        case '/': return y === 0 ? null : x / y;
+    }
+}
+
+/**
+ * Keep an integer result as INTEGER if it fits in 64 bits, otherwise convert it to REAL.
+ * @param value - Exact integer result
+ * @returns The INTEGER or REAL value
+ */
+function checkedInteger(value: bigint): bigint | number {
+    return value < INT64_MIN || value > INT64_MAX ? Number(value) : value;
+}
+
+/**
+ * Evaluate a CASE expression. Only the chosen branch is evaluated.
+ * @param expr - The CASE expression
+ * @param context - Provides column values for the current row
+ * @returns The THEN value of the first matching branch, the ELSE value, or NULL
+ */
+function evaluateCase(expr: CaseExpr, context: EvalContext): SqlValue {
+    for (const { when, then } of expr.branches) {
+        // With an operand each WHEN is compared to it like `operand = when`
+        const matched = expr.operand ? compareExprs('=', expr.operand, when, context) : evaluate(when, context);
+        if (isTrue(matched)) {
+            return evaluate(then, context);
+        }
+    }
+    return expr.otherwise ? evaluate(expr.otherwise, context) : null;
+}
+
+/**
+ * Convert a value to the storage class of a CAST's type, following
+ * https://www.sqlite.org/lang_expr.html#castexpr.
+ * @param value - Value to convert
+ * @param affinity - Affinity of the type name
+ * @param encoding - Text encoding of the database, which text cast to a BLOB is in
+ * @returns The converted value; NULL stays NULL
+ */
+function castValue(value: SqlValue, affinity: Affinity, encoding: TextEncoding = 'utf-8'): SqlValue {
+    if (value === null) {
+        return null;
+    }
+    switch (affinity) {
+        case 'INTEGER':
+            return valueToInteger(value);
+        case 'REAL':
+            return Number(toNumeric(value));
+        case 'NUMERIC': {
+            if (typeof value === 'bigint' || typeof value === 'number') {
+                return value;
+            }
+            // Text that converts to a whole number becomes an INTEGER, as in '3.0' or '1e3'
+            const number = toNumeric(value);
+            return typeof number === 'number' ? realToExactInteger(number) ?? number : number;
+        }
+        case 'TEXT':
+            return valueToText(value);
+        default:
+            return value instanceof Uint8Array ? value : encodeText(valueToText(value)!, encoding);
+    }
+}
+
+/**
+ * Evaluate `operand [NOT] IN (list)`.
+ * @returns 1 if a list item equals the operand, NULL if none does but the operand or an item is NULL, otherwise 0
+ */
+function evaluateIn(operand: Expr, list: Expr[], negated: boolean, context: EvalContext): SqlValue {
+    // Unlike other comparisons, only the left operand decides the collation
+    const collation = exprCollation(operand, context) ?? 'BINARY';
+    let result: boolean | null = false;
+    for (const item of list) {
+        const equal = toBoolean(compareExprs('=', operand, item, context, collation));
+        if (equal === true) {
+            result = true;
+            break;
+        }
+        if (equal === null) {
+            result = null;
+        }
+    }
+    if (list.length === 0) {
+        result = false;
+    }
+    const value = result === null ? null : result ? 1n : 0n;
+    return negated ? not(toBoolean(value)) : value;
+}
+
+/**
+ * Evaluate a LIKE or GLOB pattern match.
+ * @param expr - The LIKE/GLOB expression
+ * @param context - Provides column values for the current row
+ * @returns 1, 0, or NULL if either operand is NULL
+ */
+function evaluateLike(expr: LikeExpr, context: EvalContext): SqlValue {
+    const text = valueToText(evaluate(expr.operand, context));
+    const pattern = valueToText(evaluate(expr.pattern, context));
+    const escape = expr.escape ? valueToText(evaluate(expr.escape, context)) : undefined;
+    if (text === null || pattern === null || escape === null) {
+        return null;
+    }
+    if (escape !== undefined && [...escape].length !== 1) {
+        throw new Error("ESCAPE expression must be a single character");
+    }
+    
+    const matched = expr.op === 'LIKE' ? likeToRegExp(pattern, escape).test(foldAsciiCase(text)) : globToRegExp(pattern).test(text);
+    return matched !== expr.negated ? 1n : 0n;
+}
+
+/**
+ * Translate a LIKE pattern into an anchored regular expression. LIKE is case-insensitive
+ * for ASCII characters only, so the pattern is folded here and the subject by the caller.
+ * @param pattern - LIKE pattern using % and _
+ * @param escape - Optional escape character
+ * @returns Equivalent regular expression
+ */
+function likeToRegExp(pattern: string, escape: string | undefined): RegExp {
+    let source = '';
+    const chars = [...foldAsciiCase(pattern)];
+    for (let i = 0; i < chars.length; i++) {
+        const ch = chars[i];
+        if (escape !== undefined && ch === foldAsciiCase(escape)) {
+            i++;
+            if (i < chars.length) {
+                source += escapeRegExp(chars[i]);
+            }
+        } else if (ch === '%') {
+            source += '[\\s\\S]*';
+        } else if (ch === '_') {
+            source += '[\\s\\S]';
+        } else {
+            source += escapeRegExp(ch);
+        }
+    }
+    return new RegExp(`^${source}$`, 'u');
+}
+
+/**
+ * Translate a GLOB pattern (*, ?, [...] and [^...]) into an anchored regular expression.
+ * @param pattern - GLOB pattern
+ * @returns Equivalent regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    const chars = [...pattern];
+    for (let i = 0; i < chars.length; i++) {
+        const ch = chars[i];
+        if (ch === '*') {
+            source += '[\\s\\S]*';
+        } else if (ch === '?') {
+            source += '[\\s\\S]';
+        } else if (ch === '[') {
+            let j = i + 1;
+            let set = '';
+            if (chars[j] === '^') {
+                set += '^';
+                j++;
+            }
+            const setStart = j;
+            // A ']' immediately after the opening bracket is a literal member of the set
+            if (chars[j] === ']') {
+                set += '\\]';
+                j++;
+            }
+            while (j < chars.length && chars[j] !== ']') {
+                if (chars[j] === '-') {
+                    // '-' is a range operator unless it is the first or last member
+                    set += j > setStart && chars[j + 1] !== ']' ? '-' : '\\-';
+                } else {
+                    set += escapeRegExp(chars[j]);
+                }
+                j++;
+            }
+            if (j >= chars.length) {
+                // Unterminated set never matches
+                return /(?!)/;
+            }
+            source += `[${set}]`;
+            i = j;
+        } else {
+            source += escapeRegExp(ch);
+        }
+    }
+    return new RegExp(`^${source}$`, 'u');
+}
+
+/**
+ * Shift a 64-bit integer left, or right for negative counts, as SQLite's << and >> do.
+ * @param value - Value to shift
+ * @param count - Bit count; negative shifts right
+ * @returns The shifted 64-bit value
+ */
+function shiftLeft(value: bigint, count: bigint): bigint {
+    if (count >= 64n) return 0n;
+    if (count <= -64n) return value < 0n ? -1n : 0n;
+    if (count >= 0n) return BigInt.asIntN(64, value << count);
+    return value >> -count;
+}
+
+function escapeRegExp(ch: string): string {
+    return ch.replace(/[\\^$.*+?()[\]{}|\/]/g, '\\$&');
+}
+
+/**
+ * Interpret a value as a boolean.
+ * @param value - Value to interpret
+ * @returns null for NULL, otherwise whether the value is numerically non-zero
+ */
+function toBoolean(value: SqlValue): boolean | null {
+    if (value === null) {
+        return null;
+    }
+    const number = toNumeric(value);
+    return typeof number === 'bigint' ? number !== 0n : number !== 0;
+}
+
+function and(a: boolean | null, b: boolean | null): SqlValue {
+    if (a === false || b === false) return 0n;
+    if (a === null || b === null) return null;
+    return 1n;
+}
+
+function or(a: boolean | null, b: boolean | null): SqlValue {
+    if (a === true || b === true) return 1n;
+    if (a === null || b === null) return null;
+    return 0n;
+}
+
+function not(a: boolean | null): SqlValue {
+    if (a === null) return null;
+    return a ? 0n : 1n;
+}
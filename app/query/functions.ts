@@ -0,0 +1,543 @@
+import { compareValues, sqlTypeOf, valueToText, toNumeric, valueToInteger, INT64_MIN } from '../utils/sqlValue.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import { encodeText } from '../utils/encoding.js';
+import type { TextEncoding } from '../utils/encoding.js';
+
+/**
+ * A built-in scalar function.
+ */
+interface ScalarFunction {
+    /** Smallest number of arguments accepted */
+    minArgs: number;
+    /** Largest number of arguments accepted, Infinity for variadic functions */
+    maxArgs: number;
+    /** Called with the evaluated arguments and the database's text encoding */
+    call(args: SqlValue[], encoding: TextEncoding): SqlValue;
+}
+
+/**
+ * Parsed `%` directive of a printf() format.
+ */
+interface FormatSpec {
+    leftJustify: boolean;
+    plusSign: boolean;
+    blankSign: boolean;
+    alternateForm: boolean;
+    /** The `!` flag: more significant digits for reals, characters rather than bytes for strings */
+    altForm2: boolean;
+    zeroPad: boolean;
+    thousands: boolean;
+    width: number;
+    /** Precision, or -1 if none was given */
+    precision: number;
+}
+
+/**
+ * Largest number of significant digits printf() produces for a real, or with the `!` flag.
+ */
+const SIGNIFICANT_DIGITS = 16;
+const SIGNIFICANT_DIGITS_ALT = 26;
+
+const SCALAR_FUNCTIONS = new Map<string, ScalarFunction>(Object.entries({
+    length: { minArgs: 1, maxArgs: 1, call: ([x]) => {
+        if (x === null) return null;
+        return BigInt(x instanceof Uint8Array ? x.length : [...valueToText(x)!].length);
+    } },
+    upper: { minArgs: 1, maxArgs: 1, call: ([x]) => mapText(x, text => text.replace(/[a-z]+/g, ch => ch.toUpperCase())) },
+    lower: { minArgs: 1, maxArgs: 1, call: ([x]) => mapText(x, text => text.replace(/[A-Z]+/g, ch => ch.toLowerCase())) },
+    substr: { minArgs: 2, maxArgs: 3, call: substr },
+    substring: { minArgs: 2, maxArgs: 3, call: substr },
+    trim: { minArgs: 1, maxArgs: 2, call: ([x, characters]) => trim(x, characters, true, true) },
+    ltrim: { minArgs: 1, maxArgs: 2, call: ([x, characters]) => trim(x, characters, true, false) },
+    rtrim: { minArgs: 1, maxArgs: 2, call: ([x, characters]) => trim(x, characters, false, true) },
+    replace: { minArgs: 3, maxArgs: 3, call: ([x, pattern, replacement]) => {
+        if (x === null || pattern === null || replacement === null) return null;
+        const search = valueToText(pattern)!;
+        const text = valueToText(x)!;
+        return search === '' ? text : text.split(search).join(valueToText(replacement)!);
+    } },
+    instr: { minArgs: 2, maxArgs: 2, call: instr },
+    abs: { minArgs: 1, maxArgs: 1, call: ([x]) => {
+        if (x === null) return null;
+        if (typeof x === 'bigint') {
+            if (x === INT64_MIN) {
+                throw new Error("integer overflow");
+            }
+            return x < 0n ? -x : x;
+        }
+        return Math.abs(toReal(x));
+    } },
+    round: { minArgs: 1, maxArgs: 2, call: round },
+    coalesce: { minArgs: 2, maxArgs: Infinity, call: args => args.find(arg => arg !== null) ?? null },
+    ifnull: { minArgs: 2, maxArgs: 2, call: ([x, y]) => x ?? y },
+    nullif: { minArgs: 2, maxArgs: 2, call: ([x, y]) => compareValues(x, y) === 0 ? null : x },
+    typeof: { minArgs: 1, maxArgs: 1, call: ([x]) => sqlTypeOf(x) },
+    hex: { minArgs: 1, maxArgs: 1, call: ([x], encoding) => {
+        // Text is hexed as the database stores it
+        const bytes = x instanceof Uint8Array ? x : encodeText(valueToText(x) ?? '', encoding);
+        return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+    } },
+    printf: { minArgs: 0, maxArgs: Infinity, call: printf },
+    format: { minArgs: 0, maxArgs: Infinity, call: printf },
+    // With several arguments min() and max() are scalar; with one they are the aggregates
+    min: { minArgs: 2, maxArgs: Infinity, call: args => extreme(args, -1) },
+    max: { minArgs: 2, maxArgs: Infinity, call: args => extreme(args, 1) },
+} satisfies Record<string, ScalarFunction>));
+
+/**
+ * Call a built-in scalar function.
+ * @param name - Lower-cased function name
+ * @param args - Evaluated arguments
+ * @param encoding - Text encoding of the database
+ * @returns The function's result
+ */
+export function callScalarFunction(name: string, args: SqlValue[], encoding: TextEncoding = 'utf-8'): SqlValue {
+    const fn = SCALAR_FUNCTIONS.get(name);
+    if (!fn) {
+        throw new Error(`no such function: ${name}`);
+    }
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        throw new Error(`wrong number of arguments to function ${name}()`);
+    }
+    return fn.call(args, encoding);
+}
+
+/**
+ * Apply a transformation to the text form of a value.
+ * @param value - Value to transform
+ * @param transform - Transformation of the text
+ * @returns The transformed text, or NULL for NULL
+ */
+function mapText(value: SqlValue, transform: (text: string) => string): SqlValue {
+    return value === null ? null : transform(valueToText(value)!);
+}
+
+/**
+ * Convert a value to a real as SQLite does for functions that take a floating point argument.
+ * @param value - Non-NULL value
+ * @returns The value as a number; text without a numeric prefix is 0.0
+ */
+function toReal(value: Exclude<SqlValue, null>): number {
+    return Number(toNumeric(value));
+}
+
+/**
+ * substr(X, Y, Z): the Z characters of X starting at the Y-th, counting from 1. A negative Y
+ * counts from the end and a negative Z takes the characters before Y. Blobs are sliced by byte.
+ */
+function substr([x, start, length]: SqlValue[]): SqlValue {
+    if (x === null || start === null || length === null) {
+        return null;
+    }
+    const items = x instanceof Uint8Array ? x : [...valueToText(x)!];
+    let first = Number(valueToInteger(start));
+    let count = length === undefined ? Infinity : Number(valueToInteger(length));
+    const backwards = count < 0;
+    if (backwards) {
+        count = -count;
+    }
+    
+    // This mirrors the arithmetic of SQLite's substrFunc(), including a start of 0
+    if (first < 0) {
+        first += items.length;
+        if (first < 0) {
+            count = Math.max(0, count + first);
+            first = 0;
+        }
+    } else if (first > 0) {
+        first--;
+    } else if (count > 0) {
+        count--;
+    }
+    if (backwards) {
+        first -= count;
+        if (first < 0) {
+            count += first;
+            first = 0;
+        }
+    }
+    
+    const slice = items.slice(first, first + count);
+    return slice instanceof Uint8Array ? slice : slice.join('');
+}
+
+/**
+ * Remove characters from the ends of the text form of a value.
+ * @param x - Value to trim
+ * @param characters - Characters to remove, spaces if undefined
+ * @param left - Whether to trim the start
+ * @param right - Whether to trim the end
+ * @returns The trimmed text, or NULL if an argument is NULL
+ */
+function trim(x: SqlValue, characters: SqlValue | undefined, left: boolean, right: boolean): SqlValue {
+    if (x === null || characters === null) {
+        return null;
+    }
+    const remove = new Set(characters === undefined ? ' ' : valueToText(characters)!);
+    const chars = [...valueToText(x)!];
+    let start = 0;
+    let end = chars.length;
+    while (left && start < end && remove.has(chars[start])) start++;
+    while (right && end > start && remove.has(chars[end - 1])) end--;
+    return chars.slice(start, end).join('');
+}
+
+/**
+ * instr(X, Y): the 1-based position of the first occurrence of Y in X, or 0 if there is none.
+ * Positions count bytes when both arguments are blobs and characters otherwise.
+ */
+function instr([haystack, needle]: SqlValue[]): SqlValue {
+    if (haystack === null || needle === null) {
+        return null;
+    }
+    if (haystack instanceof Uint8Array && needle instanceof Uint8Array) {
+        for (let i = 0; i + needle.length <= haystack.length; i++) {
+            if (needle.every((byte, j) => haystack[i + j] === byte)) {
+                return BigInt(i + 1);
+            }
+        }
+        return 0n;
+    }
+    const text = valueToText(haystack)!;
+    const index = text.indexOf(valueToText(needle)!);
+    return index === -1 ? 0n : BigInt([...text.slice(0, index)].length + 1);
+}
+
+/**
+ * round(X, N): X rounded to N digits after the decimal point, halves away from zero. The result is always a REAL.
+ */
+function round([x, digits]: SqlValue[]): SqlValue {
+    if (x === null || digits === null) {
+        return null;
+    }
+    const places = digits === undefined ? 0 : Math.min(30, Math.max(0, Number(valueToInteger(digits))));
+    const value = toReal(x);
+    if (!Number.isFinite(value) || Math.abs(value) >= 2 ** 63) {
+        return value;
+    }
+    // Like SQLite, go through the decimal text so that the result is the real nearest to it
+    return Number(formatFixed(Math.abs(value), places, SIGNIFICANT_DIGITS, false)) * Math.sign(value);
+}
+
+/**
+ * Scalar min() or max(): the smallest or largest argument, or NULL if any argument is NULL.
+ * @param args - Arguments
+ * @param direction - -1 for min(), 1 for max()
+ * @returns The chosen argument
+ */
+function extreme(args: SqlValue[], direction: number): SqlValue {
+    if (args.includes(null)) {
+        return null;
+    }
+    return args.reduce((best, arg) => compareValues(arg, best) * direction > 0 ? arg : best);
+}
+
+/**
+ * printf(FORMAT, ...): format the arguments like the C function, with SQLite's extensions
+ * %q, %Q and %w for quoting and the `,` flag for thousands separators. Missing arguments
+ * count as 0 or an empty string.
+ */
+function printf(args: SqlValue[]): SqlValue {
+    if (args.length === 0 || args[0] === null) {
+        return null;
+    }
+    const format = valueToText(args[0])!;
+    let next = 1;
+    const nextArg = (): SqlValue => next < args.length ? args[next++] : null;
+    const intArg = (): bigint => {
+        const value = nextArg();
+        return value === null ? 0n : valueToInteger(value);
+    };
+    
+    let output = '';
+    let i = 0;
+    while (i < format.length) {
+        const percent = format.indexOf('%', i);
+        if (percent === -1) {
+            output += format.slice(i);
+            break;
+        }
+        output += format.slice(i, percent);
+        i = percent + 1;
+        if (i === format.length) {
+            output += '%';
+            break;
+        }
+        
+        const spec: FormatSpec = {
+            leftJustify: false, plusSign: false, blankSign: false, alternateForm: false,
+            altForm2: false, zeroPad: false, thousands: false, width: 0, precision: -1,
+        };
+        for (; i < format.length; i++) {
+            const flag = format[i];
+            if (flag === '-') spec.leftJustify = true;
+            else if (flag === '+') spec.plusSign = true;
+            else if (flag === ' ') spec.blankSign = true;
+            else if (flag === '#') spec.alternateForm = true;
+            else if (flag === '!') spec.altForm2 = true;
+            else if (flag === '0') spec.zeroPad = true;
+            else if (flag === ',') spec.thousands = true;
+            else break;
+        }
+        if (format[i] === '*') {
+            i++;
+            const width = Number(intArg());
+            spec.leftJustify ||= width < 0;
+            spec.width = Math.abs(width);
+        } else {
+            const digits = format.slice(i).match(/^\d*/)![0];
+            spec.width = digits === '' ? 0 : Number(digits);
+            i += digits.length;
+        }
+        if (format[i] === '.') {
+            i++;
+            if (format[i] === '*') {
+                i++;
+                spec.precision = Math.abs(Number(intArg()));
+            } else {
+                const digits = format.slice(i).match(/^\d*/)![0];
+                spec.precision = digits === '' ? 0 : Number(digits);
+                i += digits.length;
+            }
+        }
+        
+        // Length modifiers are accepted and ignored: every integer argument is 64 bits
+        while (format[i] === 'l') {
+            i++;
+        }
+        const conversion = format[i++];
+        let text: string;
+        switch (conversion) {
+            case 'd': case 'i': case 'u': case 'x': case 'X': case 'o':
+                text = formatInteger(intArg(), conversion, spec);
+                break;
+            case 'f': case 'e': case 'E': case 'g': case 'G': {
+                const value = nextArg();
+                text = formatReal(value === null ? 0 : toReal(value), conversion, spec);
+                break;
+            }
+            case 's': case 'z': {
+                const chars = [...valueToText(nextArg()) ?? ''];
+                text = (spec.precision >= 0 ? chars.slice(0, spec.precision) : chars).join('');
+                break;
+            }
+            case 'c': {
+                const first = [...valueToText(nextArg()) ?? ''][0] ?? '';
+                text = first.repeat(Math.max(1, spec.precision));
+                break;
+            }
+            case 'q': case 'Q': case 'w': {
+                const value = valueToText(nextArg());
+                const quote = conversion === 'w' ? '"' : "'";
+                if (value === null) {
+                    text = conversion === 'Q' ? 'NULL' : '(NULL)';
+                } else {
+                    const escaped = value.replaceAll(quote, quote + quote);
+                    text = conversion === 'Q' ? `'${escaped}'` : escaped;
+                }
+                break;
+            }
+            case '%':
+                text = '%';
+                break;
+            default:
+                // SQLite stops at an unknown conversion, keeping what was formatted so far
+                return output;
+        }
+        
+        const padding = ' '.repeat(Math.max(0, spec.width - [...text].length));
+        output += spec.leftJustify ? text + padding : padding + text;
+    }
+    return output;
+}
+
+/**
+ * Format an integer for %d, %i, %u, %x, %X or %o. The unsigned conversions print
+ * negative values as their 64-bit two's complement.
+ * @param value - Integer argument
+ * @param conversion - Conversion character
+ * @param spec - Flags, width and precision
+ * @returns The formatted integer, before padding to the width
+ */
+function formatInteger(value: bigint, conversion: string, spec: FormatSpec): string {
+    const signed = conversion === 'd' || conversion === 'i';
+    const negative = signed && value < 0n;
+    const magnitude = signed ? (negative ? -value : value) : BigInt.asUintN(64, value);
+    const radix = conversion === 'x' || conversion === 'X' ? 16 : conversion === 'o' ? 8 : 10;
+    let digits = magnitude.toString(radix);
+    if (conversion === 'X') {
+        digits = digits.toUpperCase();
+    }
+    
+    const sign = negative ? '-' : signed && spec.plusSign ? '+' : signed && spec.blankSign ? ' ' : '';
+    let precision = spec.precision;
+    if (spec.zeroPad && !spec.leftJustify && precision < spec.width - sign.length) {
+        precision = spec.width - sign.length;
+    }
+    digits = digits.padStart(precision, '0');
+    if (spec.thousands && radix === 10) {
+        digits = digits.replace(/\B(?=(\d{3})+$)/g, ',');
+    }
+    const prefix = spec.alternateForm && magnitude !== 0n ? { 16: conversion === 'X' ? '0X' : '0x', 8: '0', 10: '' }[radix] : '';
+    return sign + prefix + digits;
+}
+
+/**
+ * Format a real for %f, %e, %E, %g or %G. As in SQLite, at most 16 significant digits
+ * (26 with the `!` flag) are produced and any further digits are zeros.
+ * @param value - Real argument
+ * @param conversion - Conversion character
+ * @param spec - Flags, width and precision
+ * @returns The formatted number, before padding to the width
+ */
+function formatReal(value: number, conversion: string, spec: FormatSpec): string {
+    const sign = value < 0 ? '-' : spec.plusSign ? '+' : spec.blankSign ? ' ' : '';
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return `${sign}Inf`;
+    }
+    
+    const magnitude = Math.abs(value);
+    const significantDigits = spec.altForm2 ? SIGNIFICANT_DIGITS_ALT : SIGNIFICANT_DIGITS;
+    let precision = spec.precision < 0 ? 6 : spec.precision;
+    let text: string;
+    if (conversion === 'f') {
+        text = formatFixed(magnitude, precision, significantDigits, spec.alternateForm || spec.altForm2);
+        if (spec.altForm2) {
+            text = trimFraction(text, true);
+        }
+    } else if (conversion === 'e' || conversion === 'E') {
+        text = formatExponent(magnitude, precision, significantDigits, spec.alternateForm || spec.altForm2, conversion);
+        if (spec.altForm2) {
+            text = trimFraction(text, true);
+        }
+    } else {
+        // %g uses the precision as the number of significant digits
+        precision = Math.max(0, precision - 1);
+        const exponent = magnitude === 0 ? 0 : decimalExponent(magnitude, precision);
+        const keepPoint = spec.alternateForm || spec.altForm2;
+        text = exponent < -4 || exponent > precision
+            ? formatExponent(magnitude, precision, significantDigits, keepPoint, conversion === 'G' ? 'E' : 'e')
+            : formatFixed(magnitude, precision - exponent, significantDigits, keepPoint);
+        if (!spec.alternateForm) {
+            text = trimFraction(text, spec.altForm2);
+        }
+    }
+    
+    if (spec.zeroPad && !spec.leftJustify) {
+        text = text.padStart(spec.width - sign.length, '0');
+    }
+    return sign + text;
+}
+
+/**
+ * Write a non-negative real with a fixed number of digits after the decimal point.
+ * @param value - Non-negative finite value
+ * @param precision - Digits after the decimal point
+ * @param significantDigits - Digits after which only zeros are written
+ * @param alwaysPoint - Whether to write the decimal point even without digits after it
+ * @returns The formatted number
+ */
+function formatFixed(value: number, precision: number, significantDigits: number, alwaysPoint: boolean): string {
+    const digits = limitSignificant(roundScaled(value, precision).toString().padStart(precision + 1, '0'), significantDigits);
+    const integerPart = digits.slice(0, digits.length - precision);
+    const fraction = digits.slice(digits.length - precision);
+    return precision > 0 || alwaysPoint ? `${integerPart}.${fraction}` : integerPart;
+}
+
+/**
+ * Write a non-negative real in exponent notation, such as 1.500000e+03.
+ * @param value - Non-negative finite value
+ * @param precision - Digits after the decimal point of the mantissa
+ * @param significantDigits - Digits after which only zeros are written
+ * @param alwaysPoint - Whether to write the decimal point even without digits after it
+ * @param e - The exponent character, 'e' or 'E'
+ * @returns The formatted number
+ */
+function formatExponent(value: number, precision: number, significantDigits: number, alwaysPoint: boolean, e: string): string {
+    const exponent = value === 0 ? 0 : decimalExponent(value, precision);
+    const digits = limitSignificant(roundScaled(value, precision - exponent).toString().padStart(precision + 1, '0'), significantDigits);
+    const mantissa = precision > 0 || alwaysPoint ? `${digits[0]}.${digits.slice(1)}` : digits;
+    const exponentDigits = Math.abs(exponent).toString().padStart(2, '0');
+    return `${mantissa}${e}${exponent < 0 ? '-' : '+'}${exponentDigits}`;
+}
+
+/**
+ * Remove trailing zeros after a decimal point, and the point itself if nothing follows it.
+ * @param text - Formatted number, possibly with an exponent
+ * @param keepOneZero - Leave ".0" rather than removing the point
+ * @returns The shortened number
+ */
+function trimFraction(text: string, keepOneZero: boolean): string {
+    const [number, exponent = ''] = text.split(/(?=[eE])/);
+    if (!number.includes('.')) {
+        return text;
+    }
+    const trimmed = number.replace(/0+$/, '');
+    if (!trimmed.endsWith('.')) {
+        return trimmed + exponent;
+    }
+    return (keepOneZero ? `${trimmed}0` : trimmed.slice(0, -1)) + exponent;
+}
+
+/**
+ * Replace the digits after the first `count` significant ones with zeros.
+ * @param digits - Decimal digits
+ * @param count - Number of significant digits to keep
+ * @returns The digits with the same length
+ */
+function limitSignificant(digits: string, count: number): string {
+    const first = digits.search(/[1-9]/);
+    if (first === -1 || digits.length - first <= count) {
+        return digits;
+    }
+    return digits.slice(0, first + count) + '0'.repeat(digits.length - first - count);
+}
+
+/**
+ * Find the decimal exponent of a positive real once it is rounded to `precision` digits after
+ * its first significant digit, so 9.99 has exponent 1 at precision 1.
+ * @param value - Positive finite value
+ * @param precision - Digits kept after the first significant digit
+ * @returns The exponent
+ */
+function decimalExponent(value: number, precision: number): number {
+    const [numerator, denominator] = exactFraction(value);
+    let exponent = 0;
+    while (numerator >= denominator * 10n ** BigInt(exponent + 1)) exponent++;
+    while (exponent <= 0 && numerator * 10n ** BigInt(-exponent) < denominator) exponent--;
+    // Rounding up can carry into a new leading digit
+    return roundScaled(value, precision - exponent) >= 10n ** BigInt(precision + 1) ? exponent + 1 : exponent;
+}
+
+/**
+ * Round a non-negative real to a multiple of 10^-scale, halves up, using its exact binary value.
+ * @param value - Non-negative finite value
+ * @param scale - Decimal places to keep; negative to round to tens, hundreds and so on
+ * @returns value * 10^scale rounded to an integer
+ */
+function roundScaled(value: number, scale: number): bigint {
+    const [numerator, denominator] = exactFraction(value);
+    const power = 10n ** BigInt(Math.abs(scale));
+    const [scaled, divisor] = scale >= 0 ? [numerator * power, denominator] : [numerator, denominator * power];
+    return (2n * scaled + divisor) / (2n * divisor);
+}
+
+/**
+ * Express a finite real exactly as a fraction.
+ * @param value - Finite value
+ * @returns [numerator, denominator], the denominator a power of two
+ */
+function exactFraction(value: number): [bigint, bigint] {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, Math.abs(value));
+    const bits = view.getBigUint64(0);
+    const biasedExponent = Number(bits >> 52n);
+    const fraction = bits & ((1n << 52n) - 1n);
+    // Subnormals have no implicit leading bit
+    const mantissa = biasedExponent === 0 ? fraction : fraction | (1n << 52n);
+    const exponent = (biasedExponent === 0 ? 1 : biasedExponent) - 1075;
+    return exponent >= 0 ? [mantissa << BigInt(exponent), 1n] : [mantissa, 1n << BigInt(-exponent)];
+}
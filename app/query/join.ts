@@ -0,0 +1,360 @@
+import type { Expr, ColumnExpr } from '../parser/ast.js';
+import type { Row } from '../parser/record.js';
+import type { IndexInfo } from '../database/schema.js';
+import { findColumn } from '../parser/schema.js';
+import type { ColumnSchema, TableSchema } from '../parser/schema.js';
+import { applyAffinity } from '../utils/affinity.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import type { TextEncoding } from '../utils/encoding.js';
+import type { Pager } from '../database/pager.js';
+import { TableCursor } from '../database/table.js';
+import { scanIndex, scanIndexEntries, WithoutRowidTable } from '../database/index.js';
+import { evaluate, exprChildren, isTrue } from './evaluator.js';
+import type { EvalContext, ResolvedColumn } from './evaluator.js';
+import { planScan, splitConjuncts, conjoin } from './planner.js';
+import type { PlanTable, ScanPlan } from './planner.js';
+
+/**
+ * One table of a FROM clause and how it joins the tables before it.
+ */
+export interface JoinSource {
+    table: PlanTable;
+    rootPage: number;
+    indexes: IndexInfo[];
+    /** The first table is always 'inner' */
+    kind: 'inner' | 'left';
+    /** Join condition, including the equalities implied by USING or NATURAL */
+    on: Expr | null;
+    /** Lower-cased names of columns merged into an earlier table's by USING or NATURAL, hidden from unqualified references */
+    hidden: Set<string>;
+}
+
+/**
+ * Join the tables of a FROM clause with nested loops. For each combination of outer rows the
+ * next table is planned again, so that its join condition can look rows up by rowid or
+ * through an index. Each WHERE term is applied as soon as all the tables it references have a row.
+ * @param pager - Pager for the SQLite database
+ * @param sources - Tables in FROM clause order
+ * @param where - Parsed WHERE expression, if any
+ * @param firstPlan - How to scan the first table
+ * @returns A context for each joined row that satisfies the WHERE clause
+ */
+export async function* joinRows(pager: Pager, sources: JoinSource[], where: Expr | null, firstPlan: ScanPlan): AsyncGenerator<EvalContext> {
+    const filters: Expr[][] = sources.map(() => []);
+    for (const term of where ? splitConjuncts(where) : []) {
+        filters[lastSourceOf(term, sources)].push(term);
+    }
+    yield* joinLevel(pager, sources, filters, firstPlan, []);
+}
+
+/**
+ * Produce the joined rows that extend a combination of outer rows with rows of the next table.
+ * @param pager - Pager for the SQLite database
+ * @param sources - Tables in FROM clause order
+ * @param filters - WHERE terms to apply once each table has a row
+ * @param firstPlan - How to scan the first table
+ * @param outerRows - Current rows of the tables before the next one; NULL for a LEFT JOIN without a match
+ * @returns A context for each complete joined row that passes the filters
+ */
+async function* joinLevel(pager: Pager, sources: JoinSource[], filters: Expr[][], firstPlan: ScanPlan, outerRows: Array<Row | null>): AsyncGenerator<EvalContext> {
+    const level = outerRows.length;
+    const source = sources[level];
+    const joined = sources.slice(0, level + 1);
+    
+    let plan = firstPlan;
+    if (level > 0) {
+        // WHERE terms can narrow an inner join, but a LEFT JOIN must see every row matching ON
+        const terms = source.kind === 'left' ? [source.on] : [source.on, ...filters[level]];
+        const outer = { tables: sources.slice(0, level).map(outerSource => outerSource.table), context: createJoinContext(sources.slice(0, level), outerRows, pager.textEncoding) };
+        plan = planScan(source.table, source.indexes, conjoin(terms), outer);
+    }
+    
+    let matched = false;
+    for await (const row of scanRows(pager, source.table, source.rootPage, plan)) {
+        const rows = [...outerRows, row];
+        const context = createJoinContext(joined, rows, pager.textEncoding);
+        if (source.on && !isTrue(evaluate(source.on, context))) {
+            continue;
+        }
+        matched = true;
+        yield* emitRow(pager, sources, filters, firstPlan, rows, context);
+    }
+    
+    if (!matched && source.kind === 'left') {
+        const rows = [...outerRows, null];
+        yield* emitRow(pager, sources, filters, firstPlan, rows, createJoinContext(joined, rows, pager.textEncoding));
+    }
+}
+
+/**
+ * Apply the WHERE terms that became ready with a table's row, then continue with the next table.
+ * @param pager - Pager for the SQLite database
+ * @param sources - Tables in FROM clause order
+ * @param filters - WHERE terms to apply once each table has a row
+ * @param firstPlan - How to scan the first table
+ * @param rows - Current rows of the tables joined so far
+ * @param context - Context over those rows
+ * @returns A context for each complete joined row that passes the filters
+ */
+async function* emitRow(pager: Pager, sources: JoinSource[], filters: Expr[][], firstPlan: ScanPlan, rows: Array<Row | null>, context: EvalContext): AsyncGenerator<EvalContext> {
+    const level = rows.length - 1;
+    if (!filters[level].every(term => isTrue(evaluate(term, context)))) {
+        return;
+    }
+    if (level === sources.length - 1) {
+        yield context;
+    } else {
+        yield* joinLevel(pager, sources, filters, firstPlan, rows);
+    }
+}
+
+/**
+ * Produce the candidate rows of a table for a query plan.
+ * @param pager - Pager for the SQLite database
+ * @param table - The table being scanned
+ * @param rootPage - Root page of the table B-tree
+ * @param plan - How to scan the table
+ * @returns The rows that may satisfy the conditions the plan was made for, one at a time
+ */
+export async function* scanRows(pager: Pager, table: PlanTable, rootPage: number, plan: ScanPlan): AsyncGenerator<Row> {
+    const rows = table.withoutRowid ? scanWithoutRowid(pager, table, rootPage, plan) : scanRowidTable(pager, rootPage, plan);
+    const complete = rowCompleter(table, pager.textEncoding);
+    for await (const row of rows) {
+        yield complete(row);
+    }
+}
+
+/**
+ * Make a function that fills in the columns a stored row lacks. Records written before
+ * ALTER TABLE ADD COLUMN end early; the added columns read as their DEFAULT.
+ * @param table - The table the rows belong to
+ * @param textEncoding - Text encoding of the database
+ * @returns A function from a row as stored to the row with a value for every stored column
+ */
+export function rowCompleter(table: TableSchema, textEncoding: TextEncoding): (row: Row) => Row {
+    const columns = table.columns.filter(column => !column.generated || column.generated.stored);
+    // Only computed when needed, since a column that was never added later may have a default that is not constant
+    const defaults = new Map<number, SqlValue>();
+    return row => {
+        if (row.values.length >= columns.length) {
+            return row;
+        }
+        const values = [...row.values];
+        for (let i = values.length; i < columns.length; i++) {
+            if (!defaults.has(i)) {
+                defaults.set(i, columnDefault(columns[i], textEncoding));
+            }
+            values.push(defaults.get(i)!);
+        }
+        return { ...row, values };
+    };
+}
+
+/**
+ * Produce the candidate rows of a rowid table for a query plan.
+ * @param pager - Pager for the SQLite database
+ * @param rootPage - Root page of the table B-tree
+ * @param plan - How to scan the table
+ * @returns The rows that may satisfy the conditions the plan was made for, as stored
+ */
+async function* scanRowidTable(pager: Pager, rootPage: number, plan: ScanPlan): AsyncGenerator<Row> {
+    const cursor = new TableCursor(pager, rootPage);
+    switch (plan.kind) {
+        case 'indexScan':
+            // Fetch each matching row directly by rowid (much faster than table scan)
+            for await (const rowid of scanIndex(pager, plan.index.rootPage, plan.index.columns, plan.range, plan.reverse)) {
+                if (await cursor.seek(rowid) && cursor.rowid === rowid) {
+                    yield await cursor.row();
+                }
+            }
+            return;
+        case 'rowidLookup':
+            for (const rowid of plan.rowids) {
+                if (await cursor.seek(rowid) && cursor.rowid === rowid) {
+                    yield await cursor.row();
+                }
+            }
+            return;
+        case 'rowidRange': {
+            const { lower, upper, reverse } = plan;
+            if (reverse) {
+                // Step back from the first row past the upper bound
+                let found = upper === null ? await cursor.last() : await cursor.seek(upper + 1n) ? await cursor.previous() : await cursor.last();
+                for (; found && (lower === null || cursor.rowid >= lower); found = await cursor.previous()) {
+                    yield await cursor.row();
+                }
+                return;
+            }
+            let found = lower === null ? await cursor.first() : await cursor.seek(lower);
+            for (; found && (upper === null || cursor.rowid <= upper); found = await cursor.next()) {
+                yield await cursor.row();
+            }
+            return;
+        }
+        case 'tableScan':
+            if (plan.reverse) {
+                for (let found = await cursor.last(); found; found = await cursor.previous()) {
+                    yield await cursor.row();
+                }
+                return;
+            }
+            yield* cursor;
+    }
+}
+
+/**
+ * Produce the candidate rows of a WITHOUT ROWID table for a query plan. Its primary key
+ * index is the table itself, so scanning it yields the rows directly; the entries of
+ * other indexes lead to the rows through their primary key.
+ * @param pager - Pager for the SQLite database
+ * @param table - The table being scanned
+ * @param rootPage - Root page of the table B-tree
+ * @param plan - How to scan the table
+ * @returns The rows that may satisfy the conditions the plan was made for, one at a time
+ */
+async function* scanWithoutRowid(pager: Pager, table: PlanTable, rootPage: number, plan: ScanPlan): AsyncGenerator<Row> {
+    const rows = new WithoutRowidTable(pager, rootPage, table);
+    switch (plan.kind) {
+        case 'tableScan':
+            yield* rows.scan({ equal: [], lower: null, upper: null }, plan.reverse);
+            return;
+        case 'indexScan':
+            if (plan.index.rootPage === rootPage) {
+                yield* rows.scan(plan.range, plan.reverse);
+                return;
+            }
+            for await (const entry of scanIndexEntries(pager, plan.index.rootPage, plan.index.columns, plan.range, plan.reverse)) {
+                const row = await rows.fetch(rows.keyOf(plan.index.columns, entry));
+                if (row) {
+                    yield row;
+                }
+            }
+            return;
+        default:
+            throw new Error(`Table ${table.name} has no rowid`);
+    }
+}
+
+/**
+ * Compute the value a column takes in rows stored without it, or inserted without a value for it.
+ * @param column - The column
+ * @param textEncoding - Text encoding of the database
+ * @returns Its DEFAULT value with the column's affinity applied, or NULL if it has none
+ */
+export function columnDefault(column: ColumnSchema, textEncoding: TextEncoding): SqlValue {
+    if (!column.defaultValue) {
+        return null;
+    }
+    const context: EvalContext = {
+        resolveColumn(ref: ColumnExpr): never {
+            throw new Error(`default value of column [${column.name}] is not constant`);
+        },
+        textEncoding,
+    };
+    return applyAffinity(evaluate(column.defaultValue, context), column.affinity);
+}
+
+/**
+ * Build an evaluation context that resolves column references against the current rows of
+ * joined tables. A qualified reference names a table by its alias, or by its name if it has
+ * none; an unqualified one must match a column of exactly one table.
+ * @param sources - Joined tables
+ * @param rows - Current row of each table, or null to resolve its columns to NULL
+ * @param textEncoding - Text encoding of the database
+ * @returns Context for evaluating expressions against the rows
+ */
+export function createJoinContext(sources: JoinSource[], rows: Array<Row | null>, textEncoding: TextEncoding): EvalContext {
+    return {
+        textEncoding,
+        resolveColumn(ref: ColumnExpr): ResolvedColumn {
+            if (ref.table !== null) {
+                const qualifier = ref.table.toLowerCase();
+                const index = sources.findIndex(source => (source.table.alias ?? source.table.name).toLowerCase() === qualifier);
+                const resolved = index === -1 ? null : resolveInTable(sources[index].table, rows[index], ref.name, textEncoding);
+                if (!resolved) {
+                    throw new Error(`no such column: ${ref.table}.${ref.name}`);
+                }
+                return resolved;
+            }
+            
+            let found: ResolvedColumn | null = null;
+            sources.forEach((source, i) => {
+                if (source.hidden.has(ref.name.toLowerCase())) {
+                    return;
+                }
+                const resolved = resolveInTable(source.table, rows[i], ref.name, textEncoding);
+                if (resolved && found) {
+                    throw new Error(`ambiguous column name: ${ref.name}`);
+                }
+                found ??= resolved;
+            });
+            if (!found) {
+                throw new Error(sources.length === 1 ? `Column ${ref.name} not found in table ${sources[0].table.name}` : `no such column: ${ref.name}`);
+            }
+            return found;
+        }
+    };
+}
+
+/**
+ * Look up a column of one table in its current row.
+ * @param table - The table
+ * @param row - Its current row, or null for NULL values
+ * @param columnName - Column name as written
+ * @param textEncoding - Text encoding of the database, for computing VIRTUAL columns
+ * @returns The column's value, affinity and collation, or null if the table has no such column
+ */
+function resolveInTable(table: PlanTable, row: Row | null, columnName: string, textEncoding?: TextEncoding): ResolvedColumn | null {
+    const rowid = row ? row.rowid : null;
+    const name = columnName.toLowerCase();
+    if (name === table.integerPrimaryKeyColumn?.toLowerCase()) {
+        return { value: rowid, affinity: 'INTEGER', collation: 'BINARY' };
+    }
+    
+    const index = findColumn(table, name);
+    if (index !== -1) {
+        const { affinity, collation, generated } = table.columns[index];
+        if (generated && !generated.stored) {
+            // VIRTUAL columns are left out of the record and computed from the other columns
+            const context: EvalContext = { resolveColumn: ref => resolveInTable(table, row, ref.name, textEncoding)!, textEncoding };
+            const value = row ? applyAffinity(evaluate(generated.expr, context), affinity) : null;
+            return { value, affinity, collation };
+        }
+        const stored = table.columns.slice(0, index).filter(column => !column.generated || column.generated.stored).length;
+        const value = row?.values[stored] ?? null;
+        // REAL columns store integral values as integers on disk to save space
+        if (affinity === 'REAL' && typeof value === 'bigint') {
+            return { value: Number(value), affinity, collation };
+        }
+        return { value, affinity, collation };
+    }
+    
+    if (!table.withoutRowid && (name === 'rowid' || name === 'oid' || name === '_rowid_')) {
+        return { value: rowid, affinity: 'INTEGER', collation: 'BINARY' };
+    }
+    return null;
+}
+
+/**
+ * Find the last table in FROM clause order that an expression references.
+ * @param expr - Expression to inspect
+ * @param sources - Tables in FROM clause order
+ * @returns Index of the table, 0 if the expression references none
+ */
+function lastSourceOf(expr: Expr, sources: JoinSource[]): number {
+    if (expr.kind !== 'column') {
+        return Math.max(0, ...exprChildren(expr).map(child => lastSourceOf(child, sources)));
+    }
+    const name = expr.name.toLowerCase();
+    let last = 0;
+    sources.forEach((source, i) => {
+        const { table } = source;
+        const matches = expr.table !== null
+            ? expr.table.toLowerCase() === (table.alias ?? table.name).toLowerCase()
+            : resolveInTable(table, null, name) !== null;
+        if (matches) {
+            last = i;
+        }
+    });
+    return last;
+}
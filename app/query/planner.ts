@@ -0,0 +1,523 @@
+import type { Expr, ColumnExpr } from '../parser/ast.js';
+import type { IndexInfo } from '../database/schema.js';
+import { findColumn } from '../parser/schema.js';
+import type { TableSchema } from '../parser/schema.js';
+import type { IndexBound, IndexRange } from '../database/index.js';
+import type { Affinity } from '../utils/affinity.js';
+import { isNumericAffinity } from '../utils/affinity.js';
+import type { Collation } from '../utils/collation.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+import { evaluate, applyColumnAffinity, comparisonCollation, exprChildren, exprCollation } from './evaluator.js';
+import type { EvalContext, ResolvedColumn } from './evaluator.js';
+
+/**
+ * The table being scanned, as seen by the planner: its schema and the alias it has in the query.
+ */
+export interface PlanTable extends TableSchema {
+    alias: string | null;
+}
+
+/**
+ * How to produce the candidate rows of a query: every row of the table, the rows whose
+ * index entries fall in a key range, specific rowids, or an inclusive range of rowids.
+ * Scans run in rowid or index order, or backwards when `reverse` is set.
+ */
+export type ScanPlan =
+    | { kind: 'tableScan', reverse: boolean }
+    | { kind: 'indexScan', index: IndexInfo, range: IndexRange, reverse: boolean }
+    | { kind: 'rowidLookup', rowids: bigint[] }
+    | { kind: 'rowidRange', lower: bigint | null, upper: bigint | null, reverse: boolean };
+
+/**
+ * The tables joined before the one being planned, and a context holding their current rows.
+ * Expressions over their columns are constants while the inner table is scanned.
+ */
+export interface OuterRows {
+    tables: PlanTable[];
+    context: EvalContext;
+}
+
+/**
+ * An ORDER BY term with its collation and NULL placement resolved.
+ */
+export interface SortKey {
+    expr: Expr;
+    collation: Collation;
+    descending: boolean;
+    nullsFirst: boolean;
+}
+
+/**
+ * Stands for the rowid in constraints, whether written as rowid, oid, _rowid_ or the INTEGER PRIMARY KEY column.
+ */
+const ROWID = Symbol('rowid');
+
+/**
+ * A WHERE term of the form `column op constant` with the column on the left, or `column IN (constants)`.
+ * `affinity` is that of the constant side, which only a column of an outer table has, and
+ * `collation` the one the term compares with, which an index must share to serve it.
+ */
+type Constraint =
+    | { column: string | typeof ROWID, op: '=' | '<' | '<=' | '>' | '>=', value: SqlValue, affinity: Affinity, collation: Collation }
+    | { column: string | typeof ROWID, op: 'IN', values: SqlValue[], affinity: Affinity, collation: Collation };
+
+/**
+ * A constant operand of a constraint with its affinity.
+ */
+interface Operand {
+    value: SqlValue;
+    affinity: Affinity;
+}
+
+const FLIPPED_OPERATORS = { '=': '=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' } as const;
+
+/**
+ * Choose how to scan a table for a WHERE clause. Equality or IN on the rowid looks rows up
+ * directly. Otherwise an index is usable when the clause constrains its leading columns
+ * with equalities, optionally followed by a range on the next column; the index
+ * constraining the most columns wins, and a rowid range is preferred over an index range.
+ * The WHERE clause must still be applied to every row produced by the plan.
+ * @param table - The table being queried
+ * @param indexes - Indexes on the table
+ * @param where - Parsed WHERE expression, if any
+ * @param outer - For the inner table of a join, the current rows of the tables joined before it
+ * @returns The chosen scan
+ */
+export function planScan(table: PlanTable, indexes: IndexInfo[], where: Expr | null, outer: OuterRows | null = null): ScanPlan {
+    const constraints = where ? splitConjuncts(where).flatMap(term => extractConstraints(term, table, outer)) : [];
+    if (constraints.some(constraint => constraint.op === 'IN' && constraint.values.length === 0)) {
+        return { kind: 'rowidLookup', rowids: [] };
+    }
+    
+    const rowidPlan = planRowidScan(constraints);
+    if (rowidPlan?.kind === 'rowidLookup') {
+        return rowidPlan;
+    }
+    
+    let best: ScanPlan = { kind: 'tableScan', reverse: false };
+    let bestScore = 0;
+    for (const index of indexes) {
+        const range = matchIndex(index, constraints, table);
+        if (!range) {
+            continue;
+        }
+        
+        // Every equality narrows the scan more than a range does
+        const score = range.equal.length * 2 + (range.lower || range.upper ? 1 : 0);
+        if (score > bestScore) {
+            best = { kind: 'indexScan', index, range, reverse: false };
+            bestScore = score;
+        }
+    }
+    
+    if (rowidPlan && bestScore < 2) {
+        return rowidPlan;
+    }
+    return best;
+}
+
+/**
+ * Adapt a scan so that it produces rows in ORDER BY order, making a sort unnecessary.
+ * Rowid scans can run backwards, an index scan delivers its columns' order, and a full
+ * table scan can be replaced by a scan of an index whose columns match the ORDER BY.
+ * @param plan - Scan chosen for the WHERE clause
+ * @param table - The table being queried
+ * @param indexes - Indexes on the table
+ * @param orderBy - Resolved ORDER BY terms
+ * @returns A scan producing rows in the requested order, or null if the rows must be sorted
+ */
+export function orderScan(plan: ScanPlan, table: PlanTable, indexes: IndexInfo[], orderBy: SortKey[]): ScanPlan | null {
+    const first = orderBy[0];
+    if (!first) {
+        return plan;
+    }
+    
+    // Rowids are unique, so later terms never matter
+    const rowidOrder = tableColumn(first.expr, table) === ROWID;
+    switch (plan.kind) {
+        case 'rowidLookup':
+            return rowidOrder ? { ...plan, rowids: first.descending ? [...plan.rowids].reverse() : plan.rowids } : null;
+        case 'rowidRange':
+            return rowidOrder ? { ...plan, reverse: first.descending } : null;
+        case 'indexScan': {
+            const reverse = indexOrder(plan.index, plan.range.equal.length, orderBy, table);
+            return reverse === null ? null : { ...plan, reverse };
+        }
+        case 'tableScan':
+            if (rowidOrder) {
+                return { ...plan, reverse: first.descending };
+            }
+            for (const index of indexes) {
+                const reverse = index.partial ? null : indexOrder(index, 0, orderBy, table);
+                if (reverse !== null) {
+                    return { kind: 'indexScan', index, range: { equal: [], lower: null, upper: null }, reverse };
+                }
+            }
+            return null;
+    }
+}
+
+/**
+ * Check whether scanning an index yields rows in ORDER BY order. Entries are ordered by
+ * the index columns and then by rowid; columns fixed by equality constraints do not vary.
+ * @param index - Index being scanned
+ * @param equalCount - Number of leading columns constrained to a single value
+ * @param orderBy - Resolved ORDER BY terms
+ * @param table - The table being queried
+ * @returns Whether to scan backwards, or null if the index order does not match
+ */
+function indexOrder(index: IndexInfo, equalCount: number, orderBy: SortKey[], table: PlanTable): boolean | null {
+    const fixed = index.columns.slice(0, equalCount).map(column => column.name?.toLowerCase());
+    let position = equalCount;
+    let reverse: boolean | null = null;
+    
+    for (const term of orderBy) {
+        const column = tableColumn(term.expr, table);
+        if (column === null) {
+            return null;
+        }
+        if (typeof column === 'string' && fixed.includes(column)) {
+            continue;
+        }
+        
+        if (position === index.columns.length) {
+            // The rowid follows the indexed columns in ascending order
+            if (column !== ROWID || (reverse !== null && term.descending !== reverse)) {
+                return null;
+            }
+            return term.descending;
+        }
+        
+        const indexColumn = index.columns[position++];
+        if (indexColumn.name?.toLowerCase() !== column || indexColumn.collation !== term.collation) {
+            return null;
+        }
+        const termReverse = term.descending !== indexColumn.descending;
+        if (reverse !== null && termReverse !== reverse) {
+            return null;
+        }
+        reverse = termReverse;
+        
+        // NULL is the smallest value, so it comes first when the column is read in ascending order
+        if (term.nullsFirst !== (indexColumn.descending === reverse)) {
+            return null;
+        }
+    }
+    return reverse ?? false;
+}
+
+/**
+ * Build a direct lookup or range scan from the constraints on the rowid.
+ * @param constraints - Constraints from the WHERE clause
+ * @returns The rowid plan, or null if the rowid is not constrained
+ */
+function planRowidScan(constraints: Constraint[]): ScanPlan | null {
+    let lower: bigint | null = null;
+    let upper: bigint | null = null;
+    
+    for (const constraint of constraints) {
+        if (constraint.column !== ROWID) {
+            continue;
+        }
+        if (constraint.op === '=') {
+            return { kind: 'rowidLookup', rowids: toRowids([constraint.value]) };
+        }
+        if (constraint.op === 'IN') {
+            return { kind: 'rowidLookup', rowids: toRowids(constraint.values) };
+        }
+        
+        const value = applyColumnAffinity(constraint.value, 'INTEGER');
+        if (typeof value !== 'bigint' && typeof value !== 'number') {
+            // Text and blobs sort after every integer; the filter handles them
+            continue;
+        }
+        if (Number.isNaN(value)) {
+            continue;
+        }
+        switch (constraint.op) {
+            case '>': lower = larger(lower, roundBound(value, Math.floor) + 1n); break;
+            case '>=': lower = larger(lower, roundBound(value, Math.ceil)); break;
+            case '<': upper = smaller(upper, roundBound(value, Math.ceil) - 1n); break;
+            case '<=': upper = smaller(upper, roundBound(value, Math.floor)); break;
+        }
+    }
+    
+    return lower === null && upper === null ? null : { kind: 'rowidRange', lower, upper, reverse: false };
+}
+
+/**
+ * Convert the values a rowid is compared with to the rowids they can equal.
+ * @param values - Constant values
+ * @returns Distinct integral rowids in ascending order
+ */
+function toRowids(values: SqlValue[]): bigint[] {
+    const rowids = new Set<bigint>();
+    for (const value of values) {
+        const converted = applyColumnAffinity(value, 'INTEGER');
+        if (typeof converted === 'bigint' || (typeof converted === 'number' && Number.isInteger(converted))) {
+            rowids.add(BigInt(converted));
+        }
+    }
+    return [...rowids].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+}
+
+/**
+ * Round a value a rowid is compared with to the nearest integer in one direction.
+ * @param value - Integer or real value
+ * @param round - Math.floor or Math.ceil
+ * @returns The integer; a real beyond 64 bits becomes one just outside the range of rowids
+ */
+function roundBound(value: bigint | number, round: (value: number) => number): bigint {
+    return typeof value === 'bigint' ? value : BigInt(round(Math.min(Math.max(value, -(2 ** 64)), 2 ** 64)));
+}
+
+function larger(bound: bigint | null, value: bigint): bigint {
+    return bound === null || value > bound ? value : bound;
+}
+
+function smaller(bound: bigint | null, value: bigint): bigint {
+    return bound === null || value < bound ? value : bound;
+}
+
+/**
+ * Build the key range of an index from the constraints on its leading columns.
+ * @param index - Candidate index
+ * @param constraints - Constraints from the WHERE clause
+ * @param table - The table being queried
+ * @returns The range to scan, or null if the index cannot narrow the scan
+ */
+function matchIndex(index: IndexInfo, constraints: Constraint[], table: PlanTable): IndexRange | null {
+    if (index.partial) {
+        return null;
+    }
+    
+    const range: IndexRange = { equal: [], lower: null, upper: null };
+    for (const column of index.columns) {
+        if (column.name === null) {
+            break;
+        }
+        const name = column.name.toLowerCase();
+        
+        const tableIndex = findColumn(table, name);
+        const affinity = tableIndex === -1 ? 'NONE' : table.columns[tableIndex].affinity;
+        const matching = constraints.filter(constraint => constraint.column === name
+            && constraint.collation === column.collation && !convertsColumn(affinity, constraint.affinity));
+        
+        const equality = matching.find(constraint => constraint.op === '=');
+        if (equality?.op === '=') {
+            range.equal.push(applyColumnAffinity(equality.value, affinity));
+            continue;
+        }
+        
+        for (const constraint of matching) {
+            if (constraint.op === 'IN') {
+                continue;
+            }
+            const { op, value } = constraint;
+            const bound: IndexBound = { value: applyColumnAffinity(value, affinity), inclusive: op === '<=' || op === '>=' };
+            if ((op === '>' || op === '>=') && !range.lower) {
+                range.lower = bound;
+            } else if ((op === '<' || op === '<=') && !range.upper) {
+                range.upper = bound;
+            }
+        }
+        break;
+    }
+    
+    return range.equal.length > 0 || range.lower || range.upper ? range : null;
+}
+
+/**
+ * Check whether comparing a column with an operand converts the column's values, as happens
+ * when the operand has numeric affinity and the column does not, or the operand has TEXT
+ * affinity and the column none. An index holds the unconverted values, so it cannot find the matches.
+ * @param columnAffinity - Affinity of the indexed column
+ * @param operandAffinity - Affinity of the operand it is compared with
+ * @returns True if the column's values are converted
+ */
+function convertsColumn(columnAffinity: Affinity, operandAffinity: Affinity): boolean {
+    return (isNumericAffinity(operandAffinity) && !isNumericAffinity(columnAffinity))
+        || (operandAffinity === 'TEXT' && columnAffinity === 'NONE');
+}
+
+/**
+ * Split a WHERE expression into the terms joined by top-level ANDs.
+ * @param expr - WHERE expression
+ * @returns The individual terms
+ */
+export function splitConjuncts(expr: Expr): Expr[] {
+    if (expr.kind === 'binary' && expr.op === 'AND') {
+        return [...splitConjuncts(expr.left), ...splitConjuncts(expr.right)];
+    }
+    return [expr];
+}
+
+/**
+ * Combine conditions with AND.
+ * @param terms - Conditions, with null for absent ones
+ * @returns The conjunction, or null if there are no conditions
+ */
+export function conjoin(terms: Array<Expr | null>): Expr | null {
+    return terms.reduce<Expr | null>((left, right) => {
+        if (!right) {
+            return left;
+        }
+        return left ? { kind: 'binary', op: 'AND', left, right } : right;
+    }, null);
+}
+
+/**
+ * Recognise the WHERE terms an index or rowid lookup can serve: comparisons between a column
+ * and a constant, `column IS constant`, `column BETWEEN constant AND constant` and `column IN (constants)`.
+ * @param term - One term of the WHERE clause
+ * @param table - The table being queried
+ * @param outer - Current rows of the tables joined before it, whose columns count as constants
+ * @returns The constraints the term imposes, empty if none are usable
+ */
+function extractConstraints(term: Expr, table: PlanTable, outer: OuterRows | null): Constraint[] {
+    const context = collationContext(table, outer);
+    if (term.kind === 'between' && !term.negated) {
+        const column = tableColumn(withoutCollate(term.operand), table);
+        const low = constantOperand(term.low, table, outer);
+        const high = constantOperand(term.high, table, outer);
+        if (column && low && high && low.value !== null && high.value !== null) {
+            return [
+                { column, op: '>=', ...low, collation: comparisonCollation(term.operand, term.low, context) },
+                { column, op: '<=', ...high, collation: comparisonCollation(term.operand, term.high, context) },
+            ];
+        }
+        return [];
+    }
+    if (term.kind === 'in' && !term.negated) {
+        const column = tableColumn(withoutCollate(term.operand), table);
+        const operands = term.list.map(expr => constantOperand(expr, table, outer));
+        if (!column || !operands.every(operand => operand?.affinity === 'NONE')) {
+            return [];
+        }
+        const collation = exprCollation(term.operand, context) ?? 'BINARY';
+        return [{ column, op: 'IN', values: operands.map(operand => operand!.value), affinity: 'NONE', collation }];
+    }
+    if (term.kind !== 'binary') {
+        return [];
+    }
+    
+    const op = term.op === 'IS' ? '=' : term.op;
+    if (op !== '=' && op !== '<' && op !== '<=' && op !== '>' && op !== '>=') {
+        return [];
+    }
+    
+    for (const [columnExpr, operandExpr, flipped] of [[term.left, term.right, false], [term.right, term.left, true]] as const) {
+        const column = tableColumn(withoutCollate(columnExpr), table);
+        const operand = constantOperand(operandExpr, table, outer);
+        if (!column || !operand) {
+            continue;
+        }
+        if (operand.value === null) {
+            // A comparison with NULL is never true, so no row matches; IS NULL gives no usable key
+            return term.op === 'IS' ? [] : [{ column, op: 'IN', values: [], affinity: 'NONE', collation: 'BINARY' }];
+        }
+        const collation = comparisonCollation(term.left, term.right, context);
+        return [{ column, op: flipped ? FLIPPED_OPERATORS[op] : op, ...operand, collation }];
+    }
+    return [];
+}
+
+/**
+ * Resolve an expression to a column of the queried table.
+ * @param expr - Expression to check
+ * @param table - The table being queried
+ * @returns The lower-cased column name, ROWID for the rowid, or null if the expression is not a column of the table
+ */
+function tableColumn(expr: Expr, table: PlanTable): string | typeof ROWID | null {
+    if (expr.kind !== 'column') {
+        return null;
+    }
+    // An aliased table can only be referred to by its alias
+    if (expr.table !== null && expr.table.toLowerCase() !== (table.alias ?? table.name).toLowerCase()) {
+        return null;
+    }
+    const name = expr.name.toLowerCase();
+    if (name === table.integerPrimaryKeyColumn?.toLowerCase()) {
+        return ROWID;
+    }
+    if (findColumn(table, name) !== -1) {
+        return name;
+    }
+    return !table.withoutRowid && (name === 'rowid' || name === 'oid' || name === '_rowid_') ? ROWID : null;
+}
+
+/**
+ * Get the value of an expression that is constant during the scan: a literal, optionally
+ * signed, or an expression over the columns of outer tables only.
+ * @param expr - Expression to check
+ * @param table - The table being queried
+ * @param outer - Current rows of the outer tables, if any
+ * @returns The value and its affinity, or undefined if the expression is not a constant
+ */
+function constantOperand(expr: Expr, table: PlanTable, outer: OuterRows | null): Operand | undefined {
+    if (expr.kind === 'collate') {
+        return constantOperand(expr.operand, table, outer);
+    }
+    if (expr.kind === 'literal') {
+        return { value: expr.value, affinity: 'NONE' };
+    }
+    if (expr.kind === 'unary' && (expr.op === '-' || expr.op === '+') && expr.operand.kind === 'literal') {
+        return { value: evaluate(expr, NO_COLUMNS), affinity: 'NONE' };
+    }
+    if (outer && referencesOnly(expr, table, outer.tables)) {
+        const affinity = expr.kind === 'column' ? outer.context.resolveColumn(expr).affinity : 'NONE';
+        return { value: evaluate(expr, outer.context), affinity };
+    }
+    return undefined;
+}
+
+/**
+ * Remove the COLLATE operators around an expression, which leave its value unchanged.
+ * @param expr - Expression to unwrap
+ * @returns The expression inside them
+ */
+function withoutCollate(expr: Expr): Expr {
+    return expr.kind === 'collate' ? withoutCollate(expr.operand) : expr;
+}
+
+/**
+ * Provide the declared collations of the queried table's columns and of the outer tables'
+ * columns, to work out the collation a WHERE term compares with.
+ * @param table - The table being queried
+ * @param outer - Current rows of the outer tables, if any
+ * @returns A context whose values are not to be used
+ */
+function collationContext(table: PlanTable, outer: OuterRows | null): EvalContext {
+    return {
+        resolveColumn(ref: ColumnExpr): ResolvedColumn {
+            const column = tableColumn(ref, table);
+            if (column === null) {
+                return outer!.context.resolveColumn(ref);
+            }
+            const index = column === ROWID ? -1 : findColumn(table, column);
+            return index === -1
+                ? { value: null, affinity: 'INTEGER', collation: 'BINARY' }
+                : { value: null, affinity: table.columns[index].affinity, collation: table.columns[index].collation };
+        }
+    };
+}
+
+/**
+ * Check whether every column an expression references belongs to one of the outer tables.
+ * @param expr - Expression to check
+ * @param table - The table being queried
+ * @param outerTables - Tables joined before it
+ * @returns True if the expression does not depend on the queried table's row
+ */
+function referencesOnly(expr: Expr, table: PlanTable, outerTables: PlanTable[]): boolean {
+    if (expr.kind === 'column') {
+        return tableColumn(expr, table) === null && outerTables.some(outerTable => tableColumn(expr, outerTable) !== null);
+    }
+    return exprChildren(expr).every(child => referencesOnly(child, table, outerTables));
+}
+
+const NO_COLUMNS: EvalContext = {
+    resolveColumn(ref: ColumnExpr): never {
+        throw new Error(`Column ${ref.name} is not a constant`);
+    }
+};
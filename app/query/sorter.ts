@@ -0,0 +1,223 @@
+import { mkdtemp, open, rm } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_CACHE_BUDGET } from '../database/pager.js';
+import { encodeRecord, parseRecord } from '../parser/record.js';
+import { encodeVarint, readVarint } from '../utils/varint.js';
+import type { SqlValue } from '../utils/sqlValue.js';
+
+/**
+ * Orders two rows: negative, zero or positive as a sorts before, equal to or after b.
+ */
+export type RowComparator = (a: SqlValue[], b: SqlValue[]) => number;
+
+/**
+ * Bytes read from or written to a run file at a time.
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Sorts rows within a memory budget. Rows are buffered until their estimated size exceeds
+ * the budget, then sorted and written to a temporary file as a run of records; the runs
+ * are merged as the rows are read back. Rows that compare equal keep the order they were added in.
+ */
+export class Sorter {
+    private readonly compare: RowComparator;
+    private readonly memoryBudget: number;
+    private buffer: SqlValue[][] = [];
+    private bufferSize = 0;
+    private directory: string | null = null;
+    private runs: string[] = [];
+    
+    /**
+     * @param compare - Ordering of the rows
+     * @param memoryBudget - Approximate number of bytes of rows to hold in memory; like SQLite's sorter, defaults to the page cache budget
+     */
+    constructor(compare: RowComparator, memoryBudget: number = DEFAULT_CACHE_BUDGET) {
+        this.compare = compare;
+        this.memoryBudget = memoryBudget;
+    }
+    
+    /**
+     * Add a row, spilling the buffered rows to disk if the budget is exceeded.
+     * @param values - Values of the row
+     */
+    async add(values: SqlValue[]): Promise<void> {
+        this.buffer.push(values);
+        this.bufferSize += estimateSize(values);
+        if (this.bufferSize > this.memoryBudget) {
+            await this.spill();
+        }
+    }
+    
+    /**
+     * Read back every added row in sorted order. Temporary files are removed once the
+     * iteration finishes or is abandoned.
+     * @returns The rows, one at a time
+     */
+    async *sorted(): AsyncGenerator<SqlValue[]> {
+        try {
+            if (this.runs.length === 0) {
+                yield* this.buffer.sort(this.compare);
+                return;
+            }
+            if (this.buffer.length > 0) {
+                await this.spill();
+            }
+            yield* this.merge();
+        } finally {
+            await this.close();
+        }
+    }
+    
+    /**
+     * Discard the buffered rows and remove any temporary files.
+     */
+    async close(): Promise<void> {
+        this.buffer = [];
+        this.bufferSize = 0;
+        this.runs = [];
+        if (this.directory) {
+            await rm(this.directory, { recursive: true, force: true });
+            this.directory = null;
+        }
+    }
+    
+    /**
+     * Sort the buffered rows and write them to a new run file, each record preceded by its length.
+     */
+    private async spill(): Promise<void> {
+        this.directory ??= await mkdtemp(join(tmpdir(), 'sqlite-sort-'));
+        const path = join(this.directory, `run${this.runs.length}`);
+        this.runs.push(path);
+        
+        const file = await open(path, 'w');
+        try {
+            let pending: Uint8Array[] = [];
+            let pendingSize = 0;
+            for (const values of this.buffer.sort(this.compare)) {
+                const record = encodeRecord(values);
+                const length = encodeVarint(record.length);
+                pending.push(length, record);
+                pendingSize += length.length + record.length;
+                if (pendingSize >= CHUNK_SIZE) {
+                    await file.write(Buffer.concat(pending));
+                    pending = [];
+                    pendingSize = 0;
+                }
+            }
+            if (pendingSize > 0) {
+                await file.write(Buffer.concat(pending));
+            }
+        } finally {
+            await file.close();
+        }
+        
+        this.buffer = [];
+        this.bufferSize = 0;
+    }
+    
+    /**
+     * Merge the sorted runs. On ties the earlier run wins, which keeps the sort stable.
+     * @returns The rows of all runs in sorted order
+     */
+    private async *merge(): AsyncGenerator<SqlValue[]> {
+        const readers = await Promise.all(this.runs.map(path => RunReader.open(path)));
+        try {
+            const heads = await Promise.all(readers.map(reader => reader.read()));
+            while (true) {
+                let smallest = -1;
+                heads.forEach((head, i) => {
+                    if (head && (smallest === -1 || this.compare(head, heads[smallest]!) < 0)) {
+                        smallest = i;
+                    }
+                });
+                if (smallest === -1) {
+                    return;
+                }
+                yield heads[smallest]!;
+                heads[smallest] = await readers[smallest].read();
+            }
+        } finally {
+            await Promise.all(readers.map(reader => reader.close()));
+        }
+    }
+}
+
+/**
+ * Sequential reader of the records in a run file.
+ */
+class RunReader {
+    private readonly file: FileHandle;
+    private chunk = new Uint8Array(0);
+    private offset = 0;
+    private position = 0;
+    
+    private constructor(file: FileHandle) {
+        this.file = file;
+    }
+    
+    static async open(path: string): Promise<RunReader> {
+        return new RunReader(await open(path, 'r'));
+    }
+    
+    /**
+     * Read the next record.
+     * @returns The record's values, or null at the end of the run
+     */
+    async read(): Promise<SqlValue[] | null> {
+        // A length varint is at most 9 bytes
+        await this.fill(9);
+        if (this.offset === this.chunk.length) {
+            return null;
+        }
+        const [length, lengthBytes] = readVarint(this.chunk, this.offset);
+        this.offset += lengthBytes;
+        
+        await this.fill(length);
+        const record = this.chunk.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return parseRecord(record);
+    }
+    
+    async close(): Promise<void> {
+        await this.file.close();
+    }
+    
+    /**
+     * Make sure the unread part of the chunk holds at least `size` bytes, unless the file ends first.
+     * @param size - Number of bytes needed
+     */
+    private async fill(size: number): Promise<void> {
+        const available = this.chunk.length - this.offset;
+        if (available >= size) {
+            return;
+        }
+        const chunk = new Uint8Array(available + Math.max(size, CHUNK_SIZE));
+        chunk.set(this.chunk.subarray(this.offset));
+        const { bytesRead } = await this.file.read(chunk, available, chunk.length - available, this.position);
+        this.position += bytesRead;
+        this.chunk = chunk.subarray(0, available + bytesRead);
+        this.offset = 0;
+    }
+}
+
+/**
+ * Estimate the memory held by a buffered row.
+ * @param values - Values of the row
+ * @returns Approximate size in bytes
+ */
+function estimateSize(values: SqlValue[]): number {
+    let size = 32;
+    for (const value of values) {
+        if (typeof value === 'string') {
+            size += 16 + value.length * 2;
+        } else if (value instanceof Uint8Array) {
+            size += 16 + value.length;
+        } else {
+            size += 16;
+        }
+    }
+    return size;
+}
@@ -0,0 +1,70 @@
+import { valueToText, textToNumeric, realToExactInteger } from './sqlValue.js';
+import type { SqlValue } from './sqlValue.js';
+
+/**
+ * SQLite column affinity. 'NONE' is used for expressions that have no affinity
+ * (literals, computed values); columns declared without a type have 'BLOB' affinity.
+ */
+export type Affinity = 'INTEGER' | 'TEXT' | 'BLOB' | 'REAL' | 'NUMERIC' | 'NONE';
+
+/**
+ * Determine the affinity of a column from its declared type, following the rules in
+ * section 3.1 of https://www.sqlite.org/datatype3.html.
+ * @param declaredType - Declared type name, e.g. "VARCHAR(20)" (empty if none)
+ * @returns The column affinity
+ */
+export function getAffinity(declaredType: string): Affinity {
+    const type = declaredType.toUpperCase();
+    
+    if (type.includes('INT')) return 'INTEGER';
+    if (type.includes('CHAR') || type.includes('CLOB') || type.includes('TEXT')) return 'TEXT';
+    if (type.includes('BLOB') || type.trim() === '') return 'BLOB';
+    if (type.includes('REAL') || type.includes('FLOA') || type.includes('DOUB')) return 'REAL';
+    return 'NUMERIC';
+}
+
+/**
+ * Check whether an affinity is one of the numeric affinities.
+ * @param affinity - Affinity to check
+ * @returns True for INTEGER, REAL and NUMERIC
+ */
+export function isNumericAffinity(affinity: Affinity): boolean {
+    return affinity === 'INTEGER' || affinity === 'REAL' || affinity === 'NUMERIC';
+}
+
+/**
+ * Check whether text is a well-formed number that numeric affinity would convert.
+ * @param text - Text to check
+ * @returns True if the text (ignoring surrounding spaces) is an integer or real literal
+ */
+export function looksLikeNumber(text: string): boolean {
+    return /^\s*[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?\s*$/.test(text);
+}
+
+/**
+ * Convert a value to the storage class a column with the given affinity stores it as
+ * (section 3 of https://www.sqlite.org/datatype3.html).
+ * @param value - Value to store
+ * @param affinity - Affinity of the column
+ * @returns The converted value
+ */
+export function applyAffinity(value: SqlValue, affinity: Affinity): SqlValue {
+    switch (affinity) {
+        case 'TEXT':
+            return typeof value === 'bigint' || typeof value === 'number' ? valueToText(value) : value;
+        case 'INTEGER':
+        case 'NUMERIC':
+        case 'REAL': {
+            let number = value;
+            if (typeof value === 'string' && looksLikeNumber(value)) {
+                number = textToNumeric(value);
+            }
+            if (typeof number === 'number' && affinity !== 'REAL') {
+                return realToExactInteger(number) ?? number;
+            }
+            return typeof number === 'bigint' && affinity === 'REAL' ? Number(number) : number;
+        }
+        default:
+            return value;
+    }
+}
@@ -0,0 +1,67 @@
+import { compareUtf16le } from './encoding.js';
+import type { TextEncoding } from './encoding.js';
+
+/**
+ * Built-in SQLite collating sequences, used to compare TEXT values.
+ */
+export type Collation = 'BINARY' | 'NOCASE' | 'RTRIM';
+
+/**
+ * Look up a collating sequence by name.
+ * @param name - Collation name as written, in any case
+ * @returns The collation
+ */
+export function parseCollation(name: string): Collation {
+    const upper = name.toUpperCase();
+    if (upper === 'BINARY' || upper === 'NOCASE' || upper === 'RTRIM') {
+        return upper;
+    }
+    throw new Error(`no such collation sequence: ${name}`);
+}
+
+/**
+ * Compare two strings under a collating sequence. NOCASE folds ASCII letters only
+ * and RTRIM ignores trailing spaces, as in SQLite. BINARY compares the encoded bytes,
+ * which only differs from comparing the strings themselves in a UTF-16le database;
+ * the other collations always compare as UTF-8.
+ * @param a - First string
+ * @param b - Second string
+ * @param collation - Collating sequence to apply
+ * @param encoding - Text encoding of the database the strings are stored in
+ * @returns Negative, zero or positive as a sorts before, equal to or after b
+ */
+export function compareText(a: string, b: string, collation: Collation, encoding: TextEncoding = 'utf-8'): number {
+    if (collation === 'BINARY' && encoding === 'utf-16le') {
+        return compareUtf16le(a, b);
+    }
+    a = collationKey(a, collation);
+    b = collationKey(b, collation);
+    if (a < b) return -1;
+    if (a > b) return 1;
+    return 0;
+}
+
+/**
+ * Normalise a string so that strings equal under a collation become identical.
+ * @param text - Text to normalise
+ * @param collation - Collating sequence
+ * @returns The normalised text, which sorts like the original under BINARY comparison
+ */
+export function collationKey(text: string, collation: Collation): string {
+    if (collation === 'NOCASE') {
+        return foldAsciiCase(text);
+    }
+    if (collation === 'RTRIM') {
+        return text.replace(/ +$/, '');
+    }
+    return text;
+}
+
+/**
+ * Lower-case the ASCII letters of a string, leaving all other characters alone.
+ * @param text - Text to fold
+ * @returns The folded text
+ */
+export function foldAsciiCase(text: string): string {
+    return text.replace(/[A-Z]/g, ch => ch.toLowerCase());
+}
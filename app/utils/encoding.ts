@@ -0,0 +1,72 @@
+/**
+ * Text encodings a database can store its text in.
+ */
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be';
+
+/**
+ * The encodings by the number the database header stores for them, starting at 1.
+ */
+const HEADER_ENCODINGS: TextEncoding[] = ['utf-8', 'utf-16le', 'utf-16be'];
+
+/** One decoder per encoding; a byte order mark is part of the text, as SQLite keeps it */
+const decoders = new Map(HEADER_ENCODINGS.map(encoding => [encoding, new TextDecoder(encoding, { ignoreBOM: true })]));
+
+/**
+ * Look up the text encoding numbered in the database header.
+ * @param code - Value of the header's text encoding field; 0, left by a database without a schema yet, means UTF-8
+ * @returns The encoding
+ */
+export function textEncodingFromHeader(code: number): TextEncoding {
+    const encoding = code === 0 ? 'utf-8' : HEADER_ENCODINGS[code - 1];
+    if (!encoding) {
+        throw new Error(`Unknown text encoding ${code} in the database header`);
+    }
+    return encoding;
+}
+
+/**
+ * Decode text stored in a database.
+ * @param bytes - Encoded text
+ * @param encoding - The database's text encoding
+ * @returns The text
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding = 'utf-8'): string {
+    return decoders.get(encoding)!.decode(bytes);
+}
+
+/**
+ * Encode text for storing in a database.
+ * @param text - The text
+ * @param encoding - The database's text encoding
+ * @returns The encoded bytes, without a byte order mark
+ */
+export function encodeText(text: string, encoding: TextEncoding = 'utf-8'): Uint8Array {
+    if (encoding === 'utf-8') {
+        return new TextEncoder().encode(text);
+    }
+    const bytes = new Uint8Array(text.length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < text.length; i++) {
+        view.setUint16(i * 2, text.charCodeAt(i), encoding === 'utf-16le');
+    }
+    return bytes;
+}
+
+/**
+ * Compare two strings by the bytes of their UTF-16LE encoding, the order of SQLite's BINARY
+ * collation in a UTF-16le database. Code units compare low byte first.
+ * @param a - First string
+ * @param b - Second string
+ * @returns Negative, zero or positive as a sorts before, equal to or after b
+ */
+export function compareUtf16le(a: string, b: string): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const x = a.charCodeAt(i);
+        const y = b.charCodeAt(i);
+        if (x !== y) {
+            return ((x & 0xff) - (y & 0xff)) || ((x >> 8) - (y >> 8));
+        }
+    }
+    return a.length - b.length;
+}
@@ -1,3 +1,7 @@
+import type { SqlValue } from './sqlValue.js';
+import { decodeText, encodeText } from './encoding.js';
+import type { TextEncoding } from './encoding.js';
+
 /**
  * Get the size in bytes of a value based on its SQLite serial type.
  * @param serialType - SQLite serial type code
@@ -14,7 +18,9 @@ export function getSerialTypeSize(serialType: number): number {
     if (serialType === 7) return 8;
     if (serialType === 8) return 0;
     if (serialType === 9) return 0;
-    if (serialType === 10 || serialType === 11) return 0;
+    if (serialType === 10 || serialType === 11) {
+        throw new Error(`Invalid serial type ${serialType} (reserved for internal use)`);
+    }
     if (serialType >= 12 && serialType % 2 === 0) {
         // BLOB
         return (serialType - 12) / 2;
@@ -31,50 +37,96 @@ export function getSerialTypeSize(serialType: number): number {
  * @param buffer - The buffer containing the value
  * @param offset - Byte offset to the value
  * @param serialType - SQLite serial type code
- * @returns The parsed value as a string
+ * @param encoding - Text encoding of the database
+ * @returns The parsed value: null, bigint (INTEGER), number (REAL), string (TEXT) or Uint8Array (BLOB)
  */
-export function parseSerialValue(buffer: Uint8Array, offset: number, serialType: number): string {
+export function parseSerialValue(buffer: Uint8Array, offset: number, serialType: number, encoding: TextEncoding = 'utf-8'): SqlValue {
     const size = getSerialTypeSize(serialType);
     
     if (serialType === 0) {
-        return '';
+        return null;
     } else if (serialType === 8) {
-        return '0';
+        return 0n;
     } else if (serialType === 9) {
-        return '1';
+        return 1n;
     } else if (serialType >= 1 && serialType <= 6) {
-        const view = new DataView(buffer.buffer, buffer.byteOffset + offset, size);
-        let intValue = 0;
-        
-        if (size === 1) {
-            intValue = view.getInt8(0);
-        } else if (size === 2) {
-            intValue = view.getInt16(0, false);
-        } else if (size === 3) {
-            const byte0 = buffer[offset];
-            const byte1 = buffer[offset + 1];
-            const byte2 = buffer[offset + 2];
-            intValue = (byte0 << 16) | (byte1 << 8) | byte2;
-            if (intValue & 0x800000) {
-                intValue |= 0xFF000000;
-            }
-        } else if (size === 4) {
-            intValue = view.getInt32(0, false);
-        } else if (size === 6) {
-            const high = view.getInt16(0, false);
-            const low = view.getUint32(2, false);
-            intValue = (high * 0x100000000) + low;
-        } else if (size === 8) {
-            intValue = Number(view.getBigInt64(0, false));
-        }
-        
-        return intValue.toString();
+        return readSignedInteger(buffer, offset, size);
     } else if (serialType === 7) {
         const view = new DataView(buffer.buffer, buffer.byteOffset + offset, 8);
-        const floatValue = view.getFloat64(0, false);
-        return floatValue.toString();
+        return view.getFloat64(0, false);
+    } else if (serialType % 2 === 0) {
+        return buffer.slice(offset, offset + size);
     } else {
-        const value = new TextDecoder().decode(buffer.slice(offset, offset + size));
-        return value;
+        return decodeText(buffer.subarray(offset, offset + size), encoding);
+    }
+}
+
+/**
+ * Read a big-endian two's complement integer of 1 to 8 bytes.
+ * @param buffer - The buffer containing the integer
+ * @param offset - Byte offset to the integer
+ * @param size - Width of the integer in bytes
+ * @returns The integer value
+ */
+export function readSignedInteger(buffer: Uint8Array, offset: number, size: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < size; i++) {
+        value = (value << 8n) | BigInt(buffer[offset + i]);
+    }
+    return BigInt.asIntN(size * 8, value);
+}
+
+/**
+ * Choose the serial type that stores a value in the fewest bytes.
+ * @param value - Value to store
+ * @param encoding - Text encoding of the database
+ * @returns SQLite serial type code
+ */
+export function getSerialType(value: SqlValue, encoding: TextEncoding = 'utf-8'): number {
+    if (value === null) {
+        return 0;
+    }
+    if (typeof value === 'bigint') {
+        if (value === 0n) return 8;
+        if (value === 1n) return 9;
+        for (const [serialType, size] of [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6]]) {
+            const limit = 1n << BigInt(size * 8 - 1);
+            if (value >= -limit && value < limit) {
+                return serialType;
+            }
+        }
+        return 6;
+    }
+    if (typeof value === 'number') {
+        return 7;
+    }
+    if (typeof value === 'string') {
+        return encodeText(value, encoding).length * 2 + 13;
+    }
+    return value.length * 2 + 12;
+}
+
+/**
+ * Write a value into a buffer in the format of its serial type.
+ * @param buffer - Buffer to write into
+ * @param offset - Byte offset to write at
+ * @param value - Value to write
+ * @param serialType - Serial type chosen for the value by getSerialType
+ * @param encoding - Text encoding of the database
+ */
+export function writeSerialValue(buffer: Uint8Array, offset: number, value: SqlValue, serialType: number, encoding: TextEncoding = 'utf-8'): void {
+    if (typeof value === 'bigint' && serialType >= 1 && serialType <= 6) {
+        const size = getSerialTypeSize(serialType);
+        let remaining = BigInt.asUintN(size * 8, value);
+        for (let i = size - 1; i >= 0; i--) {
+            buffer[offset + i] = Number(remaining & 0xffn);
+            remaining >>= 8n;
+        }
+    } else if (typeof value === 'number') {
+        new DataView(buffer.buffer, buffer.byteOffset + offset, 8).setFloat64(0, value, false);
+    } else if (typeof value === 'string') {
+        buffer.set(encodeText(value, encoding), offset);
+    } else if (value instanceof Uint8Array) {
+        buffer.set(value, offset);
     }
 }
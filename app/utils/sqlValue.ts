@@ -0,0 +1,228 @@
+import { compareText, collationKey } from './collation.js';
+import type { Collation } from './collation.js';
+import type { TextEncoding } from './encoding.js';
+
+/**
+ * A value as stored in or computed from a SQLite database, by storage class:
+ * NULL is `null`, INTEGER is `bigint`, REAL is `number`, TEXT is `string` and BLOB is `Uint8Array`.
+ * Integers are always bigints so that 64-bit values survive and `1` and `1.0` stay distinguishable.
+ */
+export type SqlValue = null | bigint | number | string | Uint8Array;
+
+export const INT64_MIN = -(2n ** 63n);
+export const INT64_MAX = 2n ** 63n - 1n;
+
+/**
+ * Return the name of a value's storage class as SQLite's typeof() does.
+ * @param value - Value to inspect
+ * @returns 'null', 'integer', 'real', 'text' or 'blob'
+ */
+export function sqlTypeOf(value: SqlValue): 'null' | 'integer' | 'real' | 'text' | 'blob' {
+    if (value === null) return 'null';
+    if (typeof value === 'bigint') return 'integer';
+    if (typeof value === 'number') return 'real';
+    if (typeof value === 'string') return 'text';
+    return 'blob';
+}
+
+/**
+ * Convert a value to text the way SQLite does when text is required.
+ * @param value - Value to convert
+ * @returns The textual form, or null for NULL
+ */
+export function valueToText(value: SqlValue): string | null {
+    if (value === null) return null;
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value === 'number') return formatReal(value);
+    if (typeof value === 'string') return value;
+    return new TextDecoder().decode(value);
+}
+
+/**
+ * Format a value for CLI output as the sqlite3 shell does: NULL prints as nothing, text as
+ * UTF-8, and a BLOB as its bytes unchanged. The shell prints C strings, so both end at the
+ * first NUL byte.
+ * @param value - Value to format
+ * @returns The bytes to write
+ */
+export function formatValue(value: SqlValue): Uint8Array {
+    const bytes = value instanceof Uint8Array ? value : new TextEncoder().encode(valueToText(value) ?? '');
+    const end = bytes.indexOf(0);
+    return end === -1 ? bytes : bytes.subarray(0, end);
+}
+
+/**
+ * Format a REAL the way SQLite does ("%!.15g"): 15 significant digits, always with a
+ * decimal point, and exponent notation for very large or small magnitudes.
+ * @param value - Floating point value
+ * @returns The formatted number
+ */
+export function formatReal(value: number): string {
+    if (Number.isNaN(value)) return '';
+    if (value === Infinity) return 'Inf';
+    if (value === -Infinity) return '-Inf';
+    // Negative zero prints as plain zero, as in sqlite3
+    if (value === 0) return '0.0';
+    
+    const [mantissa, exponentText] = value.toExponential(14).split('e');
+    const exponent = parseInt(exponentText);
+    
+    if (exponent < -4 || exponent >= 15) {
+        const sign = exponent < 0 ? '-' : '+';
+        const digits = Math.abs(exponent).toString().padStart(2, '0');
+        return `${withDecimalPoint(trimZeros(mantissa))}e${sign}${digits}`;
+    }
+    return withDecimalPoint(trimZeros(value.toFixed(14 - exponent)));
+}
+
+/**
+ * Parse the longest numeric prefix of some text, as SQLite does when text is used in arithmetic.
+ * @param text - Text to convert
+ * @returns An integer for integral prefixes that fit in 64 bits, a real otherwise, and 0 without a numeric prefix
+ */
+export function textToNumeric(text: string): bigint | number {
+    const match = text.match(/^\s*([+-]?)(\d*)(\.\d*)?([eE][+-]?\d+)?/)!;
+    const [prefix, , digits, fraction, exponent] = match;
+    if (digits === '' && (fraction === undefined || fraction.length < 2)) {
+        return 0n;
+    }
+    if (fraction === undefined && exponent === undefined) {
+        const integer = BigInt(prefix.trim());
+        if (integer >= INT64_MIN && integer <= INT64_MAX) {
+            return integer;
+        }
+    }
+    return Number(prefix.trim());
+}
+
+/**
+ * Convert a non-NULL value to a number for arithmetic, using the longest numeric prefix of text and blobs.
+ * @param value - Non-NULL value
+ * @returns INTEGER or REAL value (0 for text without a numeric prefix)
+ */
+export function toNumeric(value: Exclude<SqlValue, null>): bigint | number {
+    if (typeof value === 'bigint' || typeof value === 'number') {
+        return value;
+    }
+    return textToNumeric(valueToText(value)!);
+}
+
+/**
+ * Convert a numeric value to a 64-bit integer, truncating reals towards zero and saturating out-of-range values.
+ * @param value - INTEGER or REAL value
+ * @returns The integer value
+ */
+export function toInteger(value: bigint | number): bigint {
+    if (typeof value === 'bigint') {
+        return value;
+    }
+    if (Number.isNaN(value)) return 0n;
+    if (value <= -9223372036854775808) return INT64_MIN;
+    if (value >= 9223372036854775807) return INT64_MAX;
+    return realToExactInteger(Math.trunc(value))!;
+}
+
+/**
+ * Convert a non-NULL value to an integer as CAST(... AS INTEGER) does: reals are truncated,
+ * and text and blobs use only their integer prefix, so '1e3' becomes 1.
+ * @param value - Non-NULL value
+ * @returns The 64-bit integer value, clamped to the representable range
+ */
+export function valueToInteger(value: Exclude<SqlValue, null>): bigint {
+    if (typeof value === 'bigint' || typeof value === 'number') {
+        return toInteger(value);
+    }
+    const match = valueToText(value)!.match(/^\s*([+-]?\d+)/);
+    if (!match) {
+        return 0n;
+    }
+    const integer = BigInt(match[1]);
+    return integer < INT64_MIN ? INT64_MIN : integer > INT64_MAX ? INT64_MAX : integer;
+}
+
+/**
+ * Convert a real to an integer if it can be represented exactly.
+ * @param value - Floating point value
+ * @returns The integer value, or null if the real has a fraction or is out of range
+ */
+export function realToExactInteger(value: number): bigint | null {
+    if (!Number.isInteger(value) || value < -9223372036854775808 || value >= 9223372036854775808) {
+        return null;
+    }
+    return BigInt(value);
+}
+
+/**
+ * Build a string that is the same for two values exactly when they compare equal, so that
+ * values can be grouped and de-duplicated with a Map or Set.
+ * @param value - Value to encode
+ * @param collation - Collating sequence for TEXT values
+ * @returns The key
+ */
+export function valueKey(value: SqlValue, collation: Collation = 'BINARY'): string {
+    if (value === null) return 'null';
+    if (typeof value === 'bigint') return `n:${value}`;
+    if (typeof value === 'number') return `n:${realToExactInteger(value) ?? value}`;
+    if (typeof value === 'string') return `t:${collationKey(value, collation)}`;
+    return `b:${Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function trimZeros(text: string): string {
+    return text.includes('.') ? text.replace(/\.?0+$/, '') : text;
+}
+
+function withDecimalPoint(text: string): string {
+    return text.includes('.') ? text : `${text}.0`;
+}
+
+/**
+ * Compare two values by SQLite's storage class ordering: NULL < INTEGER/REAL < TEXT < BLOB.
+ * Numbers compare numerically across INTEGER and REAL, text by collating sequence and blobs bytewise.
+ * @param a - First value
+ * @param b - Second value
+ * @param collation - Collating sequence for comparing two TEXT values
+ * @param encoding - Text encoding of the database the values are stored in
+ * @returns Negative, zero or positive as a sorts before, equal to or after b
+ */
+export function compareValues(a: SqlValue, b: SqlValue, collation: Collation = 'BINARY', encoding: TextEncoding = 'utf-8'): number {
+    const rankA = storageRank(a);
+    const rankB = storageRank(b);
+    if (rankA !== rankB) {
+        return rankA - rankB;
+    }
+    if (a instanceof Uint8Array && b instanceof Uint8Array) {
+        return compareBytes(a, b);
+    }
+    if (a === null || b === null || a instanceof Uint8Array || b instanceof Uint8Array) {
+        return 0;
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+        return compareText(a, b, collation, encoding);
+    }
+    if (a < b) return -1;
+    if (a > b) return 1;
+    return 0;
+}
+
+/**
+ * Compare two byte arrays as memcmp() would, with a shorter prefix sorting first.
+ * @param a - First byte array
+ * @param b - Second byte array
+ * @returns Negative, zero or positive as a sorts before, equal to or after b
+ */
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return a.length - b.length;
+}
+
+function storageRank(value: SqlValue): number {
+    if (value === null) return 0;
+    if (typeof value === 'bigint' || typeof value === 'number') return 1;
+    if (typeof value === 'string') return 2;
+    return 3;
+}
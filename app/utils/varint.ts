@@ -8,21 +8,73 @@ export function readVarint(buffer: Uint8Array, offset: number): [number, number]
     let value = 0;
     let bytesRead = 0;
     
+    // Seven bytes carry at most 49 bits, which is exact in a double
+    for (let i = 0; i < 7; i++) {
+        const byte = buffer[offset + i];
+        bytesRead++;
+        value = value * 128 + (byte & 0x7f);
+        if ((byte & 0x80) === 0) {
+            return [value, bytesRead];
+        }
+    }
+    
+    const [bigValue, totalBytes] = readVarintBigInt(buffer, offset);
+    return [Number(bigValue), totalBytes];
+}
+
+/**
+ * Read a variable-length integer as a signed 64-bit value.
+ * @param buffer - The buffer containing the varint
+ * @param offset - Byte offset to start reading from
+ * @returns Tuple of [value, bytesRead]
+ */
+export function readVarintBigInt(buffer: Uint8Array, offset: number): [bigint, number] {
+    let value = 0n;
+    let bytesRead = 0;
+    
     for (let i = 0; i < 9; i++) {
         const byte = buffer[offset + i];
         bytesRead++;
         
         if (i === 8) {
             // 9th byte uses all 8 bits
-            value = (value << 8) | byte;
+            value = (value << 8n) | BigInt(byte);
             break;
         } else {
-            value = (value << 7) | (byte & 0x7f);
+            value = (value << 7n) | BigInt(byte & 0x7f);
             if ((byte & 0x80) === 0) {
                 break;
             }
         }
     }
     
-    return [value, bytesRead];
+    return [BigInt.asIntN(64, value), bytesRead];
+}
+
+/**
+ * Encode an integer as a variable-length integer.
+ * @param value - Value to encode; negative values are stored as their 64-bit two's complement
+ * @returns The encoded bytes, 1 to 9 of them
+ */
+export function encodeVarint(value: number | bigint): Uint8Array {
+    let remaining = BigInt.asUintN(64, BigInt(value));
+    
+    // Values above 56 bits use all 8 bits of the 9th byte
+    if (remaining >= 1n << 56n) {
+        const bytes = new Uint8Array(9);
+        bytes[8] = Number(remaining & 0xffn);
+        remaining >>= 8n;
+        for (let i = 7; i >= 0; i--) {
+            bytes[i] = Number(remaining & 0x7fn) | 0x80;
+            remaining >>= 7n;
+        }
+        return bytes;
+    }
+    
+    const groups: number[] = [];
+    do {
+        groups.unshift(Number(remaining & 0x7fn));
+        remaining >>= 7n;
+    } while (remaining > 0n);
+    return Uint8Array.from(groups, (group, i) => i < groups.length - 1 ? group | 0x80 : group);
 }
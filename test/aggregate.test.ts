@@ -0,0 +1,19 @@
+import { after, test } from 'node:test';
+import { Fixtures, expectSameOutput } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+test('sum and avg of REALs keep the digits naive addition loses', async () => {
+    const database = fixtures.database("CREATE TABLE t(g, v); INSERT INTO t VALUES"
+        + " (1, 1e100), (1, 1.0), (1, -1e100), (2, 0.1), (2, 0.2), (2, 0.3), (3, 1e16), (3, 1.0), (3, -1e16), (3, 2.5);");
+    await expectSameOutput(database, "SELECT g, sum(v), total(v), avg(v) FROM t GROUP BY g");
+    await expectSameOutput(database, "SELECT sum(v), total(v) FROM t");
+});
+
+test('sum of integers past 2^53 mixed with REALs', async () => {
+    const database = fixtures.database("CREATE TABLE t(v); INSERT INTO t VALUES"
+        + " (9007199254740993), (9007199254740993), (0.5), (-9007199254740993);");
+    await expectSameOutput(database, "SELECT sum(v), total(v), avg(v) FROM t");
+    await expectSameOutput(database, "SELECT sum(v) FROM t WHERE typeof(v) = 'integer'");
+});
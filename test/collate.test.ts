@@ -0,0 +1,50 @@
+import { after, test } from 'node:test';
+import { Fixtures, expectSameOutput } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+/**
+ * Names that differ in case and trailing spaces, indexed with and without NOCASE.
+ */
+const NAMES = "CREATE TABLE p(id INTEGER PRIMARY KEY, name TEXT, tag TEXT COLLATE NOCASE);"
+    + " CREATE INDEX pn ON p(name); CREATE INDEX pnn ON p(name COLLATE NOCASE); CREATE INDEX pt ON p(tag);"
+    + " INSERT INTO p(name, tag) VALUES ('x', 'A'), ('X', 'a'), ('y', 'B'), ('Y ', 'b'), ('z', 'c'), ('Z', 'C');"
+    + " CREATE TABLE q(k TEXT COLLATE NOCASE, j TEXT); INSERT INTO q VALUES ('X', 'y'), ('y', 'Z');";
+
+test('COLLATE decides how a comparison treats text', async () => {
+    const database = fixtures.database(NAMES);
+    for (const where of [
+        "name = 'x' COLLATE NOCASE",
+        "name COLLATE NOCASE = 'x'",
+        "name COLLATE RTRIM = 'y'",
+        "tag = 'a' COLLATE BINARY",
+        "name BETWEEN 'x' COLLATE NOCASE AND 'y'",
+        "name > 'X' COLLATE NOCASE",
+        "name || '' = 'x' COLLATE NOCASE",
+    ]) {
+        await expectSameOutput(database, `SELECT id FROM p WHERE ${where} ORDER BY id`);
+    }
+});
+
+test('only the left operand of IN decides its collation', async () => {
+    const database = fixtures.database(NAMES);
+    await expectSameOutput(database, "SELECT id FROM p WHERE name IN ('x' COLLATE NOCASE, 'z') ORDER BY id");
+    await expectSameOutput(database, "SELECT id FROM p WHERE name COLLATE NOCASE IN ('x', 'z') ORDER BY id");
+    await expectSameOutput(database, "SELECT id FROM p WHERE tag IN ('a', 'B') ORDER BY id");
+});
+
+test('a join uses an index only when the collations agree', async () => {
+    const database = fixtures.database(NAMES);
+    for (const on of ["p.name = q.k", "q.k = p.name", "p.name = q.j COLLATE NOCASE", "p.name COLLATE NOCASE = q.j", "p.tag IN (q.j)"]) {
+        await expectSameOutput(database, `SELECT p.id, q.k FROM q JOIN p ON ${on} ORDER BY 1, 2`);
+    }
+});
+
+test('COLLATE applies to ORDER BY, GROUP BY and DISTINCT', async () => {
+    const database = fixtures.database(NAMES);
+    await expectSameOutput(database, "SELECT name FROM p ORDER BY name COLLATE NOCASE, id");
+    await expectSameOutput(database, "SELECT name FROM p ORDER BY 1 COLLATE NOCASE DESC, id");
+    await expectSameOutput(database, "SELECT count(*) FROM p GROUP BY name COLLATE NOCASE");
+    await expectSameOutput(database, "SELECT count(DISTINCT name COLLATE NOCASE) FROM p");
+});
@@ -0,0 +1,16 @@
+import { after, test } from 'node:test';
+import { Fixtures, expectSameOutput } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+test('negative zero prints as 0.0', async () => {
+    const database = fixtures.database("CREATE TABLE t(v REAL); INSERT INTO t VALUES (-0.0), (0.0);");
+    await expectSameOutput(database, "SELECT v, -v, -0.0, 0.0 * -1, typeof(-0.0) FROM t");
+});
+
+test('the smallest 64-bit integer can be written as a literal', async () => {
+    const database = fixtures.database("CREATE TABLE t(v); INSERT INTO t VALUES (1);");
+    await expectSameOutput(database, "SELECT -9223372036854775808, typeof(-9223372036854775808), -(9223372036854775808), typeof(-(9223372036854775808)) FROM t");
+    await expectSameOutput(database, "SELECT 9223372036854775808, typeof(9223372036854775808), - -9223372036854775808, -9223372036854775808 - 1 FROM t");
+});
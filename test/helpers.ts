@@ -0,0 +1,140 @@
+import { strict as assert } from 'assert';
+import { execFileSync, spawn, spawnSync } from 'child_process';
+import { copyFileSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * The script that runs the program, as the challenge's tester invokes it.
+ */
+const PROGRAM = fileURLToPath(new URL('../your_program.sh', import.meta.url));
+
+/**
+ * What a run of the program printed and how it ended.
+ */
+export interface RunResult {
+    stdout: string;
+    stderr: string;
+    /** Exit code, null if a signal ended the process */
+    status: number | null;
+}
+
+/**
+ * Run the program on a database and wait for it to exit. Runs may overlap, to test locking.
+ * @param database - Path to the database file
+ * @param command - SQL or dot command to run
+ * @returns What the run printed and its exit code
+ */
+export function run(database: string, command: string): Promise<RunResult> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(PROGRAM, [database, command]);
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', chunk => stdout += chunk);
+        child.stderr.on('data', chunk => stderr += chunk);
+        child.on('error', reject);
+        child.on('close', status => resolve({ stdout, stderr, status }));
+    });
+}
+
+/**
+ * Run SQL with the sqlite3 shell, the reference the program is compared with.
+ * @param database - Path to the database file
+ * @param sql - Statements to run
+ * @returns What sqlite3 printed
+ */
+export function sqlite3(database: string, sql: string): string {
+    return execFileSync('sqlite3', [database, sql], { encoding: 'utf-8' });
+}
+
+/**
+ * Database files made for one test file in a directory of their own, removed by `cleanup`.
+ */
+export class Fixtures {
+    private readonly directory = mkdtempSync(join(tmpdir(), 'sqlite-test-'));
+    private count = 0;
+    
+    /**
+     * Make a new database with sqlite3.
+     * @param sql - Statements that set it up
+     * @returns Path to the database file
+     */
+    database(sql: string): string {
+        const path = this.path();
+        sqlite3(path, sql);
+        return path;
+    }
+    
+    /**
+     * Copy a database, so that the program and sqlite3 can each change one of the copies.
+     * @param database - Path to the database file
+     * @returns Path to the copy
+     */
+    copy(database: string): string {
+        const path = this.path();
+        copyFileSync(database, path);
+        return path;
+    }
+    
+    /**
+     * Make up the path of a database file that does not exist yet.
+     * @returns The path
+     */
+    path(): string {
+        return join(this.directory, `${++this.count}.db`);
+    }
+    
+    /**
+     * Remove every file made.
+     */
+    cleanup(): void {
+        rmSync(this.directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Run a statement with the program on one copy of a database and with sqlite3 on another,
+ * then check that a query sees the same in both and that sqlite3 finds the program's copy intact.
+ * @param fixtures - Where to make the databases
+ * @param setup - Statements that set up the database
+ * @param statement - The statement under test
+ * @param query - Query whose results must agree
+ */
+export async function expectSameAsSqlite(fixtures: Fixtures, setup: string, statement: string, query: string): Promise<void> {
+    const ours = fixtures.database(setup);
+    const theirs = fixtures.copy(ours);
+    const result = await run(ours, statement);
+    assert.equal(result.status, 0, result.stderr);
+    sqlite3(theirs, statement);
+    assert.equal(sqlite3(ours, query), sqlite3(theirs, query));
+    assert.equal(sqlite3(ours, 'PRAGMA integrity_check'), 'ok\n');
+}
+
+/**
+ * List the files a database has beside it, such as its journal and lock file.
+ * @param database - Path to the database file
+ * @returns Names of the files whose names start with the database's and a dash
+ */
+export function sideFiles(database: string): string[] {
+    return readdirSync(dirname(database)).filter(name => name.startsWith(`${basename(database)}-`));
+}
+
+/**
+ * Get the ID of a process that has exited, as a lock or journal left behind by it would record.
+ * @returns The process ID
+ */
+export function deadProcessId(): number {
+    return spawnSync('true').pid;
+}
+
+/**
+ * Run a query with the program and with sqlite3 and check that both print the same.
+ * @param database - Path to the database file
+ * @param sql - The query
+ */
+export async function expectSameOutput(database: string, sql: string): Promise<void> {
+    const result = await run(database, sql);
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(result.stdout, sqlite3(database, sql));
+}
@@ -0,0 +1,70 @@
+import { strict as assert } from 'assert';
+import { after, test } from 'node:test';
+import { Fixtures, expectSameAsSqlite, run, sqlite3 } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+test('INSERT stores rows and index entries as sqlite3 does', async () => {
+    await expectSameAsSqlite(fixtures,
+        "CREATE TABLE t(id INTEGER PRIMARY KEY, a TEXT, b REAL); CREATE INDEX ta ON t(a);",
+        "INSERT INTO t(a, b) VALUES ('x', 1.5), ('y', NULL), ('x', -2), (3, '4')",
+        "SELECT id, a, typeof(a), b, typeof(b) FROM t; SELECT a, id FROM t INDEXED BY ta WHERE a > '';",
+    );
+});
+
+test('INSERT splits pages as the table grows', async () => {
+    const values = Array.from({ length: 300 }, (_, i) => `(${i * 7 % 300}, '${'v'.repeat(i % 50)}')`).join(', ');
+    await expectSameAsSqlite(fixtures,
+        "CREATE TABLE t(a, b); CREATE INDEX tab ON t(b, a);",
+        `INSERT INTO t VALUES ${values}`,
+        "SELECT rowid, a, b FROM t; SELECT count(*) FROM t INDEXED BY tab WHERE b >= '';",
+    );
+});
+
+test('INSERT keeps rowids beyond 2^53 exact', async () => {
+    await expectSameAsSqlite(fixtures,
+        "CREATE TABLE t(id INTEGER PRIMARY KEY, a);",
+        "INSERT INTO t VALUES (9007199254740993, 'a'); INSERT INTO t(a) VALUES ('b');",
+        "SELECT id, a FROM t;",
+    );
+});
+
+test('INSERT continues an AUTOINCREMENT sequence past deleted rows', async () => {
+    await expectSameAsSqlite(fixtures,
+        "CREATE TABLE t(id INTEGER PRIMARY KEY AUTOINCREMENT, a); INSERT INTO t(a) VALUES (1), (2), (3); DELETE FROM t WHERE id = 3;",
+        "INSERT INTO t(a) VALUES (4)",
+        "SELECT id, a FROM t; SELECT * FROM sqlite_sequence;",
+    );
+});
+
+test('INSERT picks an unused rowid once the largest one is taken', async () => {
+    const database = fixtures.database("CREATE TABLE t(id INTEGER PRIMARY KEY, a); INSERT INTO t VALUES (9223372036854775807, 'max');");
+    const result = await run(database, "INSERT INTO t(a) VALUES ('b'), ('c')");
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(sqlite3(database, "SELECT count(DISTINCT id), min(id) > 0, max(id) FROM t"), "3|1|9223372036854775807\n");
+});
+
+test('INSERT fails once an AUTOINCREMENT table has used the largest rowid', async () => {
+    const database = fixtures.database("CREATE TABLE t(id INTEGER PRIMARY KEY AUTOINCREMENT, a); INSERT INTO t VALUES (9223372036854775807, 'max');");
+    const result = await run(database, "INSERT INTO t(a) VALUES ('b')");
+    assert.notEqual(result.status, 0);
+    assert.match(result.stderr, /database or disk is full/);
+    assert.equal(sqlite3(database, "SELECT count(*) FROM t"), "1\n");
+});
+
+test('INSERT writes nothing when a row violates a constraint', async () => {
+    const database = fixtures.database("CREATE TABLE t(a UNIQUE, b NOT NULL); INSERT INTO t VALUES (1, 1);");
+    const result = await run(database, "INSERT INTO t VALUES (2, 2), (1, 3)");
+    assert.notEqual(result.status, 0);
+    assert.match(result.stderr, /UNIQUE constraint failed: t\.a/);
+    assert.equal(sqlite3(database, "SELECT a, b FROM t; PRAGMA integrity_check;"), "1|1\nok\n");
+});
+
+test('INSERT refuses a table with triggers', async () => {
+    const database = fixtures.database("CREATE TABLE t(a); CREATE TABLE log(a); CREATE TRIGGER tl AFTER INSERT ON t BEGIN INSERT INTO log VALUES (new.a); END;");
+    const result = await run(database, "INSERT INTO t VALUES (1)");
+    assert.notEqual(result.status, 0);
+    assert.match(result.stderr, /cannot modify table with triggers/);
+    assert.equal(sqlite3(database, "SELECT count(*) FROM t; SELECT count(*) FROM log;"), "0\n0\n");
+});
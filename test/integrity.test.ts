@@ -0,0 +1,48 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { after, test } from 'node:test';
+import { Fixtures, expectSameOutput } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+/**
+ * Page size of the databases sqlite3 makes for these tests.
+ */
+const PAGE_SIZE = 4096;
+
+/**
+ * A table over several leaf pages, with an index.
+ */
+const ROWS = "CREATE TABLE t(id INTEGER PRIMARY KEY, v); CREATE INDEX iv ON t(v);"
+    + " WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 400)"
+    + " INSERT INTO t SELECT i, printf('value %d', i) FROM n;";
+
+/**
+ * Make the payload size of a cell on the first table leaf after the schema page claim more
+ * bytes than the page has, so the cell cannot be read.
+ * @param database - Path to the database file
+ * @param cell - Index of the cell on the leaf
+ */
+function breakTableCell(database: string, cell: number): void {
+    const contents = readFileSync(database);
+    let start = PAGE_SIZE;
+    while (contents[start] !== 0x0d) {
+        start += PAGE_SIZE;
+    }
+    const offset = contents.readUInt16BE(start + 8 + 2 * cell);
+    // A first varint byte of 0x81 makes the payload size at least 128 bytes, more than the row has
+    contents[start + offset] = 0x81;
+    writeFileSync(database, contents);
+}
+
+test('integrity_check keeps checking rows past a table cell it cannot read', async () => {
+    const database = fixtures.database(ROWS);
+    breakTableCell(database, 5);
+    await expectSameOutput(database, "PRAGMA integrity_check");
+    await expectSameOutput(database, "PRAGMA integrity_check(1)");
+});
+
+test('integrity_check finds nothing wrong in an intact database', async () => {
+    const database = fixtures.database(ROWS);
+    await expectSameOutput(database, "PRAGMA integrity_check");
+});
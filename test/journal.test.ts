@@ -0,0 +1,88 @@
+import { strict as assert } from 'assert';
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { after, test } from 'node:test';
+import { Journal } from '../app/database/journal.js';
+import { Fixtures, deadProcessId, run, sideFiles, sqlite3 } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+/**
+ * Page size of the databases sqlite3 makes for these tests.
+ */
+const PAGE_SIZE = 4096;
+
+/**
+ * A table spread over several pages.
+ */
+const ROWS = "CREATE TABLE t(id INTEGER PRIMARY KEY, a); CREATE INDEX ta ON t(a);"
+    + " WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 300)"
+    + " INSERT INTO t SELECT i, printf('%.*c', i % 40 + 1, 'x') FROM n;";
+
+/**
+ * Leave a database as a writer that died in the middle of a commit would: a journal holding
+ * every original page, and a database whose pages were partly overwritten and which has grown.
+ * @param database - Path to the database file
+ * @param owner - Identity the journal records for its writer, null for a journal of another program
+ */
+async function crashDuringCommit(database: string, owner: string | null): Promise<void> {
+    const contents = readFileSync(database);
+    async function* pages(): AsyncIterable<[number, Uint8Array]> {
+        for (let page = 1; page * PAGE_SIZE <= contents.length; page++) {
+            yield [page, contents.subarray((page - 1) * PAGE_SIZE, page * PAGE_SIZE)];
+        }
+    }
+    await new Journal(`${database}-journal`, owner).write(PAGE_SIZE, contents.length / PAGE_SIZE, pages());
+    
+    const damaged = Buffer.from(contents);
+    damaged.fill(0xee, PAGE_SIZE, 2 * PAGE_SIZE);
+    writeFileSync(database, damaged);
+    appendFileSync(database, Buffer.alloc(PAGE_SIZE, 0xee));
+}
+
+test('a committed write leaves no journal or lock file behind', async () => {
+    const database = fixtures.database(ROWS);
+    const result = await run(database, "INSERT INTO t(a) VALUES ('new'); UPDATE t SET a = 'y' WHERE id < 100;");
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(sideFiles(database), []);
+    assert.equal(sqlite3(database, "SELECT count(*) FROM t WHERE a = 'y'; PRAGMA integrity_check;"), "99\nok\n");
+});
+
+test('a transaction left open at the end is discarded', async () => {
+    const database = fixtures.database(ROWS);
+    const result = await run(database, "BEGIN; DELETE FROM t; INSERT INTO t(a) VALUES ('new');");
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(sqlite3(database, "SELECT count(*) FROM t; PRAGMA integrity_check;"), "300\nok\n");
+});
+
+test('a writer rolls back the journal of a writer of this tool that died', { timeout: 20000 }, async () => {
+    const database = fixtures.database(ROWS);
+    const expected = sqlite3(database, "SELECT * FROM t");
+    await crashDuringCommit(database, `${deadProcessId()}`);
+    
+    // Readers wait for the journal to go away but never play it back
+    const read = await run(database, "SELECT count(*) FROM t");
+    assert.notEqual(read.status, 0);
+    assert.match(read.stderr, /database is locked/);
+    assert.ok(existsSync(`${database}-journal`));
+    
+    const write = await run(database, "INSERT INTO t VALUES (301, 'new')");
+    assert.equal(write.status, 0, write.stderr);
+    assert.deepEqual(sideFiles(database), []);
+    assert.equal(sqlite3(database, "SELECT * FROM t WHERE id <= 300"), expected);
+    assert.equal(sqlite3(database, "SELECT a FROM t WHERE id = 301; PRAGMA integrity_check;"), "new\nok\n");
+});
+
+test('a journal this tool did not write is left alone', { timeout: 20000 }, async () => {
+    const database = fixtures.database(ROWS);
+    await crashDuringCommit(database, null);
+    const journal = readFileSync(`${database}-journal`);
+    const contents = readFileSync(database);
+    
+    // It may belong to a sqlite3 process that is still writing, whose lock cannot be seen
+    const write = await run(database, "INSERT INTO t VALUES (301, 'new')");
+    assert.notEqual(write.status, 0);
+    assert.match(write.stderr, /database is locked/);
+    assert.deepEqual(readFileSync(`${database}-journal`), journal);
+    assert.deepEqual(readFileSync(database), contents);
+});
@@ -0,0 +1,50 @@
+import { strict as assert } from 'assert';
+import { readFileSync, statSync, writeFileSync } from 'fs';
+import { after, test } from 'node:test';
+import { Fixtures, deadProcessId, run, sideFiles, sqlite3 } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+test('concurrent writers take turns', { timeout: 60000 }, async () => {
+    const database = fixtures.database("CREATE TABLE t(a);");
+    const results = await Promise.all(Array.from({ length: 6 }, (_, i) => run(database, `INSERT INTO t VALUES (${i})`)));
+    for (const result of results) {
+        assert.equal(result.status, 0, result.stderr);
+    }
+    assert.deepEqual(sideFiles(database), []);
+    assert.equal(sqlite3(database, "SELECT group_concat(a, ',') FROM (SELECT a FROM t ORDER BY a); PRAGMA integrity_check;"), "0,1,2,3,4,5\nok\n");
+});
+
+test('concurrent writers take over a lock left by a process that died', { timeout: 60000 }, async () => {
+    const database = fixtures.database("CREATE TABLE t(a);");
+    writeFileSync(`${database}-lock`, `${deadProcessId()}\n`);
+    const results = await Promise.all(Array.from({ length: 6 }, (_, i) => run(database, `INSERT INTO t VALUES (${i})`)));
+    for (const result of results) {
+        assert.equal(result.status, 0, result.stderr);
+    }
+    assert.deepEqual(sideFiles(database), []);
+    assert.equal(sqlite3(database, "SELECT count(*) FROM t; PRAGMA integrity_check;"), "6\nok\n");
+});
+
+test('a takeover left unfinished by a process that died is taken over too', async () => {
+    const database = fixtures.database("CREATE TABLE t(a);");
+    const lock = `${database}-lock`;
+    writeFileSync(lock, `${deadProcessId()}\n`);
+    writeFileSync(`${lock}.${statSync(lock).ino}.break`, `${deadProcessId()}\n`);
+    const result = await run(database, "INSERT INTO t VALUES (1)");
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(sideFiles(database), []);
+    assert.equal(sqlite3(database, "SELECT count(*) FROM t"), "1\n");
+});
+
+test('a writer gives up while a live process holds the lock', { timeout: 20000 }, async () => {
+    const database = fixtures.database("CREATE TABLE t(a);");
+    const lock = `${database}-lock`;
+    writeFileSync(lock, `${process.pid}\n`);
+    const result = await run(database, "INSERT INTO t VALUES (1)");
+    assert.notEqual(result.status, 0);
+    assert.match(result.stderr, /database is locked/);
+    assert.equal(readFileSync(lock, 'utf-8'), `${process.pid}\n`);
+    assert.equal(sqlite3(database, "SELECT count(*) FROM t"), "0\n");
+});
@@ -0,0 +1,59 @@
+import { strict as assert } from 'assert';
+import { after, test } from 'node:test';
+import { Fixtures, expectSameAsSqlite, run, sqlite3 } from './helpers.js';
+
+const fixtures = new Fixtures();
+after(() => fixtures.cleanup());
+
+/**
+ * A table of 500 rows spread over many pages, with an index.
+ */
+const ROWS = "CREATE TABLE t(id INTEGER PRIMARY KEY, a, b TEXT); CREATE INDEX tb ON t(b);"
+    + " WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 500)"
+    + " INSERT INTO t SELECT i, i % 7, printf('%.*c', i % 90 + 1, 'x') FROM n;";
+
+test('UPDATE changes rows and their index entries as sqlite3 does', async () => {
+    await expectSameAsSqlite(fixtures, ROWS,
+        "UPDATE t SET b = b || 'y', a = a * 2 WHERE a = 3",
+        "SELECT id, a, b FROM t; SELECT b, id FROM t INDEXED BY tb WHERE b > '';",
+    );
+});
+
+test('UPDATE moves a row to a new rowid', async () => {
+    await expectSameAsSqlite(fixtures, ROWS,
+        "UPDATE t SET id = id + 9007199254740993 WHERE id > 490",
+        "SELECT id, a, b FROM t WHERE id > 480;",
+    );
+});
+
+test('UPDATE writes nothing when a row violates a constraint', async () => {
+    const database = fixtures.database("CREATE TABLE t(a UNIQUE); INSERT INTO t VALUES (1), (2), (3);");
+    const result = await run(database, "UPDATE t SET a = 4 WHERE a > 1");
+    assert.notEqual(result.status, 0);
+    assert.match(result.stderr, /UNIQUE constraint failed: t\.a/);
+    assert.equal(sqlite3(database, "SELECT a FROM t; PRAGMA integrity_check;"), "1\n2\n3\nok\n");
+});
+
+test('DELETE removes rows and index entries and frees their pages', async () => {
+    await expectSameAsSqlite(fixtures, ROWS,
+        "DELETE FROM t WHERE id % 5 <> 0 OR b > 'xxxxxxxxxx'",
+        "SELECT id, a, b FROM t; SELECT b, id FROM t INDEXED BY tb WHERE b > ''; PRAGMA freelist_count;",
+    );
+});
+
+test('DELETE without WHERE empties the table', async () => {
+    await expectSameAsSqlite(fixtures, ROWS,
+        "DELETE FROM t",
+        "SELECT count(*) FROM t; PRAGMA freelist_count;",
+    );
+});
+
+test('UPDATE and DELETE refuse a table with triggers', async () => {
+    const database = fixtures.database("CREATE TABLE t(a); INSERT INTO t VALUES (1); CREATE TRIGGER td BEFORE DELETE ON t BEGIN SELECT 1; END;");
+    for (const statement of ["UPDATE t SET a = 2", "DELETE FROM t"]) {
+        const result = await run(database, statement);
+        assert.notEqual(result.status, 0);
+        assert.match(result.stderr, /cannot modify table with triggers/);
+    }
+    assert.equal(sqlite3(database, "SELECT a FROM t"), "1\n");
+});